@@ -1,17 +1,60 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Settings, Activity, Gauge, Share2, Check, Plus, Minus, Shuffle, Sliders, Zap, Clock } from 'lucide-react';
-import { RadarParams, Car, SPEED_LIMIT_KMH, SimulationState, C } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Settings, Activity, Gauge, Share2, Check, Plus, Minus, Shuffle, Sliders, Zap, Clock, Compass, Radio, Lock, Unlock, ArrowLeft, ArrowRight, Siren } from 'lucide-react';
+import { RadarParams, Car, SimulationState, C, WindowType, CfarConfig, VehicleClass, TargetSelection, TargetSelectionMode, ReceiverType, TravelDirection, DirectionFilter, PatrolConfig, PatrolTargetMode, RadarMode, SpectrogramConfig, SpectrogramFrame, Track, TrackerConfig, ViolationEvent, Scenario, SimulationSnapshot, TrafficConfig, TrafficModel, DisturbanceConfig, ClutterFilterConfig, EstimatorConfig, FrequencyEstimator, IfChainConfig, EnforcementConfig } from './types';
 import { 
   calculateDopplerShift, 
   calculateWavelengthMm, 
   calculateSpeedResolution, 
   calculateMaxUnambiguousSpeed,
-  calculateSpeedFromShift
+  calculateAccelerationSmearKmh
 } from './utils/physics';
+import { WINDOW_LABELS, DEFAULT_BASEBAND_OPTIONS } from './utils/dsp';
+import { DEFAULT_CFAR_CONFIG } from './utils/cfar';
+import { DEFAULT_CLUTTER_FILTER_CONFIG, DEFAULT_DISTURBANCE_CONFIG } from './utils/clutter';
+import { DEFAULT_IF_CHAIN_CONFIG } from './utils/ifChain';
+import { DEFAULT_ESTIMATOR_CONFIG, ESTIMATOR_FORMULAS, ESTIMATOR_LABELS, ZERO_PAD_FACTORS, calculateEstimatorError, calculateFrequencyCrlbBins } from './utils/estimation';
+import { measureFrame, selectTarget, filterDetectionsByDirection, TARGET_SELECTION_LABELS, DIRECTION_FILTER_LABELS } from './utils/pipeline';
+import { calculateCarLineOfSight, calculateCosineErrorKmh, NUM_LANES } from './utils/geometry';
+import { DEFAULT_PATROL_CONFIG, PATROL_TARGET_MODE_LABELS, findPatrolReturn, resolvePatrolTargets } from './utils/movingMode';
+import { calculateLinkBudget } from './utils/radarEquation';
+import { VEHICLE_SPECS, VEHICLE_CLASSES, VEHICLE_COLORS } from './utils/vehicles';
+import { DEFAULT_SPECTROGRAM_CONFIG, buildSpectrogramFrames } from './utils/spectrogram';
+import { DEFAULT_TRACKER_CONFIG, updateTracks } from './utils/tracker';
+import { closeFinishedPasses, createViolationLogState, detectViolation } from './utils/violations';
+import { DEFAULT_ENFORCEMENT_CONFIG, SPEED_UNIT_LABELS, getEnforcementThresholdKmh, getSpeedLimitKmh, isOverLimit, toDisplaySpeed } from './utils/enforcement';
+import { EvidenceInput } from './utils/evidence';
+import { DEFAULT_RADAR_PARAMS, SCENARIO_VERSION, advanceTimeline, createTimelineState, serializeScenario } from './utils/scenario';
+import { downloadBlob } from './utils/download';
+import { createSimulation, createSnapshotRng, getSimulationSnapshot, resetSimulation, setSimulationCars, setSimulationRadar, setSimulationTraffic, startSimulationLoop, stepSimulation } from './utils/simulation';
+import { DEFAULT_TRAFFIC_CONFIG, TRAFFIC_MODEL_LABELS } from './utils/traffic';
+import { RADAR_MODE_LABELS, FMCW_SAMPLES_PER_CHIRP, calculateChirpMaxSpeed, calculateChirpSpeedResolution, calculateMaxRange, calculateRangeResolution, computeRangeDopplerMap, synthesizeBeatCube } from './utils/fmcw';
 import { HighwayScene } from './components/HighwayScene';
 import { Oscilloscope } from './components/Oscilloscope';
+import { DetectionPanel } from './components/DetectionPanel';
+import { RangeDopplerMap } from './components/RangeDopplerMap';
+import { Spectrogram } from './components/Spectrogram';
+import { TrackList } from './components/TrackList';
+import { ViolationLog } from './components/ViolationLog';
+import { ScenarioPanel } from './components/ScenarioPanel';
+import { SimulationControls } from './components/SimulationControls';
+import { RecordingExport } from './components/RecordingExport';
+import { RecordingAnalysis } from './components/RecordingAnalysis';
+import { ClutterPanel } from './components/ClutterPanel';
+import { IfChainPanel } from './components/IfChainPanel';
+import { MonteCarloPanel } from './components/MonteCarloPanel';
+import { DesignSolverPanel } from './components/DesignSolverPanel';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { EnforcementPanel } from './components/EnforcementPanel';
+import { EvidencePanel } from './components/EvidencePanel';
+import { SectionControlPanel } from './components/SectionControlPanel';
 
-const CAR_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308', '#a855f7', '#ec4899', '#06b6d4'];
+// Two lanes left to right, the far lane right to left
+const DEFAULT_LANE_DIRECTIONS: TravelDirection[] = [1, 1, -1];
+const RECEIVER_LABELS: Record<ReceiverType, string> = { real: 'Single Channel (Real)', iq: 'Quadrature (I/Q)' };
+// Classes given to the initial traffic, in order
+const INITIAL_CLASSES: VehicleClass[] = ['car', 'truck', 'motorcycle', 'van'];
+// How often the radar pipeline picks up a new snapshot from the simulation (real time)
+const MEASUREMENT_INTERVAL_MS = 100;
 
 const App: React.FC = () => {
   // --- Initialize State ---
@@ -20,17 +63,26 @@ const App: React.FC = () => {
     try {
       const params = new URLSearchParams(window.location.search);
       const speedsParam = params.get('speeds');
+      const classesParam = params.get('classes');
       let initialSpeeds = [80, 110, 60];
+      let initialClasses: VehicleClass[] = [];
 
       if (speedsParam) {
         initialSpeeds = speedsParam.split(',').map(s => parseInt(s, 10)).filter(n => !isNaN(n));
       }
+      if (classesParam) {
+        initialClasses = classesParam.split(',').map(c => (c in VEHICLE_SPECS ? c : 'car') as VehicleClass);
+      }
 
       return {
         speeds: initialSpeeds,
+        classes: initialClasses,
         freq: parseFloat(params.get('freq') || '24.15'),
         sample: parseFloat(params.get('sample') || '44100'),
         fft: parseInt(params.get('fft') || '512', 10),
+        window: (params.get('window') as WindowType | null) || 'hann',
+        receiver: params.get('rx') === 'iq' ? 'iq' as const : 'real' as const,
+        mode: params.get('mode') === 'fmcw' ? 'fmcw' as const : 'cw' as const,
       };
     } catch (e) {
       return null;
@@ -40,24 +92,90 @@ const App: React.FC = () => {
   const urlState = getInitialState();
 
   const [radarParams, setRadarParams] = useState<RadarParams>({
-    frequencyGHz: urlState?.freq || 24.15,
-    intermediateFreqMHz: 30, // Fixed hardware param
-    adcSamplingRateMHz: 100, // Fixed hardware param
-    basebandSampleRateHz: urlState?.sample || 44100,
-    fftSize: urlState?.fft || 512,
+    ...DEFAULT_RADAR_PARAMS,
+    frequencyGHz: urlState?.freq || DEFAULT_RADAR_PARAMS.frequencyGHz,
+    basebandSampleRateHz: urlState?.sample || DEFAULT_RADAR_PARAMS.basebandSampleRateHz,
+    fftSize: urlState?.fft || DEFAULT_RADAR_PARAMS.fftSize,
+    windowType: urlState?.window && urlState.window in WINDOW_LABELS ? urlState.window : DEFAULT_RADAR_PARAMS.windowType,
+    receiverType: urlState?.receiver || DEFAULT_RADAR_PARAMS.receiverType,
+    radarMode: urlState?.mode || DEFAULT_RADAR_PARAMS.radarMode,
   });
 
+  const [laneDirections, setLaneDirections] = useState<TravelDirection[]>(DEFAULT_LANE_DIRECTIONS);
+
+  // World state lives in the simulation engine; React only holds its latest snapshot
+  const [simulation] = useState(() => createSimulation());
+
   const [cars, setCars] = useState<Car[]>(() => {
     const speeds = urlState?.speeds || [80, 110, 60];
-    return speeds.map((speed, index) => ({
-      id: index,
-      x: Math.random() * 800,
-      lane: index % 3,
-      color: CAR_COLORS[index % CAR_COLORS.length],
-      speedKmh: speed
-    }));
+    return speeds.map((speed, index) => {
+      const vehicleClass = urlState?.classes[index] || INITIAL_CLASSES[index % INITIAL_CLASSES.length];
+      return {
+        id: index,
+        x: 0, // Scattered by the seeded reset on mount
+        lane: index % 3,
+        color: VEHICLE_COLORS[index % VEHICLE_COLORS.length],
+        speedKmh: speed,
+        direction: DEFAULT_LANE_DIRECTIONS[index % 3],
+        vehicleClass,
+        rcsM2: VEHICLE_SPECS[vehicleClass].rcsM2
+      };
+    });
   });
 
+  // The engine steps on its own fixed timestep; the radar measures whenever it has moved on
+  const [snapshot, setSnapshot] = useState<SimulationSnapshot>(() => getSimulationSnapshot(simulation));
+  const [isPaused, setIsPaused] = useState(false);
+  const [timeScale, setTimeScale] = useState(1);
+  useEffect(() => startSimulationLoop(simulation), [simulation]);
+  useEffect(() => {
+    const id = setInterval(() => {
+      setSnapshot(prev => prev.tick === simulation.tick ? prev : getSimulationSnapshot(simulation));
+    }, MEASUREMENT_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [simulation]);
+  const snapshotTimeMs = snapshot.timeS * 1000;
+  const liveCars = snapshot.cars;
+
+  // Moving mode: the radar rides in a patrol car instead of on the pole
+  const [patrol, setPatrol] = useState<PatrolConfig>(DEFAULT_PATROL_CONFIG);
+  const [heldPatrolSpeedKmh, setHeldPatrolSpeedKmh] = useState<number | null>(null);
+  const lastPatrolBatchMsRef = useRef(0);
+  const patrolHeading = laneDirections[patrol.lane];
+  const patrolSpeedKmh = snapshot.patrolSpeedKmh;
+  const radarPose = snapshot.pose;
+
+  const [traffic, setTraffic] = useState<TrafficConfig>(DEFAULT_TRAFFIC_CONFIG);
+
+  // Edits from the controls go straight into the engine, so they show up even while paused
+  useEffect(() => {
+    const isUnchanged = simulation.cars === cars && simulation.radar === radarParams && simulation.patrol === patrol &&
+      simulation.patrolHeading === patrolHeading && simulation.traffic === traffic && simulation.laneDirections === laneDirections;
+    if (isUnchanged) return;
+    setSimulationCars(simulation, cars);
+    setSimulationRadar(simulation, radarParams, patrol, patrolHeading);
+    setSimulationTraffic(simulation, traffic, laneDirections);
+    setSnapshot(getSimulationSnapshot(simulation));
+  }, [cars, radarParams, patrol, patrolHeading, traffic, laneDirections]);
+  // The traffic model spawns, retires and moves vehicles between lanes: pick up its list
+  useEffect(() => {
+    if (simulation.cars !== cars) setCars(simulation.cars);
+  }, [snapshot]);
+  // Same seed, same run: the starting traffic is scattered by the seeded generator
+  useEffect(() => {
+    resetSimulation(simulation, simulation.config.seed);
+    setSnapshot(getSimulationSnapshot(simulation));
+  }, []);
+
+  const [cfarConfig, setCfarConfig] = useState<CfarConfig>(DEFAULT_CFAR_CONFIG);
+  const [disturbances, setDisturbances] = useState<DisturbanceConfig>(DEFAULT_DISTURBANCE_CONFIG);
+  const [clutterFilter, setClutterFilter] = useState<ClutterFilterConfig>(DEFAULT_CLUTTER_FILTER_CONFIG);
+  const [estimator, setEstimator] = useState<EstimatorConfig>(DEFAULT_ESTIMATOR_CONFIG);
+  const [ifChain, setIfChain] = useState<IfChainConfig>(DEFAULT_IF_CHAIN_CONFIG);
+  const [selectionMode, setSelectionMode] = useState<TargetSelectionMode>('fastest');
+  const [directionFilter, setDirectionFilter] = useState<DirectionFilter>('both');
+  // Lock/hold: freezes the reading shown in the header while the radar keeps running
+  const [lockedSelection, setLockedSelection] = useState<TargetSelection | null>(null);
   const [isCopied, setIsCopied] = useState(false);
 
   // --- Calculations ---
@@ -71,6 +189,12 @@ const App: React.FC = () => {
     [radarParams]
   );
 
+  // Intrinsic sub-bin error of the chosen estimator with this window and FFT size
+  const estimatorError = useMemo(
+    () => calculateEstimatorError(radarParams, estimator),
+    [radarParams.fftSize, radarParams.windowType, estimator]
+  );
+
   const wavelengthMm = useMemo(() => 
     calculateWavelengthMm(radarParams.frequencyGHz), 
     [radarParams.frequencyGHz]
@@ -87,13 +211,163 @@ const App: React.FC = () => {
     return cars.reduce((prev, current) => (prev.speedKmh > current.speedKmh) ? prev : current);
   }, [cars]);
 
-  const realTargetSpeed = fastestCar ? fastestCar.speedKmh : 0;
-  const realDopplerShift = calculateDopplerShift(realTargetSpeed, radarParams.frequencyGHz);
+  // Car with the hardest acceleration or braking right now (smears its spectral line)
+  const acceleratingCar = useMemo(() => {
+    if (liveCars.length === 0) return null;
+    return liveCars.reduce((prev, current) => Math.abs(prev.accelKmhPerS ?? 0) >= Math.abs(current.accelKmhPerS ?? 0) ? prev : current);
+  }, [liveCars]);
+  const smearKmh = calculateAccelerationSmearKmh(acceleratingCar?.accelKmhPerS ?? 0, observationTimeMs / 1000);
+
+  // Line-of-sight geometry per car (cosine effect)
+  const targetGeometry = useMemo(() => 
+    liveCars.map(car => ({ car, los: calculateCarLineOfSight(car, radarParams, radarPose) })),
+    [liveCars, radarParams, radarPose]
+  );
 
-  // Simulated Measurement (Quantized by FFT Resolution)
-  const freqResolutionHz = radarParams.basebandSampleRateHz / radarParams.fftSize;
-  const measuredShiftHz = Math.round(realDopplerShift / freqResolutionHz) * freqResolutionHz;
-  const measuredSpeedKmh = calculateSpeedFromShift(measuredShiftHz, radarParams.frequencyGHz);
+  const linkBudgets = useMemo(() => 
+    liveCars.map(car => calculateLinkBudget(car, radarParams, cfarConfig.pfa, radarPose)),
+    [liveCars, radarParams, cfarConfig.pfa, radarPose]
+  );
+
+  const realDopplerShift = calculateDopplerShift(fastestCar ? fastestCar.speedKmh : 0, radarParams.frequencyGHz);
+
+  // Simulated Measurement: synthesize -> FFT -> CFAR, then pick a detection by the selection mode.
+  // The noise is drawn from the snapshot's own generator, so a replayed run measures the same.
+  const frame = useMemo(
+    () => measureFrame(liveCars, radarParams, cfarConfig, { ...DEFAULT_BASEBAND_OPTIONS, random: createSnapshotRng(snapshot, 0), disturbances, ifChain }, radarPose, clutterFilter, estimator),
+    [snapshot, radarParams, cfarConfig, disturbances, clutterFilter, estimator, ifChain]
+  );
+  // FMCW: beat-signal cube -> range FFT -> Doppler FFT
+  const rangeDopplerMap = useMemo(
+    () => radarParams.radarMode === 'fmcw'
+      ? computeRangeDopplerMap(synthesizeBeatCube(liveCars, radarParams, { ...DEFAULT_BASEBAND_OPTIONS, random: createSnapshotRng(snapshot, 1) }, radarPose), radarParams)
+      : null,
+    [snapshot, radarParams]
+  );
+  const eligibleDetections = filterDetectionsByDirection(frame.detections, directionFilter, radarParams);
+
+  // Moving mode: find the ground return, hold it per batch, and convert closing speeds
+  const patrolReturn = patrol.enabled ? findPatrolReturn(frame.spectrum, frame.echoes, radarParams) : null;
+  const measuredPatrolSpeedKmh = heldPatrolSpeedKmh ?? (patrolReturn ? Math.abs(patrolReturn.speed) : null);
+  useEffect(() => {
+    if (!patrol.enabled) return;
+    if (snapshotTimeMs - lastPatrolBatchMsRef.current < patrol.batchIntervalMs) return;
+    lastPatrolBatchMsRef.current = snapshotTimeMs;
+    setHeldPatrolSpeedKmh(patrolReturn ? Math.abs(patrolReturn.speed) : null);
+  }, [frame]);
+  // Waterfall: one row per observation window between consecutive position snapshots
+  const [spectrogramConfig, setSpectrogramConfig] = useState<SpectrogramConfig>(DEFAULT_SPECTROGRAM_CONFIG);
+  const [spectrogramFrames, setSpectrogramFrames] = useState<SpectrogramFrame[]>([]);
+  const [isSpectrogramPaused, setIsSpectrogramPaused] = useState(false);
+  const spectrogramSnapshotRef = useRef<{ cars: Car[]; timeMs: number } | null>(null);
+  const nextSpectrogramFrameMsRef = useRef(0);
+  useEffect(() => {
+    const previous = spectrogramSnapshotRef.current;
+    spectrogramSnapshotRef.current = { cars: liveCars, timeMs: snapshotTimeMs };
+    if (!previous || isSpectrogramPaused) {
+      nextSpectrogramFrameMsRef.current = snapshotTimeMs;
+      return;
+    }
+    const { frames, nextFrameMs } = buildSpectrogramFrames(
+      previous.cars, liveCars, previous.timeMs, snapshotTimeMs, nextSpectrogramFrameMsRef.current,
+      radarParams, radarPose, spectrogramConfig.historyFrames, { ...DEFAULT_BASEBAND_OPTIONS, random: createSnapshotRng(snapshot, 2), disturbances }, clutterFilter
+    );
+    nextSpectrogramFrameMsRef.current = nextFrameMs;
+    if (frames.length > 0) {
+      setSpectrogramFrames(prev => [...prev, ...frames].slice(-spectrogramConfig.historyFrames));
+    }
+  }, [snapshotTimeMs]);
+  // The columns no longer line up with the old rows once the bin layout changes
+  useEffect(() => {
+    setSpectrogramFrames([]);
+  }, [radarParams.fftSize, radarParams.basebandSampleRateHz, radarParams.receiverType, radarParams.frequencyGHz]);
+
+  const candidateDetections = patrol.enabled
+    ? resolvePatrolTargets(eligibleDetections, patrolReturn, measuredPatrolSpeedKmh ?? 0, patrol.targetMode, radarParams.beamwidthDeg)
+    : eligibleDetections;
+  // Tracking: link this frame's detections to the tracks of the previous frames
+  const [trackerConfig, setTrackerConfig] = useState<TrackerConfig>(DEFAULT_TRACKER_CONFIG);
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const nextTrackIdRef = useRef(1);
+  const lastTrackUpdateMsRef = useRef<number | null>(null);
+  useEffect(() => {
+    const dtS = lastTrackUpdateMsRef.current === null ? 0 : (snapshotTimeMs - lastTrackUpdateMsRef.current) / 1000;
+    lastTrackUpdateMsRef.current = snapshotTimeMs;
+    // Speed readings are quantised to one bin: σ = Δv / √12
+    const measurementSigmaKmh = resolutionKmh / Math.sqrt(12);
+    const result = updateTracks(tracks, candidateDetections, dtS, measurementSigmaKmh, trackerConfig, nextTrackIdRef.current);
+    nextTrackIdRef.current = result.nextId;
+    setTracks(result.tracks);
+  }, [frame]);
+
+  const liveSelection = selectTarget(candidateDetections, selectionMode);
+  const selection = lockedSelection ?? liveSelection;
+  const measuredTarget = selection?.detection ?? null;
+
+  // Enforcement log: the live (not held) reading, at most one event per car per pass
+  const [enforcement, setEnforcement] = useState<EnforcementConfig>(DEFAULT_ENFORCEMENT_CONFIG);
+  const [violations, setViolations] = useState<ViolationEvent[]>([]);
+  const violationLogRef = useRef(createViolationLogState());
+  const nextViolationIdRef = useRef(1);
+  const previousLiveCarsRef = useRef<Car[]>(liveCars);
+  useEffect(() => {
+    const state = violationLogRef.current;
+    const nowMs = Date.now(); // Events are stamped with the wall clock, not the simulation clock
+    const newEvents = [
+      ...closeFinishedPasses(state, previousLiveCarsRef.current, liveCars, radarParams, resolutionKmh, enforcement, nowMs),
+      detectViolation(state, liveSelection?.detection ?? null, liveCars, radarParams, resolutionKmh, enforcement, nowMs),
+    ].flatMap(event => event ? [{ ...event, id: nextViolationIdRef.current++ }] : []);
+    previousLiveCarsRef.current = liveCars;
+    if (newEvents.length > 0) setViolations(prev => [...prev, ...newEvents]);
+  }, [frame]);
+  const measuredCar = liveCars.find(c => c.id === measuredTarget?.carId) ?? null;
+  const measuredSpeedKmh = measuredTarget ? Math.abs(measuredTarget.speed) : 0;
+  const realTargetSpeed = measuredCar ? measuredCar.speedKmh : 0;
+  // Against the lane and class limit of the car the reading belongs to, else the road limit
+  const isMeasuredOverLimit = measuredTarget !== null && isOverLimit(enforcement, measuredSpeedKmh, measuredCar?.lane, measuredCar?.vehicleClass);
+  const speedUnit = SPEED_UNIT_LABELS[enforcement.unit];
+  const displaySpeed = (kmh: number) => toDisplaySpeed(kmh, enforcement.unit);
+  // Expected error of the reading: estimator bias and the noise (Cramér-Rao) floor at the target's SNR
+  const crlbBins = measuredTarget ? calculateFrequencyCrlbBins(measuredTarget.snrDb) : 0;
+  const expectedErrorKmh = Math.hypot(estimatorError.rmsBins, crlbBins) * resolutionKmh;
+
+  // Evidence: the reading on display with the scene, frame and configuration it came from
+  const sceneCanvasRef = useRef<HTMLCanvasElement>(null);
+  const captureEvidence = measuredTarget ? (): EvidenceInput => {
+    const speedLimitKmh = getSpeedLimitKmh(enforcement, measuredCar?.lane, measuredCar?.vehicleClass);
+    return {
+      scenePngBase64: sceneCanvasRef.current?.toDataURL('image/png').split(',')[1] ?? '',
+      measurement: {
+        capturedAt: new Date().toISOString(),
+        simulationTimeS: snapshot.timeS,
+        measuredSpeedKmh,
+        held: lockedSelection !== null,
+        selectionMode,
+        directionFilter,
+        detection: measuredTarget,
+        estimator,
+        uncertaintyKmh: expectedErrorKmh,
+        speedLimitKmh,
+        thresholdKmh: getEnforcementThresholdKmh(enforcement, speedLimitKmh),
+        displayUnit: enforcement.unit,
+      },
+      spectrum: frame.spectrum,
+      detections: frame.detections,
+      radar: radarParams,
+    };
+  } : null;
+
+  const describeTarget = (carId?: number) => {
+    const index = cars.findIndex(c => c.id === carId);
+    return index >= 0 ? `T${index + 1} ${VEHICLE_SPECS[cars[index].vehicleClass].label}` : 'unmatched return';
+  };
+  const selectionReason = !selection ? (patrol.enabled && !patrolReturn ? 'No ground return: patrol speed unknown' : 'No target above the CFAR threshold')
+    : selection.mode === 'strongest' ? `Strongest return: ${describeTarget(selection.detection.carId)}, SNR ${selection.detection.snrDb.toFixed(0)} dB`
+    : selection.strongest === selection.detection ? `Fastest is also strongest: ${describeTarget(selection.detection.carId)}`
+    : `Fastest: ${describeTarget(selection.detection.carId)}; strongest is ${describeTarget(selection.strongest.carId)} at ${displaySpeed(Math.abs(selection.strongest.speed)).toFixed(1)} ${speedUnit}`;
+  const directionNote = radarParams.receiverType === 'iq' && measuredTarget && !patrol.enabled
+    ? (measuredTarget.speed > 0 ? ' (approaching)' : ' (receding)')
+    : '';
 
   // --- Sync URL ---
   useEffect(() => {
@@ -101,28 +375,122 @@ const App: React.FC = () => {
       const params = new URLSearchParams();
       const speedStr = cars.map(c => c.speedKmh).join(',');
       params.set('speeds', speedStr);
+      params.set('classes', cars.map(c => c.vehicleClass).join(','));
       if (radarParams.frequencyGHz !== 24.15) params.set('freq', radarParams.frequencyGHz.toString());
       if (radarParams.basebandSampleRateHz !== 44100) params.set('sample', radarParams.basebandSampleRateHz.toString());
       if (radarParams.fftSize !== 512) params.set('fft', radarParams.fftSize.toString());
+      if (radarParams.windowType !== 'hann') params.set('window', radarParams.windowType);
+      if (radarParams.receiverType !== 'real') params.set('rx', radarParams.receiverType);
+      if (radarParams.radarMode !== 'cw') params.set('mode', radarParams.radarMode);
 
       const newUrl = `${window.location.pathname}?${params.toString()}`;
       window.history.replaceState(null, '', newUrl);
     } catch (e) {}
   }, [cars, radarParams]);
 
+  // --- Scenario Timeline ---
+  const [activeScenario, setActiveScenario] = useState<Scenario | null>(null);
+  const [scenarioStartMs, setScenarioStartMs] = useState(0);
+  const timelineStateRef = useRef(createTimelineState());
+  const scenarioElapsedS = activeScenario ? Math.max(0, (snapshotTimeMs - scenarioStartMs) / 1000) : 0;
+  useEffect(() => {
+    if (!activeScenario) return;
+    const { cars: nextCars, radarPatch } = advanceTimeline(activeScenario.timeline, timelineStateRef.current, scenarioElapsedS, cars, laneDirections);
+    if (nextCars !== cars) setCars(nextCars);
+    if (radarPatch) setRadarParams(p => ({ ...p, ...radarPatch }));
+  }, [snapshotTimeMs]);
+
   // --- Handlers ---
+  const loadScenario = (scenario: Scenario) => {
+    setSimulationCars(simulation, scenario.cars, true);
+    previousLiveCarsRef.current = scenario.cars;
+    spectrogramSnapshotRef.current = null;
+    lastTrackUpdateMsRef.current = null;
+    timelineStateRef.current = createTimelineState();
+    setRadarParams(scenario.radar);
+    setLaneDirections(scenario.laneDirections);
+    setCars(scenario.cars);
+    setPatrol(scenario.patrol ?? DEFAULT_PATROL_CONFIG);
+    setTraffic(scenario.traffic ?? DEFAULT_TRAFFIC_CONFIG);
+    setHeldPatrolSpeedKmh(null);
+    setTracks([]);
+    setSpectrogramFrames([]);
+    setLockedSelection(null);
+    setActiveScenario(scenario);
+    setScenarioStartMs(simulation.timeS * 1000);
+    setSnapshot(getSimulationSnapshot(simulation));
+  };
+  const togglePause = () => {
+    simulation.paused = !simulation.paused;
+    setIsPaused(simulation.paused);
+  };
+  const stepOnce = () => {
+    stepSimulation(simulation);
+    setSnapshot(getSimulationSnapshot(simulation));
+  };
+  const changeTimeScale = (scale: number) => {
+    simulation.timeScale = scale;
+    setTimeScale(scale);
+  };
+  // Back to t = 0: the clock-based state of the tracker and the batching restarts with it
+  const restartSimulation = (seed: number) => {
+    resetSimulation(simulation, seed);
+    lastTrackUpdateMsRef.current = null;
+    lastPatrolBatchMsRef.current = 0;
+    if (activeScenario) {
+      loadScenario(activeScenario);
+      return;
+    }
+    const restarted = getSimulationSnapshot(simulation);
+    previousLiveCarsRef.current = restarted.cars;
+    spectrogramSnapshotRef.current = null;
+    setTracks([]);
+    setSpectrogramFrames([]);
+    setSnapshot(restarted);
+  };
+  const exportScenario = () => {
+    const scenario: Scenario = {
+      version: SCENARIO_VERSION,
+      name: activeScenario?.name ?? 'Custom Scenario',
+      description: activeScenario?.description,
+      radar: radarParams,
+      laneDirections,
+      // Set speeds from the controls, positions from the road
+      cars: cars.map(car => ({ ...car, x: Math.round(liveCars.find(c => c.id === car.id)?.x ?? car.x) })),
+      patrol,
+      traffic,
+      timeline: activeScenario?.timeline ?? [],
+    };
+    const filename = `scenario-${scenario.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`;
+    downloadBlob(new Blob([serializeScenario(scenario)], { type: 'application/json' }), filename);
+  };
   const updateCarSpeed = (id: number, newSpeed: number) => {
     setCars(prev => prev.map(c => c.id === id ? { ...c, speedKmh: newSpeed } : c));
   };
+  const updateCarClass = (id: number, vehicleClass: VehicleClass) => {
+    setCars(prev => prev.map(c => c.id === id ? { ...c, vehicleClass, rcsM2: VEHICLE_SPECS[vehicleClass].rcsM2 } : c));
+  };
+  const updateCarAggressiveness = (id: number, aggressiveness: number) => {
+    setCars(prev => prev.map(c => c.id === id ? { ...c, aggressiveness } : c));
+  };
+  const toggleLock = () => setLockedSelection(prev => prev ? null : liveSelection);
   const addCar = () => {
     setCars(prev => {
       if (prev.length >= 10) return prev;
       const newId = prev.length > 0 ? Math.max(...prev.map(c => c.id)) + 1 : 0;
-      return [...prev, { id: newId, x: -100, lane: prev.length % 3, color: CAR_COLORS[newId % CAR_COLORS.length], speedKmh: 80 }];
+      const lane = prev.length % 3;
+      const direction = laneDirections[lane];
+      return [...prev, { id: newId, x: direction === 1 ? -100 : 900, lane, color: VEHICLE_COLORS[newId % VEHICLE_COLORS.length], speedKmh: 80, direction, vehicleClass: 'car', rcsM2: VEHICLE_SPECS.car.rcsM2 }];
     });
   };
+  const toggleLaneDirection = (lane: number) => {
+    const direction: TravelDirection = laneDirections[lane] === 1 ? -1 : 1;
+    setLaneDirections(prev => prev.map((d, i) => i === lane ? direction : d));
+    setCars(prev => prev.map(c => c.lane === lane ? { ...c, direction } : c));
+  };
   const removeCar = () => setCars(prev => prev.slice(0, -1));
-  const randomizeSpeeds = () => setCars(prev => prev.map(c => ({ ...c, speedKmh: Math.floor(Math.random() * 100) + 40 })));
+  // Drawn outside the state updater: StrictMode replays updaters, which would consume the seeded generator twice
+  const randomizeSpeeds = () => setCars(cars.map(c => ({ ...c, speedKmh: Math.floor(simulation.random() * 100) + 40 })));
   const handleShare = () => {
     navigator.clipboard.writeText(window.location.href).then(() => {
       setIsCopied(true);
@@ -133,10 +501,15 @@ const App: React.FC = () => {
   const simState: SimulationState = {
     radar: radarParams,
     cars: cars,
-    fastestTargetSpeed: realTargetSpeed,
+    fastestTargetSpeed: fastestCar ? fastestCar.speedKmh : 0,
     primaryDopplerShiftHz: realDopplerShift,
     speedResolution: resolutionKmh,
-    maxSpeed: maxSpeedKmh
+    maxSpeed: maxSpeedKmh,
+    linkBudgets,
+    spectrum: frame.spectrum,
+    detections: frame.detections,
+    unfilteredAmps: frame.stages.length > 1 ? frame.stages[0].amps : undefined,
+    timeS: snapshot.timeS,
   };
 
   return (
@@ -155,15 +528,40 @@ const App: React.FC = () => {
             <button onClick={handleShare} className="flex items-center gap-2 px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg hover:bg-slate-800 text-sm">
                {isCopied ? <Check size={16} className="text-emerald-400"/> : <Share2 size={16}/>} Share
             </button>
-            <div className={`px-6 py-2 rounded-lg border ${measuredSpeedKmh > SPEED_LIMIT_KMH ? 'bg-red-950/30 border-red-500/50' : 'bg-slate-900 border-slate-700'} min-w-[180px]`}>
-               <div className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Radar Measured Speed</div>
-               <div className={`text-3xl font-mono font-bold ${measuredSpeedKmh > SPEED_LIMIT_KMH ? 'text-red-400' : 'text-emerald-400'}`}>
-                 {measuredSpeedKmh.toFixed(1)} <span className="text-sm text-slate-500">km/h</span>
+            <div className="flex flex-col gap-2 justify-center">
+               <div className="flex bg-slate-900 border border-slate-700 rounded-lg overflow-hidden text-xs">
+                  {(Object.keys(TARGET_SELECTION_LABELS) as TargetSelectionMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setSelectionMode(mode)}
+                      className={`px-3 py-1.5 ${selectionMode === mode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
+                    >
+                      {TARGET_SELECTION_LABELS[mode]}
+                    </button>
+                  ))}
+               </div>
+               <button
+                 onClick={toggleLock}
+                 disabled={!lockedSelection && !liveSelection}
+                 className={`flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg border text-xs ${lockedSelection ? 'bg-amber-500/20 border-amber-500/60 text-amber-300' : 'bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+               >
+                 {lockedSelection ? <Lock size={14}/> : <Unlock size={14}/>} {lockedSelection ? 'Locked' : 'Lock'}
+               </button>
+            </div>
+            <div className={`px-6 py-2 rounded-lg border ${isMeasuredOverLimit ? 'bg-red-950/30 border-red-500/50' : 'bg-slate-900 border-slate-700'} min-w-[180px] max-w-[260px]`}>
+               <div className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Radar Measured Speed{lockedSelection && ' (Hold)'}</div>
+               <div className={`text-3xl font-mono font-bold ${isMeasuredOverLimit ? 'text-red-400' : 'text-emerald-400'}`}>
+                 {displaySpeed(measuredSpeedKmh).toFixed(1)} <span className="text-sm text-slate-500">{speedUnit}</span>
                </div>
                <div className="text-[10px] text-slate-600 mt-1 flex justify-between">
-                 <span>Real: {realTargetSpeed} km/h</span>
-                 <span title="Measurement Error">Err: {(measuredSpeedKmh - realTargetSpeed).toFixed(2)}</span>
+                 <span>Real: {measuredCar ? `${displaySpeed(realTargetSpeed).toFixed(1)} ${speedUnit}` : '—'}</span>
+                 <span title="Measurement Error">Err: {measuredCar ? displaySpeed(measuredSpeedKmh - realTargetSpeed).toFixed(2) : '—'}</span>
+               </div>
+               <div className="text-[10px] text-slate-600 flex justify-between">
+                 <span>{ESTIMATOR_LABELS[estimator.method]}</span>
+                 <span title="Expected error of the estimator at this SNR">±{measuredTarget ? displaySpeed(expectedErrorKmh).toFixed(2) : '—'}</span>
                </div>
+               <div className="text-[10px] text-slate-400 mt-1 leading-tight">{selectionReason}{directionNote}</div>
             </div>
           </div>
         </header>
@@ -172,7 +570,18 @@ const App: React.FC = () => {
           
           {/* LEFT COL: Scene & Traffic (8 cols) */}
           <div className="xl:col-span-7 space-y-6">
-            <HighwayScene cars={cars} isRadarActive={true} />
+            <HighwayScene simulation={simulation} isRadarActive={true} tracks={tracks} enforcement={enforcement} canvasRef={sceneCanvasRef} />
+            <SimulationControls
+              paused={isPaused}
+              timeScale={timeScale}
+              timeS={snapshot.timeS}
+              tick={snapshot.tick}
+              seed={snapshot.seed}
+              onTogglePause={togglePause}
+              onStep={stepOnce}
+              onTimeScaleChange={changeTimeScale}
+              onRestart={restartSimulation}
+            />
             
             {/* Traffic Controls */}
             <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
@@ -187,6 +596,57 @@ const App: React.FC = () => {
                     <button onClick={addCar} disabled={cars.length >= 10} className="p-1.5 bg-slate-800 rounded hover:bg-slate-700 text-emerald-300"><Plus size={14}/></button>
                  </div>
               </div>
+              <div className="flex items-center gap-2 mb-3 text-[10px] uppercase font-bold text-slate-500 tracking-wider">
+                 Lanes:
+                 {laneDirections.map((direction, lane) => (
+                   <button
+                     key={lane}
+                     onClick={() => toggleLaneDirection(lane)}
+                     title="Toggle direction of travel"
+                     className="flex items-center gap-1 px-2 py-1 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 normal-case font-mono"
+                   >
+                     L{lane + 1} {direction === 1 ? <ArrowRight size={12}/> : <ArrowLeft size={12}/>}
+                   </button>
+                 ))}
+              </div>
+              <div className="grid grid-cols-3 gap-3 mb-3">
+                 <div className="space-y-1">
+                    <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Model</label>
+                    <select
+                       value={traffic.model}
+                       onChange={(e) => setTraffic(prev => ({ ...prev, model: e.target.value as TrafficModel }))}
+                       className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-blue-300 outline-none"
+                    >
+                       {(Object.keys(TRAFFIC_MODEL_LABELS) as TrafficModel[]).map(model => (
+                         <option key={model} value={model}>{TRAFFIC_MODEL_LABELS[model]}</option>
+                       ))}
+                    </select>
+                 </div>
+                 <div className="space-y-1">
+                    <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">
+                       Flow: <span className="text-blue-300 normal-case">{traffic.flowVehPerHour > 0 ? `${traffic.flowVehPerHour} veh/h/lane` : 'closed loop'}</span>
+                    </label>
+                    <input
+                       type="range" min="0" max="2400" step="60"
+                       value={traffic.flowVehPerHour}
+                       onChange={(e) => setTraffic(prev => ({ ...prev, flowVehPerHour: parseInt(e.target.value) }))}
+                       title="Arrivals per lane at the road entry; 0 keeps the traffic on a closed loop"
+                       className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                 </div>
+                 <div className="space-y-1">
+                    <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">
+                       Desired: <span className="text-blue-300 normal-case">{displaySpeed(traffic.meanDesiredSpeedKmh).toFixed(0)} {speedUnit} ±15%</span>
+                    </label>
+                    <input
+                       type="range" min="40" max="160" step="5"
+                       value={traffic.meanDesiredSpeedKmh}
+                       onChange={(e) => setTraffic(prev => ({ ...prev, meanDesiredSpeedKmh: parseInt(e.target.value) }))}
+                       title="Mean desired speed of spawned drivers"
+                       className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                 </div>
+              </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-[220px] overflow-y-auto pr-2 custom-scrollbar">
                 {cars.map((car, idx) => (
                     <div key={car.id} className="flex items-center gap-3 bg-slate-950 p-2.5 rounded border border-slate-800">
@@ -197,12 +657,39 @@ const App: React.FC = () => {
                             value={car.speedKmh} onChange={(e) => updateCarSpeed(car.id, parseInt(e.target.value))}
                             className="flex-1 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
                         />
-                        <span className="font-mono text-sm w-12 text-right">{car.speedKmh}</span>
+                        <span className={`font-mono text-sm w-12 text-right ${isOverLimit(enforcement, car.speedKmh, car.lane, car.vehicleClass) ? 'text-red-400' : ''}`} title={traffic.model === 'idm' ? `Desired / actual speed (${speedUnit})` : speedUnit}>
+                            {displaySpeed(car.speedKmh).toFixed(0)}
+                            {traffic.model === 'idm' && <span className="block text-[10px] text-slate-500">{displaySpeed(liveCars.find(c => c.id === car.id)?.speedKmh ?? car.speedKmh).toFixed(0)}</span>}
+                        </span>
+                        {traffic.model === 'idm' && (
+                          <input
+                              type="range" min="0" max="1" step="0.05"
+                              value={car.aggressiveness ?? 0.5} onChange={(e) => updateCarAggressiveness(car.id, parseFloat(e.target.value))}
+                              title={`Driver aggressiveness: ${(car.aggressiveness ?? 0.5).toFixed(2)}`}
+                              className="w-10 h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-orange-500"
+                          />
+                        )}
+                        <select
+                            value={car.vehicleClass} onChange={(e) => updateCarClass(car.id, e.target.value as VehicleClass)}
+                            title={`Radar cross-section: ${car.rcsM2} m²`}
+                            className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] font-mono text-slate-400 outline-none"
+                        >
+                            {VEHICLE_CLASSES.map(vc => <option key={vc} value={vc}>{VEHICLE_SPECS[vc].label}</option>)}
+                        </select>
                     </div>
                 ))}
               </div>
             </div>
 
+            {/* Scenario */}
+            <ScenarioPanel
+              active={activeScenario}
+              elapsedS={scenarioElapsedS}
+              firedEvents={timelineStateRef.current.firedCount}
+              onLoad={loadScenario}
+              onExport={exportScenario}
+            />
+
             {/* DSP / Radar Parameters */}
             <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5 relative overflow-hidden">
                <div className="absolute top-0 right-0 p-4 opacity-10 pointer-events-none">
@@ -214,7 +701,7 @@ const App: React.FC = () => {
                  </h2>
                </div>
                
-               <div className="grid grid-cols-1 md:grid-cols-3 gap-8 relative z-10">
+               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8 relative z-10">
                   {/* Sampling Rate */}
                   <div className="space-y-3">
                     <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">Sampling Rate (Fs)</label>
@@ -266,8 +753,259 @@ const App: React.FC = () => {
                      </div>
                      <div className="text-[10px] text-slate-500">Wavelength: {wavelengthMm.toFixed(2)} mm</div>
                   </div>
+
+                  {/* Window Function */}
+                  <div className="space-y-3">
+                    <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">Window</label>
+                    <select 
+                      value={radarParams.windowType}
+                      onChange={(e) => setRadarParams(p => ({...p, windowType: e.target.value as WindowType}))}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm font-mono text-purple-300 focus:border-purple-500 outline-none"
+                    >
+                       {(Object.keys(WINDOW_LABELS) as WindowType[]).map(type => (
+                         <option key={type} value={type}>{WINDOW_LABELS[type]}</option>
+                       ))}
+                    </select>
+                    <p className="text-[10px] text-slate-500 leading-tight">
+                      Trades <strong>Leakage</strong> (sidelobes) against main-lobe width and scalloping loss.
+                    </p>
+                  </div>
+
+                  {/* Frequency Estimator */}
+                  <div className="space-y-3 lg:col-span-2">
+                    <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">Frequency Estimator</label>
+                    <div className="flex gap-2">
+                      <select 
+                        value={estimator.method}
+                        onChange={(e) => setEstimator(c => ({...c, method: e.target.value as FrequencyEstimator}))}
+                        className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm font-mono text-purple-300 focus:border-purple-500 outline-none"
+                      >
+                         {(Object.keys(ESTIMATOR_LABELS) as FrequencyEstimator[]).map(method => (
+                           <option key={method} value={method}>{ESTIMATOR_LABELS[method]}</option>
+                         ))}
+                      </select>
+                      {estimator.method === 'zeroPad' && (
+                        <select 
+                          value={estimator.zeroPadFactor}
+                          onChange={(e) => setEstimator(c => ({...c, zeroPadFactor: parseInt(e.target.value)}))}
+                          className="bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm font-mono text-purple-300 focus:border-purple-500 outline-none"
+                        >
+                           {ZERO_PAD_FACTORS.map(factor => <option key={factor} value={factor}>×{factor}</option>)}
+                        </select>
+                      )}
+                    </div>
+                    <p className="text-[10px] text-slate-500 leading-tight">
+                      Interpolates between FFT bins, so the reading is no longer limited to the <strong>Bin Width</strong>.
+                    </p>
+                  </div>
+
+                  {/* Receiver Type */}
+                  <div className="space-y-3 lg:col-span-2">
+                    <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">Receiver</label>
+                    <select 
+                      value={radarParams.receiverType}
+                      onChange={(e) => setRadarParams(p => ({...p, receiverType: e.target.value as ReceiverType}))}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm font-mono text-purple-300 focus:border-purple-500 outline-none"
+                    >
+                       {(Object.keys(RECEIVER_LABELS) as ReceiverType[]).map(type => (
+                         <option key={type} value={type}>{RECEIVER_LABELS[type]}</option>
+                       ))}
+                    </select>
+                    <p className="text-[10px] text-slate-500 leading-tight">
+                      A real mixer folds ±f onto one axis; I/Q keeps the <strong>Sign</strong> of the Doppler shift.
+                    </p>
+                  </div>
+
+                  {/* Direction Filter */}
+                  <div className="space-y-3 lg:col-span-2">
+                    <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">Measure Direction</label>
+                    <select 
+                      value={directionFilter}
+                      onChange={(e) => setDirectionFilter(e.target.value as DirectionFilter)}
+                      disabled={radarParams.receiverType !== 'iq'}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm font-mono text-purple-300 focus:border-purple-500 outline-none disabled:opacity-50"
+                    >
+                       {(Object.keys(DIRECTION_FILTER_LABELS) as DirectionFilter[]).map(filter => (
+                         <option key={filter} value={filter}>{DIRECTION_FILTER_LABELS[filter]}</option>
+                       ))}
+                    </select>
+                    <p className="text-[10px] text-slate-500 leading-tight">
+                      {radarParams.receiverType === 'iq' ? 'Positive Doppler = approaching, negative = receding.' : 'Needs an I/Q receiver to tell direction apart.'}
+                    </p>
+                  </div>
+
+                  {/* Radar Mode */}
+                  <div className="space-y-3">
+                    <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">Radar Mode</label>
+                    <select 
+                      value={radarParams.radarMode}
+                      onChange={(e) => setRadarParams(p => ({...p, radarMode: e.target.value as RadarMode}))}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm font-mono text-cyan-300 focus:border-cyan-500 outline-none"
+                    >
+                       {(Object.keys(RADAR_MODE_LABELS) as RadarMode[]).map(mode => (
+                         <option key={mode} value={mode}>{RADAR_MODE_LABELS[mode]}</option>
+                       ))}
+                    </select>
+                    <p className="text-[10px] text-slate-500 leading-tight">
+                      Chirping the carrier turns <strong>Range</strong> into a beat frequency.
+                    </p>
+                  </div>
+
+                  {/* FMCW Chirp */}
+                  {([
+                    { key: 'chirpBandwidthMHz', label: 'Chirp Bandwidth (B)', min: 25, max: 250, step: 25, unit: 'MHz' },
+                    { key: 'chirpDurationUs', label: 'Chirp Duration (T_c)', min: 20, max: 200, step: 10, unit: 'µs' },
+                  ] as const).map(control => (
+                    <div key={control.key} className={`space-y-3 ${radarParams.radarMode === 'fmcw' ? '' : 'opacity-50 pointer-events-none'}`}>
+                      <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">{control.label}</label>
+                      <input 
+                        type="range" min={control.min} max={control.max} step={control.step}
+                        value={radarParams[control.key]}
+                        onChange={(e) => setRadarParams(p => ({...p, [control.key]: parseFloat(e.target.value)}))}
+                        className="w-full accent-cyan-500 h-1.5 bg-slate-700 rounded"
+                      />
+                      <div className="font-mono text-sm text-cyan-300">{radarParams[control.key]} {control.unit}</div>
+                    </div>
+                  ))}
+                  <div className={`space-y-3 ${radarParams.radarMode === 'fmcw' ? '' : 'opacity-50 pointer-events-none'}`}>
+                    <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">Chirps / Frame (N_c)</label>
+                    <select 
+                      value={radarParams.chirpsPerFrame}
+                      onChange={(e) => setRadarParams(p => ({...p, chirpsPerFrame: parseInt(e.target.value)}))}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm font-mono text-cyan-300 focus:border-cyan-500 outline-none"
+                    >
+                       {[32, 64, 128, 256].map(n => (
+                         <option key={n} value={n}>{n} chirps</option>
+                       ))}
+                    </select>
+                    <p className="text-[10px] text-slate-500 leading-tight">
+                      {FMCW_SAMPLES_PER_CHIRP} samples per chirp; more chirps sharpen <strong>Speed</strong>.
+                    </p>
+                  </div>
+               </div>
+            </div>
+
+            <DesignSolverPanel radar={radarParams} onApply={(design) => setRadarParams(p => ({...p, ...design}))} unit={enforcement.unit} />
+
+            {/* Link Budget */}
+            <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+               <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2 mb-6">
+                 <Radio size={18} className="text-sky-400"/> RF Front-End &amp; Link Budget
+               </h2>
+               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+                  {([
+                    { key: 'txPowerDbm', label: 'Tx Power', min: -10, max: 30, step: 1, unit: 'dBm', hint: 'Transmitted CW power (0 dBm = 1 mW).' },
+                    { key: 'antennaGainDbi', label: 'Antenna Gain', min: 5, max: 30, step: 1, unit: 'dBi', hint: 'Counted twice: Tx and Rx share the antenna.' },
+                    { key: 'noiseFigureDb', label: 'Noise Figure', min: 2, max: 30, step: 1, unit: 'dB', hint: 'Homodyne mixers suffer 1/f noise near DC.' },
+                    { key: 'noiseBandwidthHz', label: 'Noise Bandwidth', min: 1000, max: 100000, step: 1000, unit: 'Hz', hint: 'Baseband bandwidth ahead of the ADC.' },
+                  ] as const).map(control => (
+                    <div key={control.key} className="space-y-3">
+                      <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">{control.label}</label>
+                      <input 
+                        type="range" min={control.min} max={control.max} step={control.step}
+                        value={radarParams[control.key]}
+                        onChange={(e) => setRadarParams(p => ({...p, [control.key]: parseFloat(e.target.value)}))}
+                        className="w-full accent-sky-500 h-1.5 bg-slate-700 rounded"
+                      />
+                      <div className="font-mono text-sm text-sky-300">{radarParams[control.key]} {control.unit}</div>
+                      <p className="text-[10px] text-slate-500 leading-tight">{control.hint}</p>
+                    </div>
+                  ))}
                </div>
             </div>
+
+            {/* Radar Mounting */}
+            <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+               <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2 mb-6">
+                 <Compass size={18} className="text-emerald-400"/> Radar Mounting
+               </h2>
+               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+                  {([
+                    { key: 'mountOffsetM', label: 'Road Offset', min: 0, max: 20, step: 0.5, unit: 'm', hint: 'Lateral distance from the road edge.' },
+                    { key: 'mountHeightM', label: 'Height', min: 0.5, max: 12, step: 0.5, unit: 'm', hint: 'Pole or gantry height above the road.' },
+                    { key: 'aimAngleDeg', label: 'Aim Angle', min: 0, max: 90, step: 1, unit: '°', hint: 'Boresight angle from the road axis.' },
+                    { key: 'beamwidthDeg', label: 'Beamwidth', min: 5, max: 40, step: 1, unit: '°', hint: '-3 dB antenna beamwidth.' },
+                  ] as const).map(control => (
+                    <div key={control.key} className="space-y-3">
+                      <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">{control.label}</label>
+                      <input 
+                        type="range" min={control.min} max={control.max} step={control.step}
+                        value={radarParams[control.key]}
+                        onChange={(e) => setRadarParams(p => ({...p, [control.key]: parseFloat(e.target.value)}))}
+                        className="w-full accent-emerald-500 h-1.5 bg-slate-700 rounded"
+                      />
+                      <div className="font-mono text-sm text-emerald-300">{radarParams[control.key]} {control.unit}</div>
+                      <p className="text-[10px] text-slate-500 leading-tight">{control.hint}</p>
+                    </div>
+                  ))}
+               </div>
+            </div>
+
+            {/* Moving Mode (Patrol Radar) */}
+            <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+               <div className="flex justify-between items-center mb-6">
+                 <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+                   <Siren size={18} className="text-rose-400"/> Moving Mode (Patrol Car)
+                 </h2>
+                 <button
+                   onClick={() => {
+                     setPatrol(p => ({ ...p, enabled: !p.enabled }));
+                     setHeldPatrolSpeedKmh(null);
+                   }}
+                   className={`px-3 py-1.5 rounded-lg border text-xs ${patrol.enabled ? 'bg-rose-500/20 border-rose-500/60 text-rose-300' : 'bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+                 >
+                   {patrol.enabled ? 'Moving' : 'Stationary'}
+                 </button>
+               </div>
+               <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 ${patrol.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                  {([
+                    { key: 'speedKmh', label: 'Patrol Speed', min: 20, max: 150, step: 1, isSpeed: true, unit: speedUnit },
+                    { key: 'speedSwingKmh', label: 'Accel/Brake Swing', min: 0, max: 40, step: 1, isSpeed: true, unit: speedUnit },
+                    { key: 'accelerationKmhPerS', label: 'Acceleration', min: 1, max: 30, step: 1, isSpeed: true, unit: `${speedUnit}/s` },
+                    { key: 'batchIntervalMs', label: 'Patrol Batch', min: 100, max: 2000, step: 100, isSpeed: false, unit: 'ms' },
+                  ] as const).map(control => (
+                    <div key={control.key} className="space-y-2">
+                      <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">{control.label}</label>
+                      <input 
+                        type="range" min={control.min} max={control.max} step={control.step}
+                        value={patrol[control.key]}
+                        onChange={(e) => setPatrol(p => ({...p, [control.key]: parseFloat(e.target.value)}))}
+                        className="w-full accent-rose-500 h-1.5 bg-slate-700 rounded"
+                      />
+                      <div className="font-mono text-sm text-rose-300">{control.isSpeed ? displaySpeed(patrol[control.key]).toFixed(0) : patrol[control.key]} {control.unit}</div>
+                    </div>
+                  ))}
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">Patrol Lane</label>
+                    <select 
+                      value={patrol.lane}
+                      onChange={(e) => setPatrol(p => ({...p, lane: parseInt(e.target.value)}))}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm font-mono text-rose-300 outline-none"
+                    >
+                       {Array.from({ length: NUM_LANES }, (_, lane) => (
+                         <option key={lane} value={lane}>L{lane + 1} ({laneDirections[lane] === 1 ? '→' : '←'})</option>
+                       ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase font-bold text-slate-500 tracking-wider">Target</label>
+                    <select 
+                      value={patrol.targetMode}
+                      onChange={(e) => setPatrol(p => ({...p, targetMode: e.target.value as PatrolTargetMode}))}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-1.5 text-sm font-mono text-rose-300 outline-none"
+                    >
+                       {(Object.keys(PATROL_TARGET_MODE_LABELS) as PatrolTargetMode[]).map(mode => (
+                         <option key={mode} value={mode}>{PATROL_TARGET_MODE_LABELS[mode]}</option>
+                       ))}
+                    </select>
+                  </div>
+               </div>
+               <p className="text-[10px] text-slate-500 leading-tight mt-4">
+                 The strongest low-frequency return is taken as the ground (patrol speed). A large vehicle ahead in the same
+                 direction can out-reflect the road (<strong>shadowing</strong>); a patrol estimate held for a whole batch while the
+                 car accelerates lags behind (<strong>batching</strong>).
+               </p>
+            </div>
           </div>
 
           {/* RIGHT COL: Analysis & Blackboard (4 cols) */}
@@ -305,8 +1043,24 @@ const App: React.FC = () => {
                         </div>
                      </div>
                      <div className="text-right">
-                        <div className="text-2xl font-bold text-yellow-400">{resolutionKmh.toFixed(2)}</div>
-                        <div className="text-[10px] text-slate-500">km/h per bin</div>
+                        <div className="text-2xl font-bold text-yellow-400">{displaySpeed(resolutionKmh).toFixed(2)}</div>
+                        <div className="text-[10px] text-slate-500">{speedUnit} per bin</div>
+                     </div>
+                  </div>
+
+                  {/* Sub-bin Estimator */}
+                  <div className="flex justify-between items-center group pt-2 border-t border-slate-800 border-dashed">
+                     <div>
+                        <div className="text-slate-500 text-[10px]">Estimator: {ESTIMATOR_LABELS[estimator.method]}{estimator.method === 'zeroPad' && ` ×${estimator.zeroPadFactor}`}</div>
+                        <div className="text-slate-300 text-xs mt-1">{ESTIMATOR_FORMULAS[estimator.method]}</div>
+                        <div className="text-[10px] text-slate-600 mt-1">
+                           bias {estimatorError.rmsBins.toFixed(3)} rms / {estimatorError.maxBins.toFixed(3)} max bins
+                           {measuredTarget && <>, σ<sub>CRLB</sub> = √3 / (π√SNR) = {crlbBins.toFixed(3)} bins</>}
+                        </div>
+                     </div>
+                     <div className="text-right">
+                        <div className="text-2xl font-bold text-emerald-400">±{displaySpeed(expectedErrorKmh).toFixed(2)}</div>
+                        <div className="text-[10px] text-slate-500">{speedUnit} vs {displaySpeed(resolutionKmh).toFixed(2)} bin</div>
                      </div>
                   </div>
 
@@ -319,11 +1073,170 @@ const App: React.FC = () => {
                         </div>
                      </div>
                      <div className="text-right">
-                        <div className="text-lg font-bold text-blue-400">{maxSpeedKmh.toFixed(0)}</div>
-                        <div className="text-[10px] text-slate-500">km/h</div>
+                        <div className="text-lg font-bold text-blue-400">{displaySpeed(maxSpeedKmh).toFixed(0)}</div>
+                        <div className="text-[10px] text-slate-500">{speedUnit}</div>
                      </div>
                   </div>
                   
+                  {/* FMCW Range */}
+                  {radarParams.radarMode === 'fmcw' && (
+                     <div className="pt-2 border-t border-slate-800 border-dashed space-y-3">
+                        <div className="flex justify-between items-center">
+                           <div>
+                              <div className="text-slate-500 text-[10px]">FMCW Range Resolution</div>
+                              <div className="text-slate-300">
+                                ΔR = c / (2 × <span className="text-cyan-400">B</span>)
+                              </div>
+                           </div>
+                           <div className="text-right">
+                              <div className="text-lg font-bold text-cyan-400">{calculateRangeResolution(radarParams).toFixed(2)}</div>
+                              <div className="text-[10px] text-slate-500">m per bin</div>
+                           </div>
+                        </div>
+                        <div className="flex justify-between items-center">
+                           <div>
+                              <div className="text-slate-500 text-[10px]">FMCW Max Range</div>
+                              <div className="text-slate-300">
+                                R<sub>max</sub> = <span className="text-purple-400">Fs<sub>b</sub></span> × c × <span className="text-cyan-400">T<sub>c</sub></span> / (4 × <span className="text-cyan-400">B</span>)
+                              </div>
+                              <div className="text-[10px] text-slate-600 mt-1">
+                                 Fs<sub>b</sub> = {FMCW_SAMPLES_PER_CHIRP} / T<sub>c</sub>{radarParams.receiverType === 'iq' && ', ×2 with I/Q'}
+                              </div>
+                           </div>
+                           <div className="text-right">
+                              <div className="text-lg font-bold text-cyan-400">{calculateMaxRange(radarParams).toFixed(0)}</div>
+                              <div className="text-[10px] text-slate-500">m</div>
+                           </div>
+                        </div>
+                        <div className="flex justify-between items-center">
+                           <div>
+                              <div className="text-slate-500 text-[10px]">Chirp Doppler</div>
+                              <div className="text-slate-300">
+                                Δv = <span className="text-yellow-500">λ</span> / (2 × <span className="text-cyan-400">N<sub>c</sub>T<sub>c</sub></span>), V<sub>max</sub> = <span className="text-yellow-500">λ</span> / (4 × <span className="text-cyan-400">T<sub>c</sub></span>)
+                              </div>
+                           </div>
+                           <div className="text-right">
+                              <div className="text-sm font-bold text-yellow-400">{displaySpeed(calculateChirpSpeedResolution(radarParams)).toFixed(2)} {speedUnit}</div>
+                              <div className="text-sm font-bold text-blue-400">±{displaySpeed(calculateChirpMaxSpeed(radarParams)).toFixed(0)} {speedUnit}</div>
+                           </div>
+                        </div>
+                     </div>
+                  )}
+
+                  {/* Cosine Effect */}
+                  <div className="pt-2 border-t border-slate-800 border-dashed">
+                     <div className="flex justify-between items-end">
+                        <div>
+                           <div className="text-slate-500 text-[10px]">Cosine Effect (Radial Speed)</div>
+                           <div className="text-slate-300">
+                             v<sub>r</sub> = v × cos(<span className="text-emerald-400">θ</span>)
+                           </div>
+                        </div>
+                        <div className="text-[10px] text-slate-600">in beam: gain &gt; -20 dB</div>
+                     </div>
+                     <table className="w-full text-[11px] mt-2">
+                        <thead className="text-[10px] text-slate-500">
+                           <tr>
+                              <th className="text-left font-normal">Target</th>
+                              <th className="text-right font-normal">θ</th>
+                              <th className="text-right font-normal">v<sub>r</sub> ({speedUnit})</th>
+                              <th className="text-right font-normal">Cos Err</th>
+                           </tr>
+                        </thead>
+                        <tbody>
+                           {targetGeometry.map(({ car, los }, idx) => (
+                              <tr key={car.id} className={los.beamGain > 0.1 ? 'text-slate-300' : 'text-slate-600'}>
+                                 <td><span style={{ color: car.color }}>●</span> T{idx + 1}</td>
+                                 <td className="text-right text-emerald-400">{Math.min(los.thetaDeg, 180 - los.thetaDeg).toFixed(1)}°</td>
+                                 <td className="text-right">{displaySpeed(car.speedKmh * los.cosineFactor).toFixed(1)}</td>
+                                 <td className="text-right text-yellow-500">{displaySpeed(calculateCosineErrorKmh(car.speedKmh, los.cosineFactor)).toFixed(1)}</td>
+                              </tr>
+                           ))}
+                        </tbody>
+                     </table>
+                  </div>
+
+                  {/* Acceleration Smearing */}
+                  <div className="pt-2 border-t border-slate-800 border-dashed">
+                     <div className="flex justify-between items-end">
+                        <div>
+                           <div className="text-slate-500 text-[10px]">Acceleration Smearing</div>
+                           <div className="text-slate-300">
+                             Δv = <span className="text-orange-400">a</span> × <span className="text-blue-400">T_obs</span>
+                           </div>
+                        </div>
+                        <div className="text-right">
+                           <div className="text-sm font-bold text-orange-400">
+                              {acceleratingCar && <span style={{ color: acceleratingCar.color }}>● </span>}
+                              {((acceleratingCar?.accelKmhPerS ?? 0) / 3.6).toFixed(2)} m/s²
+                           </div>
+                           <div className="text-[10px] text-slate-500">
+                              {displaySpeed(smearKmh).toFixed(3)} {speedUnit} = {(smearKmh / resolutionKmh).toFixed(2)} bins
+                           </div>
+                        </div>
+                     </div>
+                  </div>
+
+                  {/* Radar Range Equation */}
+                  <div className="pt-2 border-t border-slate-800 border-dashed">
+                     <div className="flex justify-between items-end">
+                        <div>
+                           <div className="text-slate-500 text-[10px]">Radar Range Equation</div>
+                           <div className="text-slate-300">
+                             P<sub>r</sub> = P<sub>t</sub>G²λ²<span className="text-sky-400">σ</span> / ((4π)³<span className="text-sky-400">R</span>⁴)
+                           </div>
+                        </div>
+                        <div className="text-[10px] text-slate-600">N = kT₀BF = {linkBudgets[0]?.noisePowerDbm.toFixed(1) ?? '—'} dBm</div>
+                     </div>
+                     <table className="w-full text-[11px] mt-2">
+                        <thead className="text-[10px] text-slate-500">
+                           <tr>
+                              <th className="text-left font-normal">Target</th>
+                              <th className="text-right font-normal">R (m)</th>
+                              <th className="text-right font-normal">σ (m²)</th>
+                              <th className="text-right font-normal">SNR<sub>FFT</sub></th>
+                              <th className="text-right font-normal">P<sub>d</sub></th>
+                           </tr>
+                        </thead>
+                        <tbody>
+                           {linkBudgets.map((budget, idx) => (
+                              <tr key={budget.carId} className={budget.pd > 0.5 ? 'text-slate-300' : 'text-slate-600'}>
+                                 <td><span style={{ color: liveCars[idx].color }}>●</span> T{idx + 1}</td>
+                                 <td className="text-right">{budget.rangeM.toFixed(0)}</td>
+                                 <td className="text-right">{budget.rcsM2}</td>
+                                 <td className="text-right text-sky-400">{budget.integratedSnrDb.toFixed(1)} dB</td>
+                                 <td className="text-right">{(budget.pd * 100).toFixed(0)}%</td>
+                              </tr>
+                           ))}
+                        </tbody>
+                     </table>
+                  </div>
+
+                  {/* Moving Mode */}
+                  {patrol.enabled && (
+                     <div className="pt-2 border-t border-slate-800 border-dashed">
+                        <div className="text-slate-500 text-[10px]">Moving Mode</div>
+                        <div className="text-slate-300">
+                          v<sub>t</sub> = {patrol.targetMode === 'opposite' ? <>v<sub>closing</sub> − <span className="text-rose-400">v<sub>p</sub></span></>
+                            : patrol.targetMode === 'sameFaster' ? <><span className="text-rose-400">v<sub>p</sub></span> + v<sub>closing</sub></>
+                            : <><span className="text-rose-400">v<sub>p</sub></span> − v<sub>closing</sub></>}
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 mt-2 text-[11px]">
+                           <div className="text-slate-500">Patrol (true)</div>
+                           <div className="text-right text-slate-300">{displaySpeed(patrolSpeedKmh).toFixed(1)} {speedUnit}</div>
+                           <div className="text-slate-500">Patrol (measured)</div>
+                           <div className="text-right text-rose-400">{measuredPatrolSpeedKmh !== null ? `${displaySpeed(measuredPatrolSpeedKmh).toFixed(1)} ${speedUnit}` : '—'}</div>
+                           <div className="text-slate-500">Patrol error</div>
+                           <div className="text-right text-yellow-500">{measuredPatrolSpeedKmh !== null ? displaySpeed(measuredPatrolSpeedKmh - patrolSpeedKmh).toFixed(1) : '—'}</div>
+                        </div>
+                        {patrolReturn && patrolReturn.carId !== undefined && (
+                           <div className="bg-red-900/20 border border-red-500/50 p-2 mt-2 rounded text-red-400 text-xs flex items-center gap-2">
+                              <Activity size={14} /> Shadowing: patrol speed locked onto {describeTarget(patrolReturn.carId)}, not the road.
+                           </div>
+                        )}
+                     </div>
+                  )}
+
                   {/* Warning for Aliasing */}
                   {fastestCar && fastestCar.speedKmh > maxSpeedKmh && (
                      <div className="bg-red-900/20 border border-red-500/50 p-2 rounded text-red-400 text-xs flex items-center gap-2">
@@ -335,8 +1248,82 @@ const App: React.FC = () => {
 
             {/* Spectrum Analyzer */}
             <div className="h-[400px]">
-               <Oscilloscope simState={simState} />
+               <Oscilloscope simState={simState} enforcement={enforcement} />
             </div>
+            <RecordingExport cars={liveCars} radar={radarParams} pose={radarPose} disturbances={disturbances} />
+            <RecordingAnalysis radar={radarParams} cfar={cfarConfig} estimator={estimator} filter={clutterFilter} selectionMode={selectionMode} directionFilter={directionFilter} enforcement={enforcement} />
+            <MonteCarloPanel radar={radarParams} cfar={cfarConfig} filter={clutterFilter} estimator={estimator} disturbances={disturbances} selectionMode={selectionMode} directionFilter={directionFilter} unit={enforcement.unit} ifChainEnabled={ifChain.enabled} />
+            <CalibrationPanel radar={radarParams} cfar={cfarConfig} filter={clutterFilter} estimator={estimator} disturbances={disturbances} selectionMode={selectionMode} directionFilter={directionFilter} unit={enforcement.unit} />
+            <SectionControlPanel radar={radarParams} cfar={cfarConfig} filter={clutterFilter} estimator={estimator} disturbances={disturbances} selectionMode={selectionMode} directionFilter={directionFilter} enforcement={enforcement} ifChainEnabled={ifChain.enabled} />
+
+            <div className="h-[420px]">
+               <Spectrogram
+                 frames={spectrogramFrames}
+                 radar={radarParams}
+                 config={spectrogramConfig}
+                 onConfigChange={setSpectrogramConfig}
+                 paused={isSpectrogramPaused}
+                 onTogglePause={() => setIsSpectrogramPaused(p => !p)}
+                 unit={enforcement.unit}
+               />
+            </div>
+
+            {rangeDopplerMap && (
+              <div className="h-[360px]">
+                 <RangeDopplerMap
+                   map={rangeDopplerMap}
+                   markers={targetGeometry.map(({ car, los }, idx) => ({
+                     id: car.id,
+                     label: `T${idx + 1}`,
+                     color: car.color,
+                     rangeM: los.rangeM,
+                     speedKmh: los.closingSpeedKmh,
+                   }))}
+                   unit={enforcement.unit}
+                 />
+              </div>
+            )}
+
+            <DetectionPanel
+              config={cfarConfig}
+              onConfigChange={setCfarConfig}
+              detections={frame.detections}
+              cars={liveCars}
+              selectedBin={measuredTarget?.binIndex}
+              unit={enforcement.unit}
+            />
+
+            <ClutterPanel
+              disturbances={disturbances}
+              onDisturbancesChange={setDisturbances}
+              filter={clutterFilter}
+              onFilterChange={setClutterFilter}
+              stages={frame.stages}
+              unit={enforcement.unit}
+            />
+
+            <IfChainPanel
+              config={ifChain}
+              onConfigChange={setIfChain}
+              radar={radarParams}
+              onRadarChange={(patch) => setRadarParams(p => ({...p, ...patch}))}
+              report={frame.ifChain}
+              targetFreqHz={measuredTarget ? measuredTarget.freq : null}
+            />
+
+            <TrackList
+              config={trackerConfig}
+              onConfigChange={setTrackerConfig}
+              tracks={tracks}
+              cars={liveCars}
+              unit={enforcement.unit}
+            />
+
+            <EnforcementPanel config={enforcement} onConfigChange={setEnforcement} />
+
+            <ViolationLog events={violations} cars={liveCars} unit={enforcement.unit} onClear={() => setViolations([])} />
+
+            <EvidencePanel capture={captureEvidence} />
             
           </div>
 
@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ClipboardCheck, Play, Square, Download } from 'lucide-react';
+import { CalibrationConfig, SpeedUnit, ToleranceProfile, TolerancePreset } from '../types';
+import {
+  CALIBRATION_TEST_LABELS, CalibrationProgress, DEFAULT_CALIBRATION_CONFIG, TOLERANCE_PRESETS,
+  buildCalibrationCases, calibrationReportToJson, createCalibrationReport, startCalibration,
+} from '../utils/calibration';
+import { MeasurementSettings } from '../utils/pipeline';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+import { SPEED_UNIT_LABELS, fromDisplaySpeed, toDisplaySpeed } from '../utils/enforcement';
+
+// The battery measures with the live settings
+interface CalibrationPanelProps extends MeasurementSettings {
+  unit: SpeedUnit; // Speeds and tolerances are entered and shown in it; the report stays in km/h
+}
+
+const CUSTOM_PROFILE_LABEL = 'Custom';
+
+const formatForks = (speedsKmh: number[], unit: SpeedUnit) => speedsKmh.map(kmh => Number(toDisplaySpeed(kmh, unit).toFixed(1))).join(', ');
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ unit, radar, cfar, filter, estimator, disturbances, selectionMode, directionFilter }) => {
+  const settings: MeasurementSettings = { radar, cfar, filter, estimator, disturbances, selectionMode, directionFilter };
+  const [config, setConfig] = useState<CalibrationConfig>(DEFAULT_CALIBRATION_CONFIG);
+  const [forkText, setForkText] = useState(formatForks(DEFAULT_CALIBRATION_CONFIG.forkSpeedsKmh, unit));
+  const [run, setRun] = useState<{ config: CalibrationConfig; settings: MeasurementSettings; progress: CalibrationProgress } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => cancelRef.current?.(), []);
+  // Re-express the forks when the unit changes
+  useEffect(() => setForkText(formatForks(config.forkSpeedsKmh, unit)), [unit]);
+
+  const set = (patch: Partial<CalibrationConfig>) => setConfig(prev => ({ ...prev, ...patch }));
+  const setTolerance = (patch: Partial<ToleranceProfile>) =>
+    setConfig(prev => ({ ...prev, tolerance: { ...prev.tolerance, ...patch, label: CUSTOM_PROFILE_LABEL } }));
+  const preset = (Object.keys(TOLERANCE_PRESETS) as TolerancePreset[]).find(p => TOLERANCE_PRESETS[p] === config.tolerance);
+  const setForks = (text: string) => {
+    setForkText(text);
+    const speeds = text.split(/[,\s]+/).map(parseFloat).filter(v => !isNaN(v) && v > 0);
+    set({ forkSpeedsKmh: speeds.map(v => fromDisplaySpeed(v, unit)) });
+  };
+
+  const start = () => {
+    const runConfig = config;
+    const runSettings = settings;
+    cancelRef.current?.();
+    setIsRunning(true);
+    cancelRef.current = startCalibration(runConfig, runSettings, progress => {
+      setRun({ config: runConfig, settings: runSettings, progress });
+      if (progress.done) setIsRunning(false);
+    }, unit);
+  };
+  const stop = () => {
+    cancelRef.current?.();
+    setIsRunning(false);
+  };
+  const exportJson = () => {
+    if (!run) return;
+    const report = createCalibrationReport(run.config, run.settings, run.progress.results);
+    downloadBlob(new Blob([calibrationReportToJson(report)], { type: 'application/json' }), `calibration-${fileTimestamp()}.json`);
+  };
+
+  const caseCount = buildCalibrationCases(config, settings, unit).length;
+  const unitLabel = SPEED_UNIT_LABELS[unit];
+  const speed = (kmh: number) => toDisplaySpeed(kmh, unit).toFixed(2);
+  const speedInput = (kmh: number) => Number(toDisplaySpeed(kmh, unit).toFixed(2));
+  const results = run?.progress.results ?? [];
+  const graded = results.filter(r => r.graded);
+  const passedCount = graded.filter(r => r.passed).length;
+  const isPass = graded.length > 0 && passedCount === graded.length;
+  const inputClass = 'w-14 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-emerald-300 outline-none';
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <ClipboardCheck size={18} className="text-emerald-400"/> Calibration &amp; Type Approval
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={isRunning ? stop : start}
+            disabled={!isRunning && caseCount === 0}
+            className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] disabled:opacity-40 ${isRunning ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-emerald-600/80 text-white hover:bg-emerald-600'}`}
+          >
+            {isRunning ? <Square size={12}/> : <Play size={12}/>} {isRunning ? 'Stop' : 'Run battery'}
+          </button>
+          <button onClick={exportJson} disabled={!run?.progress.done} className="flex items-center gap-1 px-2 py-1 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 text-[10px] disabled:opacity-40">
+            <Download size={12}/> JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] text-slate-500 mb-3">
+        <select
+          value={preset ?? ''}
+          onChange={(e) => set({ tolerance: TOLERANCE_PRESETS[e.target.value as TolerancePreset] })}
+          className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+        >
+          {(Object.keys(TOLERANCE_PRESETS) as TolerancePreset[]).map(p => (
+            <option key={p} value={p}>{TOLERANCE_PRESETS[p].label}</option>
+          ))}
+          {!preset && <option value="">{CUSTOM_PROFILE_LABEL}</option>}
+        </select>
+        <label className="flex items-center gap-1">
+          ±
+          <input type="number" min="0" step="0.5" value={speedInput(config.tolerance.absoluteKmh)} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v) && v >= 0) setTolerance({ absoluteKmh: fromDisplaySpeed(v, unit) }); }} className={inputClass} />
+          {unitLabel} up to
+          <input type="number" min="0" step="10" value={speedInput(config.tolerance.thresholdKmh)} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v) && v >= 0) setTolerance({ thresholdKmh: fromDisplaySpeed(v, unit) }); }} className={inputClass} />
+          {unitLabel}, ±
+          <input type="number" min="0" step="0.5" value={config.tolerance.relativePercent} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v) && v >= 0) setTolerance({ relativePercent: v }); }} className={inputClass} />
+          % above
+        </label>
+        <label className="flex items-center gap-1">
+          Forks
+          <input type="text" value={forkText} onChange={(e) => setForks(e.target.value)} className="w-24 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-emerald-300 outline-none" />
+          {unitLabel}
+        </label>
+        <label className="flex items-center gap-1">
+          Readings/case
+          <input type="number" min="1" max="100" step="1" value={config.repeatsPerCase} onChange={(e) => { const v = parseInt(e.target.value); if (!isNaN(v)) set({ repeatsPerCase: Math.min(Math.max(v, 1), 100) }); }} className={inputClass} />
+        </label>
+      </div>
+
+      <p className="text-[10px] text-slate-500 leading-tight mb-3">
+        {caseCount} cases: virtual tuning forks, the measurable speed range on boresight, {toDisplaySpeed(100, unit).toFixed(0)} {unitLabel} across the beam and at falling SNR.
+        Each injects a Doppler tone at a known radial speed and reads it through the current filters, CFAR, estimator and
+        target selection. A case passes only if every reading is of the tone and within tolerance. Cases outside the
+        measurable range or too weak for reliable detection are characterisation only and do not count towards the verdict.
+      </p>
+
+      {run && (
+        <>
+          <div className="flex items-center gap-3 mb-2 text-xs font-mono">
+            {run.progress.done ? (
+              <span className={`px-2 py-0.5 rounded font-bold ${isPass ? 'bg-emerald-500/20 text-emerald-300' : 'bg-red-500/20 text-red-300'}`}>
+                {isPass ? 'PASS' : 'FAIL'}
+              </span>
+            ) : (
+              <span className="text-slate-400">{isRunning ? 'Running' : 'Stopped'}: {run.progress.completedReadings} / {run.progress.totalReadings} readings</span>
+            )}
+            <span className="text-slate-400">
+              {passedCount} / {graded.length} graded cases passed
+              {results.length > graded.length && ` · ${results.length - graded.length} characterisation`} · {run.config.tolerance.label}
+            </span>
+          </div>
+
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-slate-500 text-[10px] text-right">
+                <th className="text-left font-normal py-1">Test</th>
+                <th className="text-left font-normal">Case</th>
+                <th className="font-normal">Ref ({unitLabel})</th>
+                <th className="font-normal">SNR</th>
+                <th className="font-normal">Readings</th>
+                <th className="font-normal">Max err</th>
+                <th className="font-normal">Tol</th>
+                <th className="font-normal">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((r, index) => (
+                <tr key={index} className="border-b border-slate-900 text-slate-300 text-right" title={r.note}>
+                  <td className="py-1 text-left text-slate-500">{CALIBRATION_TEST_LABELS[r.kind]}</td>
+                  <td className="text-left">{r.label}</td>
+                  <td>{speed(r.referenceKmh)}</td>
+                  <td>{r.snrDb.toFixed(1)}</td>
+                  <td>
+                    {r.readingsKmh.length > 0 ? `${speed(Math.min(...r.readingsKmh))}–${speed(Math.max(...r.readingsKmh))}` : '—'}
+                    {r.missed > 0 && <span className="text-amber-400"> ({r.missed} missed)</span>}
+                    {r.wrongTarget > 0 && <span className="text-red-400"> ({r.wrongTarget} wrong)</span>}
+                  </td>
+                  <td>{r.maxAbsErrorKmh !== null ? speed(r.maxAbsErrorKmh) : '—'}</td>
+                  <td>±{speed(r.toleranceKmh)}</td>
+                  <td className={!r.graded ? 'text-slate-500' : r.passed ? 'text-emerald-400' : 'text-red-400'}>
+                    {r.graded ? (r.passed ? 'PASS' : 'FAIL') : 'INFO'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
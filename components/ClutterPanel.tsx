@@ -0,0 +1,159 @@
+import React from 'react';
+import { CloudRain } from 'lucide-react';
+import { ClutterFilterConfig, DisturbanceConfig, HighPassType, MainsFrequency, SpeedUnit } from '../types';
+import { CLUTTER_FILTER_STAGE_LABELS, HIGH_PASS_LABELS } from '../utils/clutter';
+import { SPEED_UNIT_LABELS, fromDisplaySpeed, toDisplaySpeed } from '../utils/enforcement';
+import { FilterStageResult } from '../utils/pipeline';
+
+interface ClutterPanelProps {
+  disturbances: DisturbanceConfig;
+  onDisturbancesChange: (config: DisturbanceConfig) => void;
+  filter: ClutterFilterConfig;
+  onFilterChange: (config: ClutterFilterConfig) => void;
+  stages: FilterStageResult[]; // Latest frame, raw first
+  unit: SpeedUnit; // Rain drift and spread are entered in it
+}
+
+const MAINS_OPTIONS: MainsFrequency[] = [50, 60];
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, min, max, step, unit, disabled, onChange }) => (
+  <label className={`flex items-center gap-1 text-[10px] text-slate-500 ${disabled ? 'opacity-40' : ''}`}>
+    {label}
+    <input
+      type="number" min={min} max={max} step={step} value={value} disabled={disabled}
+      onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) onChange(Math.min(Math.max(v, min), max)); }}
+      className="w-14 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-sky-300 outline-none"
+    />
+    {unit}
+  </label>
+);
+
+export const ClutterPanel: React.FC<ClutterPanelProps> = ({ disturbances, onDisturbancesChange, filter, onFilterChange, stages, unit }) => {
+  const set = (patch: Partial<DisturbanceConfig>) => onDisturbancesChange({ ...disturbances, ...patch });
+  const speed = (kmh: number) => Number(toDisplaySpeed(kmh, unit).toFixed(1));
+  const setFilter = (patch: Partial<ClutterFilterConfig>) => onFilterChange({ ...filter, ...patch });
+  const sourceToggle = (key: 'clutterEnabled' | 'signEnabled' | 'rainEnabled' | 'humEnabled' | 'fanEnabled', label: string) => (
+    <label className="flex items-center gap-2 text-xs text-slate-300 w-28 shrink-0">
+      <input type="checkbox" checked={disturbances[key]} onChange={(e) => set({ [key]: e.target.checked })} />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <CloudRain size={18} className="text-sky-400"/> Clutter & Interference
+        </h2>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <div className="flex flex-wrap items-center gap-3">
+          {sourceToggle('clutterEnabled', 'Stationary clutter')}
+          <NumberField label="Level" value={disturbances.clutterLevelDbfs} min={-100} max={0} step={1} unit="dBFS" disabled={!disturbances.clutterEnabled} onChange={v => set({ clutterLevelDbfs: v })} />
+          <NumberField label="Spread" value={disturbances.clutterSpreadHz} min={0} max={500} step={1} unit="Hz" disabled={!disturbances.clutterEnabled} onChange={v => set({ clutterSpreadHz: v })} />
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {sourceToggle('signEnabled', 'Vibrating sign')}
+          <NumberField label="Level" value={disturbances.signLevelDbfs} min={-100} max={0} step={1} unit="dBFS" disabled={!disturbances.signEnabled} onChange={v => set({ signLevelDbfs: v })} />
+          <NumberField label="Freq" value={disturbances.signVibrationHz} min={0.5} max={200} step={0.5} unit="Hz" disabled={!disturbances.signEnabled} onChange={v => set({ signVibrationHz: v })} />
+          <NumberField label="Disp" value={disturbances.signAmplitudeMm} min={0} max={50} step={0.5} unit="mm" disabled={!disturbances.signEnabled} onChange={v => set({ signAmplitudeMm: v })} />
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {sourceToggle('rainEnabled', 'Rain')}
+          <NumberField label="Rate" value={disturbances.rainRateMmPerH} min={0} max={200} step={1} unit="mm/h" disabled={!disturbances.rainEnabled} onChange={v => set({ rainRateMmPerH: v })} />
+          <NumberField label="Drift" value={speed(disturbances.rainVelocityKmh)} min={speed(-100)} max={speed(100)} step={1} unit={SPEED_UNIT_LABELS[unit]} disabled={!disturbances.rainEnabled} onChange={v => set({ rainVelocityKmh: fromDisplaySpeed(v, unit) })} />
+          <NumberField label="σ" value={speed(disturbances.rainSpreadKmh)} min={0} max={speed(50)} step={1} unit={SPEED_UNIT_LABELS[unit]} disabled={!disturbances.rainEnabled} onChange={v => set({ rainSpreadKmh: fromDisplaySpeed(v, unit) })} />
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {sourceToggle('humEnabled', 'Mains hum')}
+          <select
+            value={disturbances.mainsHz}
+            disabled={!disturbances.humEnabled}
+            onChange={(e) => set({ mainsHz: parseInt(e.target.value) as MainsFrequency })}
+            className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-[10px] font-mono text-sky-300 outline-none disabled:opacity-40"
+          >
+            {MAINS_OPTIONS.map(f => <option key={f} value={f}>{f} Hz</option>)}
+          </select>
+          <NumberField label="Level" value={disturbances.humLevelDbfs} min={-100} max={0} step={1} unit="dBFS" disabled={!disturbances.humEnabled} onChange={v => set({ humLevelDbfs: v })} />
+          <NumberField label="Harmonics" value={disturbances.humHarmonics} min={1} max={40} step={1} unit="" disabled={!disturbances.humEnabled} onChange={v => set({ humHarmonics: Math.round(v) })} />
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {sourceToggle('fanEnabled', 'Fan / HVAC')}
+          <NumberField label="Doppler" value={disturbances.fanDopplerHz} min={1} max={20000} step={10} unit="Hz" disabled={!disturbances.fanEnabled} onChange={v => set({ fanDopplerHz: v })} />
+          <NumberField label="Level" value={disturbances.fanLevelDbfs} min={-100} max={0} step={1} unit="dBFS" disabled={!disturbances.fanEnabled} onChange={v => set({ fanLevelDbfs: v })} />
+        </div>
+      </div>
+
+      <div className="border-t border-slate-800 pt-3 space-y-2 mb-4">
+        <div className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Suppression (before the FFT)</div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input type="checkbox" checked={filter.dcRemoval} onChange={(e) => setFilter({ dcRemoval: e.target.checked })} />
+            DC removal
+          </label>
+          <select
+            value={filter.highPass}
+            onChange={(e) => setFilter({ highPass: e.target.value as HighPassType })}
+            className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-sky-300 outline-none"
+          >
+            {(Object.keys(HIGH_PASS_LABELS) as HighPassType[]).map(type => (
+              <option key={type} value={type}>{HIGH_PASS_LABELS[type]}</option>
+            ))}
+          </select>
+          <NumberField
+            label="Cut-off" value={filter.highPassCutoffHz} min={1} max={5000} step={10} unit="Hz"
+            disabled={filter.highPass !== 'fir' && filter.highPass !== 'iir'}
+            onChange={v => setFilter({ highPassCutoffHz: v })}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input type="checkbox" checked={filter.notchEnabled} onChange={(e) => setFilter({ notchEnabled: e.target.checked })} />
+            Notches
+          </label>
+          <select
+            value={filter.notchMainsHz}
+            disabled={!filter.notchEnabled}
+            onChange={(e) => setFilter({ notchMainsHz: parseInt(e.target.value) as MainsFrequency })}
+            className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-[10px] font-mono text-sky-300 outline-none disabled:opacity-40"
+          >
+            {MAINS_OPTIONS.map(f => <option key={f} value={f}>{f} Hz</option>)}
+          </select>
+          <NumberField label="Harmonics" value={filter.notchHarmonics} min={0} max={40} step={1} unit="" disabled={!filter.notchEnabled} onChange={v => setFilter({ notchHarmonics: Math.round(v) })} />
+          <NumberField label="Extra" value={filter.customNotchHz} min={0} max={20000} step={10} unit="Hz" disabled={!filter.notchEnabled} onChange={v => setFilter({ customNotchHz: v })} />
+        </div>
+      </div>
+
+      <table className="w-full text-xs font-mono">
+        <thead className="text-[10px] uppercase text-slate-500 border-b border-slate-800">
+          <tr>
+            <th className="text-left py-1">Stage</th>
+            <th className="text-right py-1">Detections</th>
+            <th className="text-right py-1">False</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stages.map(s => (
+            <tr key={s.stage} className="border-b border-slate-900 text-slate-300">
+              <td className="py-1">{CLUTTER_FILTER_STAGE_LABELS[s.stage]}</td>
+              <td className="text-right">{s.detections}</td>
+              <td className={`text-right ${s.falseDetections > 0 ? 'text-red-400' : ''}`}>{s.falseDetections}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
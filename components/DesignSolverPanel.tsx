@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { Calculator } from 'lucide-react';
+import { DesignRequirements, RadarBand, RadarParams, SpeedUnit } from '../types';
+import { BAND_PRESETS, DEFAULT_DESIGN_REQUIREMENTS, DESIGN_CONSTRAINT_LABELS, DesignParams, explainBinding, solveDesign } from '../utils/design';
+import { fromDisplaySpeed, SPEED_UNIT_LABELS, toDisplaySpeed } from '../utils/enforcement';
+import { calculateWavelengthMm } from '../utils/physics';
+
+interface DesignSolverPanelProps {
+  radar: RadarParams; // To mark the design that is already applied
+  onApply: (params: DesignParams) => void;
+  unit: SpeedUnit;
+}
+
+// Ranked designs listed; the rest are only counted
+const MAX_LISTED_DESIGNS = 8;
+
+export const DesignSolverPanel: React.FC<DesignSolverPanelProps> = ({ radar, onApply, unit }) => {
+  const [req, setReq] = useState<DesignRequirements>(DEFAULT_DESIGN_REQUIREMENTS);
+  const solution = useMemo(() => solveDesign(req, unit), [req, unit]);
+  const set = (patch: Partial<DesignRequirements>) => setReq(prev => ({ ...prev, ...patch }));
+  const inputClass = 'w-16 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-purple-300 outline-none';
+  const positive = (value: string, apply: (v: number) => void) => { const v = parseFloat(value); if (!isNaN(v) && v > 0) apply(v); };
+  const speed = (kmh: number) => Number(toDisplaySpeed(kmh, unit).toFixed(2));
+  const speedUnit = SPEED_UNIT_LABELS[unit];
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+      <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2 mb-4">
+        <Calculator size={18} className="text-purple-400"/> Design Solver
+      </h2>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] text-slate-500 mb-3">
+        <select
+          value={req.band}
+          onChange={(e) => set({ band: e.target.value as RadarBand })}
+          className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+        >
+          {(Object.keys(BAND_PRESETS) as RadarBand[]).map(band => (
+            <option key={band} value={band}>{BAND_PRESETS[band].label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1">
+          Resolution ≤
+          <input type="number" min="0.05" step="0.05" value={speed(req.resolutionKmh)} onChange={(e) => positive(e.target.value, v => set({ resolutionKmh: fromDisplaySpeed(v, unit) }))} className={inputClass} />
+          {speedUnit}
+        </label>
+        <label className="flex items-center gap-1">
+          Top speed
+          <input type="number" min="1" step="10" value={speed(req.topSpeedKmh)} onChange={(e) => positive(e.target.value, v => set({ topSpeedKmh: fromDisplaySpeed(v, unit) }))} className={inputClass} />
+          {speedUnit} +
+          <input
+            type="number" min="0" max="200" step="5" value={req.speedMarginPercent}
+            onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v) && v >= 0) set({ speedMarginPercent: v }); }}
+            className={inputClass}
+          />
+          %
+        </label>
+        <label className="flex items-center gap-1">
+          Dwell ≤
+          <input type="number" min="1" step="5" value={req.maxDwellMs} onChange={(e) => positive(e.target.value, v => set({ maxDwellMs: v }))} className={inputClass} />
+          ms
+        </label>
+      </div>
+
+      {solution.candidates.length > 0 ? (
+        <>
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-slate-500 text-[10px] text-right">
+                <th className="text-left font-normal py-1">f₀</th>
+                <th className="font-normal">N</th>
+                <th className="font-normal">Fs</th>
+                <th className="font-normal">Δv ({speedUnit})</th>
+                <th className="font-normal">v max ({speedUnit})</th>
+                <th className="font-normal">T</th>
+                <th className="text-left font-normal pl-3">Binding</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {solution.candidates.slice(0, MAX_LISTED_DESIGNS).map(c => {
+                const isApplied = c.params.frequencyGHz === radar.frequencyGHz && c.params.fftSize === radar.fftSize && c.params.basebandSampleRateHz === radar.basebandSampleRateHz;
+                return (
+                  <tr key={`${c.params.frequencyGHz}/${c.params.fftSize}`} className="border-b border-slate-900 text-slate-300 text-right">
+                    <td className="py-1 text-left">{c.params.frequencyGHz} GHz</td>
+                    <td>{c.params.fftSize}</td>
+                    <td>{(c.params.basebandSampleRateHz / 1000).toFixed(0)} kHz</td>
+                    <td>{toDisplaySpeed(c.resolutionKmh, unit).toFixed(2)}</td>
+                    <td>{toDisplaySpeed(c.maxSpeedKmh, unit).toFixed(0)}</td>
+                    <td>{c.dwellMs.toFixed(1)} ms</td>
+                    <td className="text-left pl-3 text-slate-400" title={explainBinding(req, c, unit)}>{DESIGN_CONSTRAINT_LABELS[c.binding]}</td>
+                    <td className="pl-2">
+                      <button
+                        onClick={() => onApply(c.params)}
+                        disabled={isApplied}
+                        className="px-2 py-0.5 rounded text-[10px] bg-purple-600/80 text-white hover:bg-purple-600 disabled:bg-slate-800 disabled:text-slate-500"
+                      >
+                        {isApplied ? 'Applied' : 'Apply'}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-slate-500 leading-tight mt-2">
+            {solution.candidates.length} feasible {solution.candidates.length === 1 ? 'design' : 'designs'}, ranked by the headroom left on the tightest requirement.
+            Best: {explainBinding(req, solution.candidates[0], unit)}
+          </p>
+        </>
+      ) : (
+        <div className="space-y-2 text-[10px] leading-tight">
+          {solution.reasons.map(reason => (
+            <div key={reason} className="text-red-400 font-mono">Infeasible: {reason}</div>
+          ))}
+          {solution.fixes.length > 0 ? (
+            <ul className="text-slate-400 list-disc pl-4">
+              {solution.fixes.map(fix => <li key={fix.text}>{fix.text}</li>)}
+            </ul>
+          ) : (
+            <div className="text-slate-500">No single change to one requirement makes this feasible.</div>
+          )}
+        </div>
+      )}
+
+      <p className="text-[10px] text-slate-500 leading-tight mt-3">
+        Δv · T = λ / 2 = {(calculateWavelengthMm(BAND_PRESETS[req.band].carriersGHz[0]) / 2).toFixed(2)} mm at {BAND_PRESETS[req.band].carriersGHz[0]} GHz:
+        a finer speed bin always costs a longer measurement, whatever Fs and N are.
+      </p>
+    </div>
+  );
+};
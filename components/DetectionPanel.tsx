@@ -0,0 +1,113 @@
+import React from 'react';
+import { Crosshair } from 'lucide-react';
+import { Car, CfarConfig, CfarMethod, Detection, SpeedUnit } from '../types';
+import { CFAR_LABELS } from '../utils/cfar';
+import { SPEED_UNIT_LABELS, toDisplaySpeed } from '../utils/enforcement';
+import { DISTURBANCE_LABELS } from '../utils/clutter';
+
+interface DetectionPanelProps {
+  config: CfarConfig;
+  onConfigChange: (config: CfarConfig) => void;
+  detections: Detection[];
+  cars: Car[];
+  selectedBin?: number; // Detection currently driving the headline readout
+  unit: SpeedUnit;
+}
+
+const PFA_OPTIONS = [1e-2, 1e-3, 1e-4, 1e-5, 1e-6];
+
+export const DetectionPanel: React.FC<DetectionPanelProps> = ({ config, onConfigChange, detections, cars, selectedBin, unit }) => {
+  const update = (patch: Partial<CfarConfig>) => onConfigChange({ ...config, ...patch });
+  const carLabel = (carId?: number) => {
+    const index = cars.findIndex(c => c.id === carId);
+    return index >= 0 ? `T${index + 1}` : '—';
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <Crosshair size={18} className="text-amber-400"/> CFAR Detection
+        </h2>
+        <span className="text-[10px] font-mono text-slate-500">{detections.length} target{detections.length === 1 ? '' : 's'}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Method</label>
+          <select
+            value={config.method}
+            onChange={(e) => update({ method: e.target.value as CfarMethod })}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-amber-300 outline-none"
+          >
+            {(Object.keys(CFAR_LABELS) as CfarMethod[]).map(m => (
+              <option key={m} value={m}>{m}-CFAR</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Guard / side</label>
+          <input
+            type="number" min="0" max="8" value={config.guardCells}
+            onChange={(e) => update({ guardCells: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-amber-300 outline-none"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Training / side</label>
+          <input
+            type="number" min="1" max="32" value={config.trainingCells}
+            onChange={(e) => update({ trainingCells: Math.max(1, parseInt(e.target.value) || 1) })}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-amber-300 outline-none"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">P<sub>fa</sub></label>
+          <select
+            value={config.pfa}
+            onChange={(e) => update({ pfa: parseFloat(e.target.value) })}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-amber-300 outline-none"
+          >
+            {PFA_OPTIONS.map(p => (
+              <option key={p} value={p}>{p.toExponential(0)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-500 leading-tight mb-4">
+        {CFAR_LABELS[config.method]}: the threshold follows the local noise estimated from {2 * config.trainingCells} training
+        cells, scaled for a constant false-alarm rate. {config.method === 'OS' && 'Ranking the cells keeps a neighbouring target from masking this one.'}
+      </p>
+
+      <div className="max-h-[180px] overflow-y-auto custom-scrollbar">
+        <table className="w-full text-xs font-mono">
+          <thead className="text-[10px] uppercase text-slate-500 border-b border-slate-800">
+            <tr>
+              <th className="text-left py-1">Bin</th>
+              <th className="text-right py-1">Freq (Hz)</th>
+              <th className="text-right py-1">Speed ({SPEED_UNIT_LABELS[unit]})</th>
+              <th className="text-right py-1">SNR (dB)</th>
+              <th className="text-right py-1">Truth</th>
+            </tr>
+          </thead>
+          <tbody>
+            {detections.length === 0 && (
+              <tr><td colSpan={5} className="text-center text-slate-600 py-3">No threshold crossings</td></tr>
+            )}
+            {detections.map(d => (
+              <tr key={d.binIndex} className={`border-b border-slate-900 ${d.binIndex === selectedBin ? 'text-amber-300' : 'text-slate-300'}`}>
+                <td className="py-1">{d.binIndex}</td>
+                <td className="text-right">{d.freq.toFixed(1)}</td>
+                <td className="text-right">{toDisplaySpeed(d.speed, unit).toFixed(1)}</td>
+                <td className="text-right">{d.snrDb.toFixed(1)}</td>
+                <td className={`text-right ${d.carId === undefined && !d.isClutter ? 'text-red-400' : ''}`}>
+                  {d.isClutter ? 'ground' : d.disturbance ? DISTURBANCE_LABELS[d.disturbance].toLowerCase() : d.carId === undefined ? 'false' : carLabel(d.carId)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { EnforcementConfig, EnforcementPreset, EnforcementToleranceRule, SpeedUnit, VehicleClass } from '../types';
+import {
+  ENFORCEMENT_PRESETS, SPEED_UNIT_LABELS, TOLERANCE_RULE_LABELS,
+  fromDisplaySpeed, getEnforcementThresholdKmh, getSpeedLimitKmh, toDisplaySpeed,
+} from '../utils/enforcement';
+import { VEHICLE_CLASSES, VEHICLE_SPECS } from '../utils/vehicles';
+
+interface EnforcementPanelProps {
+  config: EnforcementConfig;
+  onConfigChange: (config: EnforcementConfig) => void;
+}
+
+const CUSTOM_PRESET_LABEL = 'Custom';
+
+export const EnforcementPanel: React.FC<EnforcementPanelProps> = ({ config, onConfigChange }) => {
+  const { unit } = config;
+  const set = (patch: Partial<EnforcementConfig>) => onConfigChange({ ...config, ...patch });
+  const preset = (Object.keys(ENFORCEMENT_PRESETS) as EnforcementPreset[]).find(p => ENFORCEMENT_PRESETS[p].config === config);
+  // Inputs show the display unit, rounded so a converted limit reads 70 rather than 69.99999
+  const shown = (kmh: number) => Number(toDisplaySpeed(kmh, unit).toFixed(2));
+  // Empty clears an optional limit; anything else must be a positive speed
+  const parseLimit = (value: string): number | null | undefined => {
+    if (value.trim() === '') return null;
+    const v = parseFloat(value);
+    return !isNaN(v) && v > 0 ? fromDisplaySpeed(v, unit) : undefined;
+  };
+  const setLaneLimit = (lane: number, value: string) => {
+    const kmh = parseLimit(value);
+    if (kmh !== undefined) set({ laneLimitsKmh: config.laneLimitsKmh.map((limit, i) => (i === lane ? kmh : limit)) });
+  };
+  const setClassLimit = (vehicleClass: VehicleClass, value: string) => {
+    const kmh = parseLimit(value);
+    if (kmh === undefined) return;
+    const classLimitsKmh = { ...config.classLimitsKmh };
+    if (kmh === null) delete classLimitsKmh[vehicleClass];
+    else classLimitsKmh[vehicleClass] = kmh;
+    set({ classLimitsKmh });
+  };
+  const toleranceUnit = config.toleranceRule === 'percent' ? '%' : SPEED_UNIT_LABELS[unit];
+  const toleranceShown = config.toleranceRule === 'fixed' ? shown(config.tolerance) : config.tolerance;
+  const setTolerance = (value: string) => {
+    const v = parseFloat(value);
+    if (isNaN(v) || v < 0) return;
+    set({ tolerance: config.toleranceRule === 'fixed' ? fromDisplaySpeed(v, unit) : v });
+  };
+  const inputClass = 'w-14 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-red-300 outline-none disabled:opacity-40';
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <Gauge size={18} className="text-red-400"/> Enforcement
+        </h2>
+        <div className="flex rounded-lg border border-slate-700 overflow-hidden text-[10px]">
+          {(Object.keys(SPEED_UNIT_LABELS) as SpeedUnit[]).map(u => (
+            <button
+              key={u}
+              onClick={() => set({ unit: u })}
+              className={`px-2 py-1 ${unit === u ? 'bg-red-600 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
+            >
+              {SPEED_UNIT_LABELS[u]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] text-slate-500 mb-3">
+        <select
+          value={preset ?? ''}
+          onChange={(e) => onConfigChange(ENFORCEMENT_PRESETS[e.target.value as EnforcementPreset].config)}
+          className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+        >
+          {(Object.keys(ENFORCEMENT_PRESETS) as EnforcementPreset[]).map(p => (
+            <option key={p} value={p}>{ENFORCEMENT_PRESETS[p].label}</option>
+          ))}
+          {!preset && <option value="">{CUSTOM_PRESET_LABEL}</option>}
+        </select>
+        <label className="flex items-center gap-1">
+          Road limit
+          <input
+            type="number" min="1" step="5" value={shown(config.speedLimitKmh)}
+            onChange={(e) => { const kmh = parseLimit(e.target.value); if (kmh) set({ speedLimitKmh: kmh }); }}
+            className={inputClass}
+          />
+          {SPEED_UNIT_LABELS[unit]}
+        </label>
+        <label className="flex items-center gap-1">
+          Tolerance
+          <select
+            value={config.toleranceRule}
+            onChange={(e) => set({ toleranceRule: e.target.value as EnforcementToleranceRule, tolerance: 0 })}
+            className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+          >
+            {(Object.keys(TOLERANCE_RULE_LABELS) as EnforcementToleranceRule[]).map(rule => (
+              <option key={rule} value={rule}>{TOLERANCE_RULE_LABELS[rule]}</option>
+            ))}
+          </select>
+          <input
+            type="number" min="0" step="1" value={toleranceShown} disabled={config.toleranceRule === 'none'}
+            onChange={(e) => setTolerance(e.target.value)}
+            className={inputClass}
+          />
+          {config.toleranceRule !== 'none' && toleranceUnit}
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] text-slate-500 mb-3">
+        {config.laneLimitsKmh.map((limit, lane) => (
+          <label key={lane} className="flex items-center gap-1">
+            L{lane + 1}
+            <input
+              type="number" min="1" step="5" value={limit === null ? '' : shown(limit)} placeholder={`${shown(config.speedLimitKmh)}`}
+              onChange={(e) => setLaneLimit(lane, e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        ))}
+        <span className="w-px h-4 bg-slate-700" />
+        {VEHICLE_CLASSES.map(vehicleClass => {
+          const limit = config.classLimitsKmh[vehicleClass];
+          return (
+            <label key={vehicleClass} className="flex items-center gap-1">
+              {VEHICLE_SPECS[vehicleClass].label}
+              <input
+                type="number" min="1" step="5" value={limit === undefined ? '' : shown(limit)} placeholder="—"
+                onChange={(e) => setClassLimit(vehicleClass, e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-slate-500 text-[10px] text-right">
+            <th className="text-left font-normal py-1">Triggers above ({SPEED_UNIT_LABELS[unit]})</th>
+            {VEHICLE_CLASSES.map(vehicleClass => (
+              <th key={vehicleClass} className="font-normal">{VEHICLE_SPECS[vehicleClass].label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {config.laneLimitsKmh.map((_, lane) => (
+            <tr key={lane} className="border-b border-slate-900 text-slate-300 text-right">
+              <td className="py-1 text-left text-slate-500">Lane {lane + 1}</td>
+              {VEHICLE_CLASSES.map(vehicleClass => {
+                const limitKmh = getSpeedLimitKmh(config, lane, vehicleClass);
+                return (
+                  <td key={vehicleClass} title={`Limit ${toDisplaySpeed(limitKmh, unit).toFixed(1)} ${SPEED_UNIT_LABELS[unit]}`}>
+                    {toDisplaySpeed(getEnforcementThresholdKmh(config, limitKmh), unit).toFixed(1)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-[10px] text-slate-500 leading-tight mt-2">
+        A lane without its own limit follows the road limit; a class limit applies where it is lower.
+        A reading triggers above the limit plus the tolerance, and the log scores it against the same threshold.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { FileLock2, Camera, ShieldCheck } from 'lucide-react';
+import { EvidenceInput, EvidencePackage, EvidenceVerification, createEvidencePackage, describeFinding, evidencePackageToJson, verifyEvidencePackage } from '../utils/evidence';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+
+interface EvidencePanelProps {
+  capture: (() => EvidenceInput) | null; // Collects the current reading; null when there is none
+}
+
+// Hex digits of a hash shown in the table (the full hash is in the tooltip)
+const SHORT_HASH_LENGTH = 16;
+
+export const EvidencePanel: React.FC<EvidencePanelProps> = ({ capture }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [sealed, setSealed] = useState<EvidencePackage | null>(null);
+  const [isSealing, setIsSealing] = useState(false);
+  const [verification, setVerification] = useState<{ fileName: string; result: EvidenceVerification } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const describeError = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+  const captureEvidence = () => {
+    if (!capture) return;
+    setIsSealing(true);
+    setError(null);
+    // Capturing can throw before the hashing starts, so it runs inside the chain
+    Promise.resolve()
+      .then(() => createEvidencePackage(capture()))
+      .then(pkg => {
+        setSealed(pkg);
+        downloadBlob(new Blob([evidencePackageToJson(pkg)], { type: 'application/json' }), `evidence-${fileTimestamp(new Date(pkg.manifest.createdAt))}.json`);
+      })
+      .catch((e: unknown) => setError(`Capture failed: ${describeError(e)}`))
+      .finally(() => setIsSealing(false));
+  };
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    file.text()
+      .then(verifyEvidencePackage)
+      .then(result => setVerification({ fileName: file.name, result }))
+      .catch((e: unknown) => {
+        setVerification(null);
+        setError(`${file.name}: ${describeError(e)}`);
+      });
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <FileLock2 size={18} className="text-teal-400"/> Evidence
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={captureEvidence}
+            disabled={!capture || isSealing}
+            className="flex items-center gap-1 px-2 py-1 rounded text-[10px] bg-teal-600/80 text-white hover:bg-teal-600 disabled:opacity-40"
+          >
+            <Camera size={12}/> {isSealing ? 'Sealing…' : 'Capture'}
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 px-2 py-1 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 text-[10px]">
+            <ShieldCheck size={12}/> Verify
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+        </div>
+      </div>
+
+      <p className="text-[10px] text-slate-500 leading-tight mb-3">
+        Capture bundles the scene snapshot, the spectrum and detections, the measured detection with its estimator and
+        expected error, the radar parameters and a timestamp into one package. The manifest lists the SHA-256 of every
+        artifact and of every field of the JSON artifacts, and is itself hashed in canonical form (sorted keys, no whitespace).
+      </p>
+
+      {error && <div className="text-[10px] text-red-400 font-mono mb-3">{error}</div>}
+
+      {sealed && (
+        <div className="mb-3">
+          <div className="flex justify-between text-[10px] font-mono text-slate-400 mb-1">
+            <span>{sealed.manifest.id}</span>
+            <span title={sealed.manifestSha256}>manifest {sealed.manifestSha256.slice(0, SHORT_HASH_LENGTH)}…</span>
+          </div>
+          <table className="w-full text-xs font-mono">
+            <tbody>
+              {sealed.manifest.artifacts.map(a => (
+                <tr key={a.name} className="border-b border-slate-900 text-slate-300">
+                  <td className="py-1">{a.name}</td>
+                  <td className="text-right text-slate-500">{(a.sizeBytes / 1024).toFixed(1)} kB</td>
+                  <td className="text-right text-teal-300" title={a.sha256}>{a.sha256.slice(0, SHORT_HASH_LENGTH)}…</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {verification && (
+        <div className="space-y-1 text-[10px] leading-tight">
+          <div className="flex items-center gap-2 text-xs font-mono">
+            <span className={`px-2 py-0.5 rounded font-bold ${verification.result.valid ? 'bg-emerald-500/20 text-emerald-300' : 'bg-red-500/20 text-red-300'}`}>
+              {verification.result.valid ? 'INTACT' : verification.result.errors.length > 0 ? 'INVALID' : 'TAMPERED'}
+            </span>
+            <span className="text-slate-400 truncate">{verification.fileName}{verification.result.manifest && ` · ${verification.result.manifest.id}`}</span>
+          </div>
+          {verification.result.errors.map(error => (
+            <div key={error} className="text-red-400 font-mono">{error}</div>
+          ))}
+          {verification.result.findings.map(finding => (
+            <div key={`${finding.artifact}/${finding.field ?? ''}`} className="text-amber-400 font-mono">{describeFinding(finding)}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
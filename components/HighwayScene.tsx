@@ -1,27 +1,36 @@
 import React, { useRef, useEffect } from 'react';
-import { Car } from '../types';
+import { EnforcementConfig, Track, VehicleClass } from '../types';
+import { METRES_PER_PIXEL, NUM_LANES, LANE_WIDTH_M, calculateLineOfSight, getStationaryPose } from '../utils/geometry';
+import { PATROL_CAR_LENGTH_PX } from '../utils/movingMode';
+import { Simulation, getSimulationSnapshot } from '../utils/simulation';
+import { getSpeedLimitKmh, isOverLimit, toDisplaySpeed } from '../utils/enforcement';
+
+// Drawn sizes in pixels (stylised: lanes are stretched vertically)
+const VEHICLE_SHAPES: Record<VehicleClass, { length: number; width: number }> = {
+  motorcycle: { length: 18, width: 8 },
+  car: { length: 40, width: 20 },
+  van: { length: 48, width: 24 },
+  truck: { length: 100, width: 28 },
+};
 
 interface HighwaySceneProps {
-  cars: Car[];
+  // The engine owns all motion; every animation frame draws its latest state
+  simulation: Simulation;
   isRadarActive: boolean;
+  tracks: Track[]; // Drawn on the car whose return the track last took
+  enforcement: EnforcementConfig; // Sign, lane limits and label units
+  canvasRef?: React.RefObject<HTMLCanvasElement | null>; // Lets the parent snapshot the scene
 }
 
-export const HighwayScene: React.FC<HighwaySceneProps> = ({ cars, isRadarActive }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+export const HighwayScene: React.FC<HighwaySceneProps> = ({ simulation, isRadarActive, tracks, enforcement, canvasRef: externalCanvasRef }) => {
+  const ownCanvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasRef = externalCanvasRef ?? ownCanvasRef;
   const animationFrameRef = useRef<number>(0);
-  
-  // We use a Map to track the continuous X position of cars by ID.
-  // This prevents cars from resetting to the start when React re-renders (e.g., speed change).
-  const carPositionsRef = useRef<Map<number, number>>(new Map());
-
-  // Initialize random positions for new cars
-  useEffect(() => {
-    cars.forEach(car => {
-      if (!carPositionsRef.current.has(car.id)) {
-        carPositionsRef.current.set(car.id, Math.random() * 800);
-      }
-    });
-  }, [cars]);
+  // Tracks change every measurement; read them from a ref so the animation loop is not re-bound
+  const tracksRef = useRef<Track[]>(tracks);
+  tracksRef.current = tracks;
+  const enforcementRef = useRef<EnforcementConfig>(enforcement);
+  enforcementRef.current = enforcement;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -30,6 +39,12 @@ export const HighwayScene: React.FC<HighwaySceneProps> = ({ cars, isRadarActive
     if (!ctx) return;
 
     const render = () => {
+      const snapshot = getSimulationSnapshot(simulation);
+      const { radar, patrol, patrolHeading } = simulation;
+      const simTimeMs = snapshot.timeS * 1000;
+      const enforcement = enforcementRef.current;
+      const displaySpeed = (kmh: number) => toDisplaySpeed(kmh, enforcement.unit);
+
       // Clear canvas
       ctx.fillStyle = '#334155'; // Dark Asphalt
       ctx.fillRect(0, 0, canvas.width, canvas.height);
@@ -59,77 +74,149 @@ export const HighwayScene: React.FC<HighwaySceneProps> = ({ cars, isRadarActive
       // Reset dash
       ctx.setLineDash([]);
 
-      // Draw Radar Station (Top Left)
-      const radarX = 100;
-      const radarY = 30;
+      // Radar platform: the roadside pole, or the front of the patrol car in moving mode
+      const toPixelY = (lateralM: number) => roadTop + lateralM * (roadHeight / (NUM_LANES * LANE_WIDTH_M));
+      const pose = snapshot.pose;
+      const radarX = pose.xM / METRES_PER_PIXEL;
+      const radarY = patrol.enabled ? toPixelY(pose.yM) : 30;
+
+      // Beam footprint: the two -3 dB edges, mapped from metres onto the (vertically stretched) lanes
+      if (isRadarActive) {
+        const reachM = 600 * METRES_PER_PIXEL;
+        ctx.fillStyle = 'rgba(34, 197, 94, 0.08)';
+        ctx.beginPath();
+        ctx.moveTo(radarX, radarY);
+        [-1, 1].forEach(side => {
+          const edgeRad = ((pose.aimAngleDeg + side * pose.beamwidthDeg / 2) * Math.PI) / 180;
+          ctx.lineTo(radarX + (pose.heading * reachM * Math.cos(edgeRad)) / METRES_PER_PIXEL, toPixelY(pose.yM + reachM * Math.sin(edgeRad)));
+        });
+        ctx.closePath();
+        ctx.fill();
+      }
       
-      // Pole
-      ctx.fillStyle = '#94a3b8';
-      ctx.fillRect(radarX - 2, radarY, 4, 30);
-      // Box
-      ctx.fillStyle = isRadarActive ? '#ef4444' : '#64748b';
-      ctx.fillRect(radarX - 15, radarY - 15, 30, 20);
-      // Speed Limit Sign
+      if (patrol.enabled) {
+        // Patrol car: black-and-white body with a light bar
+        const bodyX = radarX - (patrolHeading === 1 ? PATROL_CAR_LENGTH_PX : 0);
+        ctx.fillStyle = '#f8fafc';
+        ctx.fillRect(bodyX, radarY - 10, PATROL_CAR_LENGTH_PX, 20);
+        ctx.fillStyle = '#0f172a';
+        ctx.fillRect(bodyX + (patrolHeading === 1 ? 0 : 28), radarY - 10, 12, 20);
+        const flash = Math.floor(simTimeMs / 250) % 2 === 0;
+        ctx.fillStyle = flash ? '#ef4444' : '#3b82f6';
+        ctx.fillRect(bodyX + 16, radarY - 8, 4, 8);
+        ctx.fillStyle = flash ? '#3b82f6' : '#ef4444';
+        ctx.fillRect(bodyX + 16, radarY, 4, 8);
+      } else {
+        // Pole
+        ctx.fillStyle = '#94a3b8';
+        ctx.fillRect(radarX - 2, radarY, 4, 30);
+        // Box
+        ctx.fillStyle = isRadarActive ? '#ef4444' : '#64748b';
+        ctx.fillRect(radarX - 15, radarY - 15, 30, 20);
+      }
+
+      // Speed limit sign stays at the roadside
+      const signX = getStationaryPose(radar).xM / METRES_PER_PIXEL;
+      const signY = 30;
       ctx.fillStyle = '#ffffff';
-      ctx.fillRect(radarX + 50, radarY - 20, 30, 40);
+      ctx.fillRect(signX + 50, signY - 20, 30, 40);
       ctx.strokeStyle = '#ef4444';
       ctx.lineWidth = 3;
-      ctx.strokeRect(radarX + 50, radarY - 20, 30, 40);
+      ctx.strokeRect(signX + 50, signY - 20, 30, 40);
       ctx.fillStyle = '#000000';
       ctx.font = 'bold 12px sans-serif';
       ctx.textAlign = 'center';
-      ctx.fillText('100', radarX + 65, radarY + 5);
+      ctx.fillText(`${Math.round(displaySpeed(getSpeedLimitKmh(enforcement)))}`, signX + 65, signY + 5);
+      if (enforcement.unit === 'mph') {
+        ctx.font = 'bold 7px sans-serif';
+        ctx.fillText('MPH', signX + 65, signY + 15);
+      }
 
-      // --- Animation & Drawing Loop ---
-      
-      cars.forEach(car => {
-          // Get current position from Ref, fallback to car.x if needed
-          let currentX = carPositionsRef.current.get(car.id) ?? car.x;
-          
-          // Update Position based on INDIVIDUAL speed
-          // Scale factor: 0.03 pixels per km/h per frame
-          const pixelsPerFrame = (car.speedKmh * 0.03);
-          
-          currentX += pixelsPerFrame;
-          
-          // Loop around
-          if (currentX > canvas.width + 100) currentX = -100;
-          
-          // Save back to Ref
-          carPositionsRef.current.set(car.id, currentX);
+      // Lanes with their own limit are marked at the road entry
+      ctx.font = 'bold 10px sans-serif';
+      ctx.textAlign = 'left';
+      enforcement.laneLimitsKmh.forEach((limit, lane) => {
+        if (limit === null) return;
+        ctx.fillStyle = 'rgba(239, 68, 68, 0.8)';
+        ctx.fillText(`${Math.round(displaySpeed(limit))}`, 6, roadTop + lane * laneHeight + 14);
+      });
+
+      // --- Drawing Loop ---
+
+      snapshot.cars.forEach(car => {
+          const currentX = car.x;
 
           // Calculate Y
           const carY = roadTop + (car.lane * laneHeight) + (laneHeight / 2);
           
-          // Draw Car Body
+          // Draw Vehicle Body (shape depends on class)
+          const shape = VEHICLE_SHAPES[car.vehicleClass];
+          const top = carY - shape.width / 2;
+          const roundedBody = (x: number, w: number, radius: number) => {
+            if (typeof ctx.roundRect === 'function') {
+              ctx.beginPath();
+              ctx.roundRect(x, top, w, shape.width, radius);
+              ctx.fill();
+            } else {
+              ctx.fillRect(x, top, w, shape.width);
+            }
+          };
+
+          // Shapes are drawn facing +x; mirror them for right-to-left traffic
+          ctx.save();
+          if (car.direction === -1) {
+            ctx.translate(2 * currentX + shape.length, 0);
+            ctx.scale(-1, 1);
+          }
           ctx.fillStyle = car.color;
-          
-          if (typeof ctx.roundRect === 'function') {
+          if (car.vehicleClass === 'truck') {
+            // Trailer, then a separate cab at the front
+            roundedBody(currentX, shape.length - 20, 2);
+            roundedBody(currentX + shape.length - 18, 18, 4);
+            ctx.fillStyle = '#1e293b';
+            ctx.fillRect(currentX + shape.length - 7, top + 3, 4, shape.width - 6); // Windshield
+          } else if (car.vehicleClass === 'motorcycle') {
+            roundedBody(currentX, shape.length, 4);
+            ctx.fillStyle = '#1e293b';
             ctx.beginPath();
-            ctx.roundRect(currentX, carY - 10, 40, 20, 5);
+            ctx.arc(currentX + shape.length / 2, carY, 3, 0, Math.PI * 2); // Rider helmet
             ctx.fill();
           } else {
-             ctx.fillRect(currentX, carY - 10, 40, 20);
+            roundedBody(currentX, shape.length, 5);
+            // Windows
+            ctx.fillStyle = '#1e293b';
+            ctx.fillRect(currentX + shape.length - 15, top + 2, 10, shape.width - 4); // Windshield
           }
+          ctx.restore();
 
-          // Windows
-          ctx.fillStyle = '#1e293b';
-          ctx.fillRect(currentX + 25, carY - 8, 10, 16); // Windshield
-
-          // Speed Label above car
-          ctx.fillStyle = '#ffffff';
+          // Speed Label above vehicle, red over the car's lane and class limit
+          ctx.fillStyle = isOverLimit(enforcement, car.speedKmh, car.lane, car.vehicleClass) ? '#f87171' : '#ffffff';
           ctx.font = '10px monospace';
           ctx.textAlign = 'center';
-          ctx.fillText(`${car.speedKmh}`, currentX + 20, carY - 15);
+          ctx.fillText(`${Math.round(displaySpeed(car.speedKmh))}`, currentX + shape.length / 2, top - 5);
+
+          // Track overlay: brackets round the car, solid once confirmed
+          tracksRef.current.filter(track => track.carId === car.id).forEach((track, index) => {
+            const confirmed = track.status === 'confirmed';
+            ctx.strokeStyle = confirmed ? '#a3e635' : '#94a3b8';
+            ctx.lineWidth = 1.5;
+            ctx.setLineDash(confirmed ? [] : [3, 3]);
+            ctx.strokeRect(currentX - 3 - index * 3, top - 3 - index * 3, shape.length + 6 + index * 6, shape.width + 6 + index * 6);
+            ctx.setLineDash([]);
+            ctx.fillStyle = confirmed ? '#a3e635' : '#94a3b8';
+            ctx.font = '9px monospace';
+            ctx.fillText(`#${track.id} ${displaySpeed(Math.abs(track.speedKmh)).toFixed(1)}`, currentX + shape.length / 2, top + shape.width + 12 + index * 10);
+          });
 
           // Radar Waves Visualization
           const dx = currentX - radarX;
           const dy = carY - radarY;
           const dist = Math.sqrt(dx * dx + dy * dy);
 
-          // Simple beam logic: active, in front of radar, within range
-          if (isRadarActive && currentX > radarX && dist < 600) {
-             const opacity = Math.max(0, 1 - dist / 600);
+          // Beam logic: active, inside the antenna pattern, within range
+          const los = calculateLineOfSight(currentX * METRES_PER_PIXEL, car.lane, pose, car.direction, car.speedKmh);
+          if (isRadarActive && los.beamGain > 0.1 && dist < 600) {
+             const opacity = Math.max(0, 1 - dist / 600) * los.beamGain;
 
              // Draw beam (Tx)
              const gradient = ctx.createLinearGradient(radarX, radarY, currentX, carY);
@@ -146,7 +233,7 @@ export const HighwayScene: React.FC<HighwaySceneProps> = ({ cars, isRadarActive
              // Draw "Reflected" waves (Rx - Doppler visual)
              // Only if moving
              if (car.speedKmh > 0) {
-                const time = Date.now() / 150; 
+                const time = simTimeMs / 150;
                 // Draw a few arcs radiating from the car back towards the radar
                 ctx.strokeStyle = `rgba(255, 255, 255, ${opacity * 0.8})`;
                 ctx.lineWidth = 1.5;
@@ -173,7 +260,7 @@ export const HighwayScene: React.FC<HighwaySceneProps> = ({ cars, isRadarActive
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [cars, isRadarActive]); // Re-bind if cars array changes (length/speeds)
+  }, [simulation, isRadarActive]);
 
   return (
     <div className="relative w-full h-64 bg-slate-800 rounded-lg overflow-hidden border border-slate-700 shadow-xl">
@@ -184,7 +271,7 @@ export const HighwayScene: React.FC<HighwaySceneProps> = ({ cars, isRadarActive
         className="w-full h-full block"
       />
       <div className="absolute top-2 right-2 bg-black/50 text-xs px-2 py-1 rounded text-white pointer-events-none select-none">
-        Multi-Target Tracking Active
+        Multi-Target Tracking Active: {tracks.filter(t => t.status === 'confirmed').length} confirmed
       </div>
     </div>
   );
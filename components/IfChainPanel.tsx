@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+import { Cpu } from 'lucide-react';
+import { IfChainConfig, IfChainStage, RadarParams } from '../types';
+import { ADC_BITS_RANGE, CIC_STAGES_RANGE, IF_CHAIN_STAGE_LABELS, IfChainReport, calculateIfChainResponseDb } from '../utils/ifChain';
+
+interface IfChainPanelProps {
+  config: IfChainConfig;
+  onConfigChange: (config: IfChainConfig) => void;
+  radar: RadarParams; // IF and ADC rate live on the radar
+  onRadarChange: (patch: Partial<RadarParams>) => void;
+  report?: IfChainReport; // Latest frame; absent while the chain is off
+  targetFreqHz: number | null; // Doppler of the measured target, for the droop readout
+}
+
+// Bottom of the stage spectra
+const STAGE_FLOOR_DB = -140;
+
+const formatHz = (hz: number) => {
+  const abs = Math.abs(hz);
+  if (abs >= 1e6) return `${(hz / 1e6).toFixed(abs >= 1e8 ? 1 : 3)} MHz`;
+  if (abs >= 1e3) return `${(hz / 1e3).toFixed(1)} kHz`;
+  return `${hz.toFixed(0)} Hz`;
+};
+
+export const IfChainPanel: React.FC<IfChainPanelProps> = ({ config, onConfigChange, radar, onRadarChange, report, targetFreqHz }) => {
+  const [stage, setStage] = useState<IfChainStage>('adc');
+  const set = (patch: Partial<IfChainConfig>) => onConfigChange({ ...config, ...patch });
+  const snapshot = report?.stages.find(s => s.stage === stage);
+  const plan = report?.plan;
+  const droopDb = plan && targetFreqHz !== null ? calculateIfChainResponseDb(plan, config, targetFreqHz) : null;
+  const inputClass = 'w-16 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-sky-300 outline-none';
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <Cpu size={18} className="text-sky-400"/> IF Receive Chain
+        </h2>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input type="checkbox" checked={config.enabled} onChange={(e) => set({ enabled: e.target.checked })} />
+          Simulate
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] text-slate-500 mb-3">
+        <label className="flex items-center gap-1">
+          IF
+          <input
+            type="number" min="0" max="1000" step="1" value={radar.intermediateFreqMHz}
+            onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v) && v >= 0) onRadarChange({ intermediateFreqMHz: v }); }}
+            className={inputClass}
+          />
+          MHz
+        </label>
+        <label className="flex items-center gap-1">
+          ADC
+          <input
+            type="number" min="1" max="10000" step="1" value={radar.adcSamplingRateMHz}
+            onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v) && v >= 1) onRadarChange({ adcSamplingRateMHz: v }); }}
+            className={inputClass}
+          />
+          MS/s
+        </label>
+        <label className="flex items-center gap-1">
+          Bits
+          <input
+            type="number" min={ADC_BITS_RANGE[0]} max={ADC_BITS_RANGE[1]} step="1" value={config.adcBits}
+            onChange={(e) => { const v = parseInt(e.target.value); if (!isNaN(v)) set({ adcBits: Math.min(Math.max(v, ADC_BITS_RANGE[0]), ADC_BITS_RANGE[1]) }); }}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          Gain
+          <input
+            type="number" min="-40" max="60" step="1" value={config.ifGainDb}
+            onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) set({ ifGainDb: v }); }}
+            className={inputClass}
+          />
+          dB
+        </label>
+        <label className="flex items-center gap-1">
+          CIC order
+          <input
+            type="number" min={CIC_STAGES_RANGE[0]} max={CIC_STAGES_RANGE[1]} step="1" value={config.cicStages}
+            onChange={(e) => { const v = parseInt(e.target.value); if (!isNaN(v)) set({ cicStages: Math.min(Math.max(v, CIC_STAGES_RANGE[0]), CIC_STAGES_RANGE[1]) }); }}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-slate-300">
+          <input type="checkbox" checked={config.firCompensation} onChange={(e) => set({ firCompensation: e.target.checked })} />
+          Droop compensation
+        </label>
+      </div>
+
+      {!report || !plan ? (
+        <p className="text-[10px] text-slate-500 leading-tight">
+          Off: the baseband is synthesized directly at {radar.basebandSampleRateHz} Hz. When on, every frame is sampled
+          at IF, mixed down by an NCO and decimated by a CIC and an FIR; that is about
+          {' '}{((radar.adcSamplingRateMHz * 1e6 * radar.fftSize) / radar.basebandSampleRateHz / 1e6).toFixed(1)} M samples per frame, so the display slows down.
+        </p>
+      ) : (
+        <>
+          <div className="text-[10px] font-mono text-slate-400 mb-3">
+            ADC {formatHz(plan.adcRateHz)} → NCO {formatHz(plan.ncoHz)} → CIC ÷{plan.cicDecimation} → FIR ÷{plan.firDecimation} → {formatHz(radar.basebandSampleRateHz)}
+          </div>
+
+          <div className="flex gap-1 mb-2">
+            {(Object.keys(IF_CHAIN_STAGE_LABELS) as IfChainStage[]).map(s => (
+              <button
+                key={s}
+                onClick={() => setStage(s)}
+                className={`px-2 py-1 rounded text-[10px] border ${stage === s ? 'bg-sky-500/20 border-sky-500/60 text-sky-300' : 'bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+              >
+                {IF_CHAIN_STAGE_LABELS[s]}
+              </button>
+            ))}
+          </div>
+
+          {snapshot && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+              <div className="h-40">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={snapshot.waveform}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                    <XAxis dataKey="timeUs" type="number" domain={['dataMin', 'dataMax']} tick={{fill: '#64748b', fontSize: 10}} tickFormatter={(v: number) => v.toFixed(1)} label={{ value: 'µs', position: 'insideBottomRight', fill: '#64748b', fontSize: 10 }} />
+                    <YAxis width={40} tick={{fill: '#64748b', fontSize: 10}} tickFormatter={(v: number) => v.toFixed(2)} />
+                    <Tooltip contentStyle={{ background: '#020617', border: '1px solid #334155', fontSize: 11 }} formatter={(v: number) => v.toFixed(4)} labelFormatter={(v: number) => `${v.toFixed(2)} µs`} />
+                    <Line type="linear" dataKey="re" name={snapshot.isComplex ? 'I' : 'x'} stroke="#38bdf8" strokeWidth={1} dot={false} isAnimationActive={false} />
+                    {snapshot.isComplex && <Line type="linear" dataKey="im" name="Q" stroke="#a78bfa" strokeWidth={1} dot={false} isAnimationActive={false} />}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="h-40">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={snapshot.spectrum}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                    <XAxis dataKey="freqHz" type="number" domain={['dataMin', 'dataMax']} tick={{fill: '#64748b', fontSize: 10}} tickFormatter={formatHz} />
+                    <YAxis domain={[STAGE_FLOOR_DB, 0]} allowDataOverflow width={32} tick={{fill: '#64748b', fontSize: 10}} />
+                    <Tooltip contentStyle={{ background: '#020617', border: '1px solid #334155', fontSize: 11 }} formatter={(v: number) => `${v.toFixed(1)} dBFS`} labelFormatter={(v: number) => formatHz(v)} />
+                    <Line type="stepAfter" dataKey="db" name="Level" stroke="#10b981" strokeWidth={1} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
+          <table className="w-full text-xs font-mono">
+            <tbody>
+              <tr className="border-b border-slate-900 text-slate-300">
+                <td className="py-1 text-slate-500">ADC input level</td>
+                <td className="text-right">{report.adcRmsDbfs.toFixed(1)} dBFS</td>
+              </tr>
+              <tr className="border-b border-slate-900 text-slate-300">
+                <td className="py-1 text-slate-500">Clipped samples</td>
+                <td className={`text-right ${report.clippedFraction > 0 ? 'text-red-400' : ''}`}>{(report.clippedFraction * 100).toFixed(3)} %</td>
+              </tr>
+              <tr className="border-b border-slate-900 text-slate-300">
+                <td className="py-1 text-slate-500">SNR loss: quantisation (Δ²/12)</td>
+                <td className="text-right">{report.quantisationLossDb.toFixed(2)} dB</td>
+              </tr>
+              <tr className="border-b border-slate-900 text-slate-300">
+                <td className="py-1 text-slate-500">SNR loss: filter droop at {targetFreqHz !== null ? formatHz(targetFreqHz) : 'target'}</td>
+                <td className="text-right">{droopDb !== null ? `${(-droopDb).toFixed(2)} dB` : '—'}</td>
+              </tr>
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
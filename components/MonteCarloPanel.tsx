@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { Dices, Play, Square, Download } from 'lucide-react';
+import { SpeedUnit, SweepConfig, SweepParameter } from '../types';
+import { DEFAULT_SWEEP_CONFIG, MAX_SWEEP_STEPS, MAX_TRIALS_PER_POINT, SWEEP_FFT_SIZE_RANGE, SWEEP_PARAMETERS, SweepProgress, getSweepValues, startSweep, sweepToCsv } from '../utils/monteCarlo';
+import { MeasurementSettings } from '../utils/pipeline';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+import { SPEED_UNIT_LABELS, fromDisplaySpeed, toDisplaySpeed } from '../utils/enforcement';
+
+// The sweep measures with the live settings
+interface MonteCarloPanelProps extends MeasurementSettings {
+  unit: SpeedUnit; // Errors and trial speeds are shown in it; the CSV stays in km/h
+  ifChainEnabled: boolean; // The live reading goes through the IF chain, which the trials skip
+}
+
+export const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ unit, ifChainEnabled, radar, cfar, filter, estimator, disturbances, selectionMode, directionFilter }) => {
+  const settings: MeasurementSettings = { radar, cfar, filter, estimator, disturbances, selectionMode, directionFilter };
+  const [config, setConfig] = useState<SweepConfig>(DEFAULT_SWEEP_CONFIG);
+  const [result, setResult] = useState<{ config: SweepConfig; progress: SweepProgress } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  const set = (patch: Partial<SweepConfig>) => setConfig(prev => ({ ...prev, ...patch }));
+  const selectParameter = (parameter: SweepParameter) => {
+    const spec = SWEEP_PARAMETERS[parameter];
+    set({ parameter, start: spec.defaultStart, stop: spec.defaultStop, steps: spec.defaultSteps });
+  };
+  const run = () => {
+    const sweepConfig = config;
+    cancelRef.current?.();
+    setIsRunning(true);
+    cancelRef.current = startSweep(sweepConfig, settings, progress => {
+      setResult({ config: sweepConfig, progress });
+      if (progress.done) setIsRunning(false);
+    });
+  };
+  const stop = () => {
+    cancelRef.current?.();
+    setIsRunning(false);
+  };
+  const exportCsv = () => {
+    if (!result) return;
+    downloadBlob(new Blob([sweepToCsv(result.config, result.progress.points)], { type: 'text/csv' }), `monte-carlo-${fileTimestamp()}.csv`);
+  };
+
+  const pointCount = getSweepValues(config).length;
+  const isWindowSweep = config.parameter === 'windowType';
+  const inputClass = 'w-16 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-sky-300 outline-none disabled:opacity-40';
+  const unitLabel = SPEED_UNIT_LABELS[unit];
+  const error = (kmh: number) => (isNaN(kmh) ? '—' : toDisplaySpeed(kmh, unit).toFixed(2));
+  const chartData = result?.progress.points.map(p => ({
+    label: p.label,
+    mean: toDisplaySpeed(p.meanErrorKmh, unit),
+    rms: toDisplaySpeed(p.rmsErrorKmh, unit),
+    p95: toDisplaySpeed(p.p95ErrorKmh, unit),
+    miss: p.missRate * 100,
+    wrong: p.falseRate * 100,
+  })) ?? [];
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <Dices size={18} className="text-sky-400"/> Monte Carlo Accuracy
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={isRunning ? stop : run}
+            disabled={!isRunning && pointCount === 0}
+            className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] disabled:opacity-40 ${isRunning ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-sky-600/80 text-white hover:bg-sky-600'}`}
+          >
+            {isRunning ? <Square size={12}/> : <Play size={12}/>} {isRunning ? 'Stop' : 'Run'}
+          </button>
+          <button onClick={exportCsv} disabled={!result || result.progress.points.length === 0} className="flex items-center gap-1 px-2 py-1 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 text-[10px] disabled:opacity-40">
+            <Download size={12}/> CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] text-slate-500 mb-3">
+        <select
+          value={config.parameter}
+          onChange={(e) => selectParameter(e.target.value as SweepParameter)}
+          className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+        >
+          {(Object.keys(SWEEP_PARAMETERS) as SweepParameter[]).map(p => (
+            <option key={p} value={p}>{SWEEP_PARAMETERS[p].label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1">
+          From
+          <input type="number" value={config.start} disabled={isWindowSweep} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) set({ start: v }); }} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-1">
+          to
+          <input type="number" value={config.stop} disabled={isWindowSweep} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) set({ stop: v }); }} className={inputClass} />
+          {SWEEP_PARAMETERS[config.parameter].unit}
+        </label>
+        <label className="flex items-center gap-1">
+          Steps
+          <input
+            type="number" min="1" max={MAX_SWEEP_STEPS} step="1" value={config.steps}
+            disabled={isWindowSweep || config.parameter === 'fftSize'}
+            onChange={(e) => { const v = parseInt(e.target.value); if (!isNaN(v)) set({ steps: Math.min(Math.max(v, 1), MAX_SWEEP_STEPS) }); }}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          Trials/point
+          <input
+            type="number" min="1" max={MAX_TRIALS_PER_POINT} step="50" value={config.trialsPerPoint}
+            onChange={(e) => { const v = parseInt(e.target.value); if (!isNaN(v)) set({ trialsPerPoint: Math.min(Math.max(v, 1), MAX_TRIALS_PER_POINT) }); }}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          Speeds
+          <input type="number" min="0" value={Number(toDisplaySpeed(config.minSpeedKmh, unit).toFixed(1))} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v) && v >= 0) set({ minSpeedKmh: fromDisplaySpeed(v, unit) }); }} className={inputClass} />
+          –
+          <input type="number" min="0" value={Number(toDisplaySpeed(config.maxSpeedKmh, unit).toFixed(1))} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v) && v >= 0) set({ maxSpeedKmh: fromDisplaySpeed(v, unit) }); }} className={inputClass} />
+          {unitLabel}
+        </label>
+        <label className="flex items-center gap-1">
+          Seed
+          <input type="number" step="1" value={config.seed} onChange={(e) => { const v = parseInt(e.target.value); if (!isNaN(v)) set({ seed: v }); }} className={inputClass} />
+        </label>
+      </div>
+
+      <p className="text-[10px] text-slate-500 leading-tight mb-3">
+        {pointCount} points × {config.trialsPerPoint} trials
+        {config.parameter === 'fftSize' && ` (FFT sizes ${SWEEP_FFT_SIZE_RANGE[0]}–${SWEEP_FFT_SIZE_RANGE[1]})`}. Each trial puts one random vehicle 20–150 m down the road and
+        measures it with the current window, CFAR, filters, estimator and target selection (fixed radar, IF chain off).
+        Error = |measured| − |true closing speed|, over the trials where the selected detection is that vehicle.
+      </p>
+      {ifChainEnabled && (
+        <div className="bg-amber-900/20 border border-amber-500/50 p-2 mb-3 rounded text-amber-400 text-[10px] font-mono">
+          The live reading goes through the IF chain but the trials do not (a frame through it takes hundreds of milliseconds):
+          ADC quantisation and decimator droop are not in these results.
+        </div>
+      )}
+
+      {result && (
+        <div className="mb-3">
+          <div className="flex justify-between text-[10px] font-mono text-slate-400 mb-1">
+            <span>{SWEEP_PARAMETERS[result.config.parameter].label}</span>
+            <span>
+              {result.progress.completedTrials} / {result.progress.totalTrials} trials
+              {!result.progress.done && !isRunning && ' (stopped)'}
+            </span>
+          </div>
+          <div className="h-1.5 bg-slate-800 rounded overflow-hidden">
+            <div className="h-full bg-sky-500" style={{ width: `${(100 * result.progress.completedTrials) / Math.max(result.progress.totalTrials, 1)}%` }} />
+          </div>
+        </div>
+      )}
+
+      {chartData.length > 0 && result && (
+        <>
+          <div className="h-56 mb-3">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                <XAxis dataKey="label" tick={{fill: '#64748b', fontSize: 10}} />
+                <YAxis yAxisId="kmh" width={36} tick={{fill: '#64748b', fontSize: 10}} label={{ value: unitLabel, angle: -90, position: 'insideLeft', fill: '#64748b', fontSize: 10 }} />
+                <YAxis yAxisId="rate" orientation="right" domain={[0, 100]} width={32} tick={{fill: '#64748b', fontSize: 10}} label={{ value: '%', angle: 90, position: 'insideRight', fill: '#64748b', fontSize: 10 }} />
+                <Tooltip contentStyle={{ background: '#020617', border: '1px solid #334155', fontSize: 11 }} formatter={(v: number) => isNaN(v) ? '—' : v.toFixed(2)} />
+                <Legend wrapperStyle={{ fontSize: 10 }} />
+                <Line yAxisId="kmh" type="monotone" dataKey="mean" name={`Mean error (${unitLabel})`} stroke="#38bdf8" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+                <Line yAxisId="kmh" type="monotone" dataKey="rms" name={`RMS error (${unitLabel})`} stroke="#10b981" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+                <Line yAxisId="kmh" type="monotone" dataKey="p95" name={`95th pct |error| (${unitLabel})`} stroke="#eab308" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+                <Line yAxisId="rate" type="monotone" dataKey="miss" name="Missed (%)" stroke="#64748b" strokeDasharray="4 2" dot={{ r: 2 }} isAnimationActive={false} />
+                <Line yAxisId="rate" type="monotone" dataKey="wrong" name="Wrong target (%)" stroke="#ef4444" strokeDasharray="4 2" dot={{ r: 2 }} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-slate-500 text-[10px] text-right">
+                <th className="text-left font-normal py-1">{SWEEP_PARAMETERS[result.config.parameter].label}</th>
+                <th className="font-normal">Mean</th>
+                <th className="font-normal">RMS</th>
+                <th className="font-normal">P95</th>
+                <th className="font-normal">Missed</th>
+                <th className="font-normal">Wrong</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.progress.points.map(p => (
+                <tr key={p.label} className="border-b border-slate-900 text-slate-300 text-right">
+                  <td className="py-1 text-left text-slate-400">{p.label}</td>
+                  <td>{error(p.meanErrorKmh)}</td>
+                  <td>{error(p.rmsErrorKmh)}</td>
+                  <td>{error(p.p95ErrorKmh)}</td>
+                  <td>{(p.missRate * 100).toFixed(1)} %</td>
+                  <td className={p.falseRate > 0 ? 'text-red-400' : ''}>{(p.falseRate * 100).toFixed(1)} %</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,94 +1,58 @@
 import React from 'react';
-import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, Tooltip, ReferenceLine, CartesianGrid } from 'recharts';
+import { ResponsiveContainer, ComposedChart, Area, Line, XAxis, YAxis, Tooltip, ReferenceLine, ReferenceDot, CartesianGrid } from 'recharts';
 import { Activity } from 'lucide-react';
-import { SimulationState } from '../types';
-import { calculateDopplerShift, calculateSpeedFromShift } from '../utils/physics';
+import { EnforcementConfig, SimulationState } from '../types';
+import { WINDOW_LABELS } from '../utils/dsp';
+import { SPEED_UNIT_LABELS, getSpeedLimitKmh, toDisplaySpeed } from '../utils/enforcement';
+
+// Bottom of the dB axis; the receiver noise floor sits well above this for N <= 2048
+const SPECTRUM_FLOOR_DB = -100;
 
 interface OscilloscopeProps {
   simState: SimulationState;
+  enforcement: EnforcementConfig; // Speed axis unit and the limit lines
 }
 
-export const Oscilloscope: React.FC<OscilloscopeProps> = ({ simState }) => {
-  const { cars, radar, speedResolution, maxSpeed } = simState;
-
-  // Generate REALISTIC discrete FFT bins
-  const generateDiscreteSpectrum = () => {
-    // Number of positive frequency bins = N / 2
-    const numBins = radar.fftSize / 2;
-    // Resolution in Hz per bin
-    const freqRes = radar.basebandSampleRateHz / radar.fftSize;
-    
-    // Initialize empty bins
-    // We limit display to a reasonable range for visualization (e.g. up to 250km/h or full range if lower)
-    // If we showed all 1024 bins, the bars would be too thin to see "binning" effect nicely in this small chart.
-    // However, to show the *physics* of binning, we must compute it on the real grid.
-    
-    // Let's generate the data array. To keep Recharts performant, if bins > 200, we might need to be careful,
-    // but standard area charts handle ~500 points okay. 
-    
-    const data = new Array(numBins).fill(0).map((_, i) => ({
-      binIndex: i,
-      freq: i * freqRes,
-      speed: calculateSpeedFromShift(i * freqRes, radar.frequencyGHz),
-      amp: 2 + Math.random() * 2 // Noise floor
-    }));
-
-    // Add signal energy
-    cars.forEach(car => {
-        if (car.speedKmh > 0) {
-            const shiftHz = calculateDopplerShift(car.speedKmh, radar.frequencyGHz);
-            
-            // Aliasing check
-            const maxFreq = radar.basebandSampleRateHz / 2;
-            let effectiveFreq = Math.abs(shiftHz);
-            
-            // Simple aliasing wrapping (if freq > Nyquist, it wraps back)
-            while (effectiveFreq > maxFreq) {
-                effectiveFreq = Math.abs(effectiveFreq - radar.basebandSampleRateHz);
-            }
-
-            // Find bin
-            const exactBin = effectiveFreq / freqRes;
-            const binIndex = Math.round(exactBin);
-
-            if (binIndex >= 0 && binIndex < numBins) {
-                // Main lobe
-                data[binIndex].amp += 100;
-                // Spectral leakage (simplified windowing effect)
-                if (binIndex > 0) data[binIndex - 1].amp += 30;
-                if (binIndex < numBins - 1) data[binIndex + 1].amp += 30;
-            }
-        }
-    });
-
-    // 0Hz DC Component (Static Clutter)
-    data[0].amp += 150; 
-    data[1].amp += 50;
+export const Oscilloscope: React.FC<OscilloscopeProps> = ({ simState, enforcement }) => {
+  const { radar, speedResolution, maxSpeed, spectrum, detections, unfilteredAmps, timeS } = simState;
 
-    // Filter for display: Only show up to a reasonable visual limit (e.g. 300km/h) unless range is smaller
-    // This ensures we can see the bins clearly.
-    const visualCutoffSpeed = Math.max(200, maxSpeed * 0.8);
-    return data.filter(d => d.speed < visualCutoffSpeed);
-  };
-
-  const spectrumData = generateDiscreteSpectrum();
+  // Filter for display: Only show up to a reasonable visual limit (e.g. 300km/h) unless range is smaller
+  // This ensures we can see the bins clearly.
+  const visualCutoffSpeed = Math.max(200, maxSpeed * 0.8);
+  const { unit } = enforcement;
+  const unitLabel = SPEED_UNIT_LABELS[unit];
+  const spectrumData = spectrum
+    .map((bin, index) => ({ ...bin, unfiltered: unfilteredAmps?.[index] }))
+    .filter(d => Math.abs(d.speed) < visualCutoffSpeed)
+    .map(d => ({ ...d, speed: toDisplaySpeed(d.speed, unit) }));
+  const visibleDetections = detections.filter(d => Math.abs(d.speed) < visualCutoffSpeed);
+  const isComplex = radar.receiverType === 'iq';
   const tickFormatter = (val: number) => val.toFixed(0);
+  // The road limit, plus any lower lane or class limits
+  const roadLimit = toDisplaySpeed(getSpeedLimitKmh(enforcement), unit);
+  const otherLimits = [...new Set([
+    ...enforcement.laneLimitsKmh.flatMap(limit => (limit === null ? [] : [limit])),
+    ...Object.values(enforcement.classLimitsKmh),
+  ].map(kmh => toDisplaySpeed(kmh, unit)))].filter(limit => limit !== roadLimit);
+  const limitSigns = isComplex ? [1, -1] : [1];
 
   return (
     <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-lg flex flex-col h-full">
       <div className="bg-slate-800/50 p-3 border-b border-slate-800 flex justify-between items-center">
         <div className="flex items-center gap-2">
            <Activity size={16} className="text-emerald-500" />
-           <span className="text-xs font-bold text-slate-300 uppercase tracking-wider">Baseband Spectrum (FFT)</span>
+           <span className="text-xs font-bold text-slate-300 uppercase tracking-wider">Baseband Spectrum (FFT{isComplex ? ', I/Q' : ''})</span>
         </div>
         <div className="flex gap-4 text-[10px] font-mono text-slate-500">
-           <span>Bin Width: <span className="text-slate-300">{speedResolution.toFixed(2)} km/h</span></span>
+           <span>Window: <span className="text-slate-300">{WINDOW_LABELS[radar.windowType]}</span></span>
+           <span>Bin Width: <span className="text-slate-300">{toDisplaySpeed(speedResolution, unit).toFixed(2)} {unitLabel}</span></span>
+           <span>t: <span className="text-slate-300">{timeS.toFixed(2)} s</span></span>
         </div>
       </div>
       
       <div className="flex-grow relative min-h-[250px] p-2">
         <ResponsiveContainer width="100%" height="100%">
-          <AreaChart data={spectrumData}>
+          <ComposedChart data={spectrumData}>
             <defs>
               <linearGradient id="fftGradient" x1="0" y1="0" x2="0" y2="1">
                 <stop offset="5%" stopColor="#10b981" stopOpacity={0.9}/>
@@ -99,13 +63,19 @@ export const Oscilloscope: React.FC<OscilloscopeProps> = ({ simState }) => {
             <XAxis 
               dataKey="speed" 
               type="number" 
-              domain={[0, 'auto']}
+              domain={isComplex ? ['dataMin', 'dataMax'] : [0, 'auto']}
               tick={{fill: '#64748b', fontSize: 10}}
               tickFormatter={tickFormatter}
-              label={{ value: 'Speed (km/h)', position: 'insideBottom', offset: -5, fill: '#64748b', fontSize: 10 }}
+              label={{ value: isComplex ? `Radial Speed (${unitLabel}, + approaching)` : `Speed (${unitLabel})`, position: 'insideBottom', offset: -5, fill: '#64748b', fontSize: 10 }}
               allowDataOverflow={false}
             />
-            <YAxis hide domain={[0, 180]} />
+            <YAxis 
+              domain={[SPECTRUM_FLOOR_DB, 0]}
+              allowDataOverflow
+              width={32}
+              tick={{fill: '#64748b', fontSize: 10}}
+              label={{ value: 'dBFS', angle: -90, position: 'insideLeft', fill: '#64748b', fontSize: 10 }}
+            />
             <Tooltip 
               cursor={{stroke: '#fff', strokeWidth: 1, strokeDasharray: '3 3'}}
               content={({ active, payload }) => {
@@ -115,8 +85,10 @@ export const Oscilloscope: React.FC<OscilloscopeProps> = ({ simState }) => {
                     <div className="bg-slate-950 border border-slate-700 p-2 rounded shadow-xl text-xs font-mono">
                       <div className="text-emerald-400 font-bold mb-1">Bin {data.binIndex}</div>
                       <div>Freq:  {data.freq.toFixed(1)} Hz</div>
-                      <div>Speed: {data.speed.toFixed(1)} km/h</div>
-                      <div>Amp:   {data.amp.toFixed(0)} dB</div>
+                      <div>Speed: {data.speed.toFixed(1)} {unitLabel}</div>
+                      <div>Amp:   {data.amp.toFixed(1)} dBFS</div>
+                      {data.unfiltered !== undefined && <div className="text-slate-400">Raw:   {data.unfiltered.toFixed(1)} dBFS</div>}
+                      {data.threshold !== undefined && <div className="text-amber-400">CFAR:  {data.threshold.toFixed(1)} dBFS</div>}
                     </div>
                   );
                 }
@@ -130,16 +102,51 @@ export const Oscilloscope: React.FC<OscilloscopeProps> = ({ simState }) => {
                 stroke="#10b981" 
                 strokeWidth={2}
                 fill="url(#fftGradient)" 
+                baseValue={SPECTRUM_FLOOR_DB}
+                isAnimationActive={false} 
+            />
+            {/* Before the clutter filters */}
+            {unfilteredAmps && (
+              <Line 
+                  type="stepAfter" 
+                  dataKey="unfiltered" 
+                  stroke="#94a3b8" 
+                  strokeWidth={1}
+                  strokeOpacity={0.5}
+                  dot={false}
+                  isAnimationActive={false} 
+              />
+            )}
+            {/* CFAR adaptive threshold */}
+            <Line 
+                type="stepAfter" 
+                dataKey="threshold" 
+                stroke="#f59e0b" 
+                strokeWidth={1}
+                strokeDasharray="4 2"
+                dot={false}
+                connectNulls={false}
                 isAnimationActive={false} 
             />
-            {/* Draw speed limit line if within view */}
-            <ReferenceLine x={100} stroke="#ef4444" strokeDasharray="3 3" label={{ value: 'LIMIT', fill: 'red', fontSize: 10, position: 'insideTopRight' }} />
-          </AreaChart>
+            {visibleDetections.map(d => (
+              <ReferenceDot key={d.binIndex} x={toDisplaySpeed(d.speed, unit)} y={d.amp} r={3} fill="#f59e0b" stroke="#0f172a" />
+            ))}
+            {/* Draw speed limit lines if within view */}
+            {limitSigns.map(sign => (
+              <ReferenceLine key={sign} x={sign * roadLimit} stroke="#ef4444" strokeDasharray="3 3" label={{ value: 'LIMIT', fill: 'red', fontSize: 10, position: sign > 0 ? 'insideTopRight' : 'insideTopLeft' }} />
+            ))}
+            {limitSigns.flatMap(sign => otherLimits.map(limit => (
+              <ReferenceLine key={`${sign}/${limit}`} x={sign * limit} stroke="#ef4444" strokeOpacity={0.5} strokeDasharray="1 3" label={{ value: limit.toFixed(0), fill: '#f87171', fontSize: 9, position: sign > 0 ? 'insideTopRight' : 'insideTopLeft' }} />
+            )))}
+            {isComplex && (
+              <ReferenceLine x={0} stroke="#64748b" label={{ value: '◀ receding | approaching ▶', fill: '#64748b', fontSize: 9, position: 'insideTop' }} />
+            )}
+          </ComposedChart>
         </ResponsiveContainer>
         
         {/* Overlay showing Nyquist Limit if visible */}
         <div className="absolute top-2 right-2 text-[10px] text-slate-500 bg-black/40 px-2 py-1 rounded">
-           Max Range: {maxSpeed.toFixed(0)} km/h
+           Max Range: {toDisplaySpeed(maxSpeed, unit).toFixed(0)} {unitLabel}
         </div>
       </div>
     </div>
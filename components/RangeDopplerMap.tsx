@@ -0,0 +1,107 @@
+import React, { useEffect, useRef } from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { RangeDopplerMap as RangeDopplerMapData, SpeedUnit } from '../types';
+import { sampleColormap } from '../utils/colormap';
+import { SPEED_UNIT_LABELS, toDisplaySpeed } from '../utils/enforcement';
+
+// Colour scale spans this many dB above the noise floor (the median cell)
+const DYNAMIC_RANGE_DB = 50;
+
+export interface RangeDopplerMarker {
+  id: number;
+  label: string;
+  color: string;
+  rangeM: number;
+  speedKmh: number; // Closing speed (+ approaching)
+}
+
+interface RangeDopplerMapProps {
+  map: RangeDopplerMapData;
+  markers: RangeDopplerMarker[]; // Ground truth drawn over the heatmap
+  unit: SpeedUnit; // Speed resolution, axis and marker speeds are shown in it
+}
+
+export const RangeDopplerMap: React.FC<RangeDopplerMapProps> = ({ map, markers, unit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dopplerBins = map.powerDb.length;
+  const rangeBins = map.powerDb[0]?.length ?? 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || rangeBins === 0) return;
+
+    const levels = map.powerDb.flat().sort((a, b) => a - b);
+    const floorDb = levels[Math.floor(levels.length / 2)];
+    const image = ctx.createImageData(rangeBins, dopplerBins);
+    map.powerDb.forEach((row, k) => {
+      // Approaching (positive speed) at the top
+      const y = dopplerBins - 1 - k;
+      row.forEach((db, r) => {
+        const [red, green, blue] = sampleColormap((db - floorDb) / DYNAMIC_RANGE_DB);
+        const offset = (y * rangeBins + r) * 4;
+        image.data[offset] = red;
+        image.data[offset + 1] = green;
+        image.data[offset + 2] = blue;
+        image.data[offset + 3] = 255;
+      });
+    });
+    ctx.putImageData(image, 0, 0);
+  }, [map, rangeBins, dopplerBins]);
+
+  const visibleMarkers = markers.filter(m => m.rangeM < map.maxRangeM && Math.abs(m.speedKmh) < map.maxSpeedKmh);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-lg flex flex-col h-full">
+      <div className="bg-slate-800/50 p-3 border-b border-slate-800 flex justify-between items-center">
+        <div className="flex items-center gap-2">
+           <Grid3x3 size={16} className="text-cyan-400" />
+           <span className="text-xs font-bold text-slate-300 uppercase tracking-wider">Range–Doppler Map (FMCW)</span>
+        </div>
+        <div className="flex gap-4 text-[10px] font-mono text-slate-500">
+           <span>ΔR: <span className="text-slate-300">{map.rangeResolutionM.toFixed(2)} m</span></span>
+           <span>Δv: <span className="text-slate-300">{toDisplaySpeed(map.speedResolutionKmh, unit).toFixed(2)} {SPEED_UNIT_LABELS[unit]}</span></span>
+        </div>
+      </div>
+
+      <div className="flex-grow flex gap-1 p-2 min-h-0">
+        <div className="flex flex-col justify-between text-[9px] font-mono text-slate-500 text-right w-8 py-1">
+          <span>+{toDisplaySpeed(map.maxSpeedKmh, unit).toFixed(0)}</span>
+          <span>0</span>
+          <span>−{toDisplaySpeed(map.maxSpeedKmh, unit).toFixed(0)}</span>
+        </div>
+        <div className="flex-grow flex flex-col min-w-0">
+          <div className="relative flex-grow min-h-0 border border-slate-800">
+            <canvas
+              ref={canvasRef}
+              width={rangeBins}
+              height={dopplerBins}
+              className="absolute inset-0 w-full h-full"
+              style={{ imageRendering: 'pixelated' }}
+            />
+            <div className="absolute left-0 right-0 top-1/2 border-t border-dashed border-white/20 pointer-events-none" />
+            {visibleMarkers.map(marker => (
+              <div
+                key={marker.id}
+                className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 pointer-events-none"
+                style={{
+                  left: `${(marker.rangeM / map.maxRangeM) * 100}%`,
+                  top: `${(0.5 - marker.speedKmh / (2 * map.maxSpeedKmh)) * 100}%`,
+                  borderColor: marker.color,
+                }}
+                title={`${marker.label}: ${marker.rangeM.toFixed(1)} m, ${toDisplaySpeed(marker.speedKmh, unit).toFixed(1)} ${SPEED_UNIT_LABELS[unit]}`}
+              >
+                <span className="absolute left-3 -top-1 text-[9px] font-mono" style={{ color: marker.color }}>{marker.label}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-[9px] font-mono text-slate-500 pt-1">
+            <span>0 m</span>
+            <span>Range (m) · rings = true position</span>
+            <span>{map.maxRangeM.toFixed(0)} m</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from 'recharts';
+import { FileAudio, Upload, Play, Square } from 'lucide-react';
+import { CfarConfig, ClutterFilterConfig, DirectionFilter, EnforcementConfig, EstimatorConfig, RadarParams, SimulationState, TargetSelectionMode } from '../types';
+import { BasebandRecording, RecordingAnalysisProgress, countRecordingFrames, filterRecording, getRecordingRadar, measureRecordingFrame, startRecordingAnalysis, wavToRecording } from '../utils/recording';
+import { decodeWav, WavData } from '../utils/wav';
+import { filterDetectionsByDirection, selectTarget } from '../utils/pipeline';
+import { calculateMaxUnambiguousSpeed, calculateSpeedResolution } from '../utils/physics';
+import { SPEED_UNIT_LABELS, toDisplaySpeed } from '../utils/enforcement';
+import { Oscilloscope } from './Oscilloscope';
+
+// Carrier frequencies of common hobby modules
+const MODULE_PRESETS: { label: string; carrierGHz: number }[] = [
+  { label: 'HB100 (X band)', carrierGHz: 10.525 },
+  { label: 'CDM324 (K band)', carrierGHz: 24.125 },
+];
+// Frames plotted in the speed-over-time chart; longer files are thinned evenly
+const MAX_PLOTTED_FRAMES = 600;
+const CURSOR_UPDATE_MS = 100;
+
+interface RecordingAnalysisProps {
+  radar: RadarParams; // FFT size, window and CFAR settings are shared with the simulation
+  cfar: CfarConfig;
+  estimator: EstimatorConfig;
+  filter: ClutterFilterConfig; // Clutter filters run over the whole file before it is framed
+  selectionMode: TargetSelectionMode;
+  directionFilter: DirectionFilter;
+  enforcement: EnforcementConfig; // Speed unit of the readouts, limit lines of the spectrum view
+}
+
+export const RecordingAnalysis: React.FC<RecordingAnalysisProps> = ({ radar, cfar, estimator, filter, selectionMode, directionFilter, enforcement }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [wav, setWav] = useState<{ name: string; data: WavData } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [carrierGHz, setCarrierGHz] = useState(MODULE_PRESETS[0].carrierGHz);
+  const [swapIq, setSwapIq] = useState(false);
+  const [cursorS, setCursorS] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [analysis, setAnalysis] = useState<RecordingAnalysisProgress | null>(null);
+  const playbackRef = useRef<{ context: AudioContext; source: AudioBufferSourceNode; startedAt: number; offsetS: number } | null>(null);
+
+  const recording: BasebandRecording | null = useMemo(() => wav ? wavToRecording(wav.data, swapIq) : null, [wav, swapIq]);
+  const filtered = useMemo(() => recording ? filterRecording(recording, filter) : null, [recording, filter]);
+  // Only FFT size and window are read from the live radar (Fs and the receiver come from the
+  // file), so geometry and link budget changes do not re-run the analysis
+  const { fftSize, windowType } = radar;
+  const recordingRadar = useMemo(
+    () => recording ? getRecordingRadar(recording, radar, carrierGHz) : null,
+    [recording, fftSize, windowType, carrierGHz]
+  );
+  useEffect(() => {
+    setAnalysis(null);
+    if (!filtered || !recordingRadar) return;
+    return startRecordingAnalysis(filtered, recordingRadar, cfar, estimator, setAnalysis);
+  }, [filtered, recordingRadar, cfar, estimator]);
+  const frames = analysis?.frames ?? [];
+  const totalFrames = filtered && recordingRadar ? countRecordingFrames(filtered, recordingRadar) : 0;
+  const durationS = recording ? recording.i.length / recording.sampleRateHz : 0;
+  const frameS = recordingRadar ? recordingRadar.fftSize / recordingRadar.basebandSampleRateHz : 0;
+  const frameIndex = Math.min(Math.max(Math.floor(cursorS / (frameS || 1)), 0), Math.max(totalFrames - 1, 0));
+
+  // The frame under the cursor, measured exactly like a simulated one
+  const cursorFrame = useMemo(
+    () => filtered && recordingRadar && totalFrames > 0 ? measureRecordingFrame(filtered, recordingRadar, cfar, frameIndex, estimator) : null,
+    [filtered, recordingRadar, cfar, estimator, frameIndex, totalFrames]
+  );
+  const cursorSelection = cursorFrame && recordingRadar
+    ? selectTarget(filterDetectionsByDirection(cursorFrame.detections, directionFilter, recordingRadar), selectionMode)
+    : null;
+
+  const { unit } = enforcement;
+  const { detectionPoints, readoutPoints } = useMemo(() => {
+    const stride = Math.max(1, Math.ceil(frames.length / MAX_PLOTTED_FRAMES));
+    const detectionPoints: { timeS: number; speed: number }[] = [];
+    const readoutPoints: { timeS: number; speed: number }[] = [];
+    if (!recordingRadar) return { detectionPoints, readoutPoints };
+    for (let k = 0; k < frames.length; k += stride) {
+      const eligible = filterDetectionsByDirection(frames[k].detections, directionFilter, recordingRadar);
+      eligible.forEach(d => detectionPoints.push({ timeS: frames[k].timeS, speed: toDisplaySpeed(d.speed, unit) }));
+      const readout = selectTarget(eligible, selectionMode);
+      if (readout) readoutPoints.push({ timeS: frames[k].timeS, speed: toDisplaySpeed(readout.detection.speed, unit) });
+    }
+    return { detectionPoints, readoutPoints };
+  }, [frames, recordingRadar, directionFilter, selectionMode, unit]);
+
+  const stopPlayback = () => {
+    const playback = playbackRef.current;
+    playbackRef.current = null;
+    if (playback) {
+      playback.source.onended = null;
+      playback.source.stop();
+      playback.context.close();
+    }
+    setIsPlaying(false);
+  };
+
+  // Web Audio plays the raw capture (I/Q as stereo); the cursor follows the audio clock
+  const startPlayback = (fromS: number) => {
+    if (!recording) return;
+    stopPlayback();
+    try {
+      const context = new AudioContext();
+      const isStereo = recording.receiverType === 'iq';
+      const buffer = context.createBuffer(isStereo ? 2 : 1, recording.i.length, recording.sampleRateHz);
+      buffer.getChannelData(0).set(recording.i);
+      if (isStereo) buffer.getChannelData(1).set(recording.q);
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(context.destination);
+      source.onended = stopPlayback;
+      source.start(0, fromS);
+      playbackRef.current = { context, source, startedAt: context.currentTime, offsetS: fromS };
+      setIsPlaying(true);
+    } catch (e) {
+      setError(`Playback failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(() => {
+      const playback = playbackRef.current;
+      if (playback) setCursorS(Math.min(playback.offsetS + playback.context.currentTime - playback.startedAt, durationS));
+    }, CURSOR_UPDATE_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, durationS]);
+  useEffect(() => stopPlayback, []);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.arrayBuffer().then(buffer => {
+      const result = decodeWav(buffer);
+      setError(result.error ? `${file.name}: ${result.error}` : null);
+      if (!result.wav) return;
+      stopPlayback();
+      setCursorS(0);
+      setWav({ name: file.name, data: result.wav });
+    }).catch((e: unknown) => setError(`${file.name}: ${e instanceof Error ? e.message : String(e)}`));
+  };
+  const seek = (timeS: number) => {
+    setCursorS(timeS);
+    if (isPlaying) startPlayback(timeS);
+  };
+
+  const cursorState: SimulationState | null = cursorFrame && recordingRadar ? {
+    radar: recordingRadar,
+    cars: [],
+    fastestTargetSpeed: 0,
+    primaryDopplerShiftHz: 0,
+    speedResolution: calculateSpeedResolution(recordingRadar.basebandSampleRateHz, recordingRadar.fftSize, recordingRadar.frequencyGHz),
+    maxSpeed: calculateMaxUnambiguousSpeed(recordingRadar.basebandSampleRateHz, recordingRadar.frequencyGHz),
+    linkBudgets: [],
+    spectrum: cursorFrame.spectrum,
+    detections: cursorFrame.detections,
+    timeS: frameIndex * frameS,
+  } : null;
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5 space-y-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <FileAudio size={18} className="text-emerald-400"/> Recorded Audio
+        </h2>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 px-2 py-1 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 text-[10px]">
+            <Upload size={12}/> Load WAV
+          </button>
+          <input ref={fileInputRef} type="file" accept=".wav,audio/wav,audio/x-wav" className="hidden" onChange={handleFile} />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <label className="flex items-center gap-1 text-slate-500">
+          Carrier
+          <input
+            type="number" min="1" max="100" step="0.001"
+            value={carrierGHz}
+            onChange={(e) => { const value = parseFloat(e.target.value); if (value > 0) setCarrierGHz(value); }}
+            className="w-20 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300 outline-none"
+          />
+          GHz
+        </label>
+        {MODULE_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => setCarrierGHz(preset.carrierGHz)}
+            className={`px-2 py-0.5 rounded text-[10px] ${carrierGHz === preset.carrierGHz ? 'bg-emerald-600/80 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+          >
+            {preset.label}
+          </button>
+        ))}
+        <label className="flex items-center gap-1 text-slate-500" title="For modules wired with Q on the left channel">
+          <input type="checkbox" checked={swapIq} onChange={(e) => setSwapIq(e.target.checked)} disabled={recording?.receiverType !== 'iq'} />
+          Swap I/Q
+        </label>
+      </div>
+
+      {error && <div className="text-[10px] text-red-400 font-mono">{error}</div>}
+
+      {wav && recording && recordingRadar ? (
+        <>
+          <div className="text-[10px] font-mono text-slate-500">
+            {wav.name} · {wav.data.description} · {recording.sampleRateHz} Hz · {durationS.toFixed(2)} s · {totalFrames} frames of {recordingRadar.fftSize}
+            {recording.receiverType === 'iq' ? ' · I/Q' : ' · real'}
+            {analysis && !analysis.done && ` · analysing ${analysis.frames.length} / ${analysis.totalFrames}`}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => isPlaying ? stopPlayback() : startPlayback(cursorS >= durationS ? 0 : cursorS)}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-xs ${isPlaying ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-emerald-600/80 text-white hover:bg-emerald-600'}`}
+            >
+              {isPlaying ? <Square size={12}/> : <Play size={12}/>} {isPlaying ? 'Stop' : 'Play'}
+            </button>
+            <input
+              type="range" min="0" max={durationS} step={frameS}
+              value={cursorS}
+              onChange={(e) => seek(parseFloat(e.target.value))}
+              className="flex-1 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+            <span className="font-mono text-xs text-slate-400 w-32 text-right">
+              {cursorS.toFixed(2)} s <span className="text-slate-600">(#{frameIndex})</span>
+            </span>
+          </div>
+
+          <div className="h-[200px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis
+                  type="number" dataKey="timeS" domain={[0, durationS]}
+                  tick={{ fill: '#64748b', fontSize: 10 }} tickFormatter={(val: number) => val.toFixed(1)}
+                  label={{ value: 'Time (s)', position: 'insideBottom', offset: -2, fill: '#64748b', fontSize: 10 }}
+                />
+                <YAxis
+                  type="number" dataKey="speed" width={40}
+                  tick={{ fill: '#64748b', fontSize: 10 }} tickFormatter={(val: number) => val.toFixed(0)}
+                  label={{ value: SPEED_UNIT_LABELS[unit], angle: -90, position: 'insideLeft', fill: '#64748b', fontSize: 10 }}
+                />
+                <Tooltip cursor={{ strokeDasharray: '3 3' }} contentStyle={{ background: '#020617', border: '1px solid #334155', fontSize: 10 }} />
+                <Scatter name="Detections" data={detectionPoints} fill="#475569" shape="circle" isAnimationActive={false} />
+                <Scatter name="Readout" data={readoutPoints} fill="#10b981" shape="circle" isAnimationActive={false} />
+                <ReferenceLine x={cursorS} stroke="#f59e0b" />
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="flex justify-between items-center bg-slate-950 border border-slate-800 rounded p-2 font-mono">
+            <div className="text-[10px] text-slate-500">
+              Measured at cursor
+              {cursorSelection && <div>SNR {cursorSelection.detection.snrDb.toFixed(0)} dB · {cursorFrame?.detections.length} detections</div>}
+            </div>
+            <div className="text-2xl font-bold text-emerald-400">
+              {cursorSelection ? toDisplaySpeed(Math.abs(cursorSelection.detection.speed), unit).toFixed(1) : '—'} <span className="text-sm text-slate-500">{SPEED_UNIT_LABELS[unit]}</span>
+            </div>
+          </div>
+
+          {cursorState && (
+            <div className="h-[320px]">
+              <Oscilloscope simState={cursorState} enforcement={enforcement} />
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-[10px] text-slate-500 leading-tight">
+          Load a sound-card capture of a CW Doppler module (mono, or stereo I/Q; PCM or float). The file's sample rate
+          becomes the baseband rate; FFT size, window, clutter filters, CFAR, direction filter and target selection follow the radar settings.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Download, AudioLines } from 'lucide-react';
+import { Car, DisturbanceConfig, RadarParams, RadarPose, WavSampleFormat } from '../types';
+import { DEFAULT_BASEBAND_OPTIONS } from '../utils/dsp';
+import { DEFAULT_RECORDING_DURATION_S, MAX_RECORDING_DURATION_S, recordingToWav, renderBasebandRecording } from '../utils/recording';
+import { WAV_SAMPLE_FORMAT_LABELS } from '../utils/wav';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+
+interface RecordingExportProps {
+  cars: Car[]; // Traffic at the start of the recording
+  radar: RadarParams;
+  pose: RadarPose;
+  disturbances: DisturbanceConfig; // Clutter and interference are recorded too; the filters are not applied
+}
+
+export const RecordingExport: React.FC<RecordingExportProps> = ({ cars, radar, pose, disturbances }) => {
+  const [durationS, setDurationS] = useState(DEFAULT_RECORDING_DURATION_S);
+  const [format, setFormat] = useState<WavSampleFormat>('pcm16');
+  const isValidDuration = durationS > 0 && durationS <= MAX_RECORDING_DURATION_S;
+  const channels = radar.receiverType === 'iq' ? 'stereo I/Q' : 'mono I';
+
+  const handleExport = () => {
+    const recording = renderBasebandRecording(cars, radar, durationS, pose, { ...DEFAULT_BASEBAND_OPTIONS, disturbances });
+    const wav = recordingToWav(recording, format);
+    downloadBlob(new Blob([wav], { type: 'audio/wav' }), `doppler-baseband-${fileTimestamp()}.wav`);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-slate-900/50 rounded-lg border border-slate-800 px-3 py-2 text-xs">
+      <span className="flex items-center gap-1 text-slate-400 font-bold uppercase tracking-wider text-[10px]">
+        <AudioLines size={12} className="text-emerald-500"/> Baseband WAV
+      </span>
+      <label className="flex items-center gap-1 text-slate-500">
+        Duration
+        <input
+          type="number" min="0.1" max={MAX_RECORDING_DURATION_S} step="0.5"
+          value={durationS}
+          onChange={(e) => setDurationS(parseFloat(e.target.value))}
+          className="w-16 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300 outline-none"
+        />
+        s
+      </label>
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as WavSampleFormat)}
+        className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300 outline-none"
+      >
+        {(Object.keys(WAV_SAMPLE_FORMAT_LABELS) as WavSampleFormat[]).map(f => (
+          <option key={f} value={f}>{WAV_SAMPLE_FORMAT_LABELS[f]}</option>
+        ))}
+      </select>
+      <span className="font-mono text-slate-600">{radar.basebandSampleRateHz} Hz · {channels}</span>
+      <button
+        onClick={handleExport}
+        disabled={!isValidDuration}
+        title={`Render up to ${MAX_RECORDING_DURATION_S} s of the mixer output from the current traffic`}
+        className="ml-auto flex items-center gap-1 px-2 py-1 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 disabled:opacity-40"
+      >
+        <Download size={12}/> Download
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useRef, useState } from 'react';
+import { FolderOpen, Upload, Download, Play } from 'lucide-react';
+import { Scenario } from '../types';
+import { SCENARIO_GALLERY } from '../utils/scenarioGallery';
+import { parseScenario } from '../utils/scenario';
+
+interface ScenarioPanelProps {
+  active: Scenario | null; // Last loaded scenario
+  elapsedS: number; // Time since it was loaded
+  firedEvents: number; // Timeline events already applied
+  onLoad: (scenario: Scenario) => void;
+  onExport: () => void;
+}
+
+export const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ active, elapsedS, firedEvents, onLoad, onExport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [galleryIndex, setGalleryIndex] = useState(0);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      const result = parseScenario(text);
+      setErrors(result.errors.map(error => `${file.name}: ${error}`));
+      setWarnings(result.warnings);
+      if (result.scenario) onLoad(result.scenario);
+    });
+  };
+  const loadFromGallery = () => {
+    setErrors([]);
+    setWarnings([]);
+    onLoad(SCENARIO_GALLERY[galleryIndex]);
+  };
+  const upcoming = active ? active.timeline.slice(firedEvents, firedEvents + 3) : [];
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <FolderOpen size={18} className="text-orange-400"/> Scenario
+        </h2>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 px-2 py-1 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 text-[10px]">
+            <Upload size={12}/> Import
+          </button>
+          <button onClick={onExport} className="flex items-center gap-1 px-2 py-1 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 text-[10px]">
+            <Download size={12}/> Export
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+        </div>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <select
+          value={galleryIndex}
+          onChange={(e) => setGalleryIndex(parseInt(e.target.value))}
+          className="flex-1 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-orange-300 outline-none"
+        >
+          {SCENARIO_GALLERY.map((scenario, index) => (
+            <option key={scenario.name} value={index}>{scenario.name}</option>
+          ))}
+        </select>
+        <button onClick={loadFromGallery} className="flex items-center gap-1 px-3 py-1 bg-orange-600/80 rounded hover:bg-orange-600 text-white text-xs">
+          <Play size={12}/> Load
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-500 leading-tight mb-3">{SCENARIO_GALLERY[galleryIndex].description}</p>
+
+      {active && (
+        <div className="text-[11px] font-mono bg-slate-950 border border-slate-800 rounded p-2 mb-2">
+          <div className="flex justify-between text-slate-300">
+            <span>{active.name}</span>
+            <span className="text-orange-300">t = {elapsedS.toFixed(1)} s</span>
+          </div>
+          <div className="text-[10px] text-slate-500 mt-1">
+            {firedEvents}/{active.timeline.length} events fired
+            {upcoming.map((event, i) => (
+              <div key={i} className="text-slate-400">▸ t = {event.atS} s: {event.type}</div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="bg-red-900/20 border border-red-500/50 p-2 rounded text-red-400 text-[10px] font-mono space-y-0.5 max-h-[120px] overflow-y-auto custom-scrollbar">
+          <div className="font-bold">Scenario rejected ({errors.length} error{errors.length === 1 ? '' : 's'}):</div>
+          {errors.map((error, i) => <div key={i}>{error}</div>)}
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="bg-amber-900/20 border border-amber-500/50 p-2 mt-2 rounded text-amber-400 text-[10px] font-mono space-y-0.5 max-h-[80px] overflow-y-auto custom-scrollbar">
+          {warnings.map((warning, i) => <div key={i}>{warning}</div>)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from 'recharts';
+import { Milestone, Play, Plus, Minus } from 'lucide-react';
+import { EnforcementConfig, ReidentificationMode, SectionControlConfig, SectionStation, SectionStationKind } from '../types';
+import {
+  DEFAULT_SECTION_CONTROL_CONFIG, MAX_SECTION_ROAD_M, MAX_SECTION_STATIONS, MAX_SECTION_VEHICLES, REIDENTIFICATION_LABELS, SECTION_STATION_LABELS,
+  SectionControlResult, calculateSectionSpeedProfile, runSectionControl,
+} from '../utils/sectionControl';
+import { MeasurementSettings } from '../utils/pipeline';
+import { SPEED_UNIT_LABELS, fromDisplaySpeed, toDisplaySpeed } from '../utils/enforcement';
+import { BAND_PRESETS } from '../utils/design';
+import { VEHICLE_SPECS } from '../utils/vehicles';
+
+interface SectionControlPanelProps extends MeasurementSettings {
+  enforcement: EnforcementConfig; // Limits, tolerance and display unit
+  ifChainEnabled: boolean; // The live reading goes through the IF chain, which the spot readings skip
+}
+
+// Carrier choices for a station's radar
+const STATION_CARRIERS_GHZ = Object.values(BAND_PRESETS).flatMap(band => band.carriersGHz);
+
+export const SectionControlPanel: React.FC<SectionControlPanelProps> = ({ enforcement, ifChainEnabled, radar, cfar, filter, estimator, disturbances, selectionMode, directionFilter }) => {
+  const settings: MeasurementSettings = { radar, cfar, filter, estimator, disturbances, selectionMode, directionFilter };
+  const [config, setConfig] = useState<SectionControlConfig>(DEFAULT_SECTION_CONTROL_CONFIG);
+  const [run, setRun] = useState<{ config: SectionControlConfig; result: SectionControlResult } | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { unit } = enforcement;
+  const unitLabel = SPEED_UNIT_LABELS[unit];
+  const speed = (kmh: number | null) => (kmh === null ? '—' : toDisplaySpeed(kmh, unit).toFixed(1));
+  const set = (patch: Partial<SectionControlConfig>) => setConfig(prev => ({ ...prev, ...patch }));
+  const setStation = (index: number, patch: Partial<SectionStation>) =>
+    set({ stations: config.stations.map((station, i) => (i === index ? { ...station, ...patch } : station)) });
+  const addStation = () => {
+    const last = Math.max(...config.stations.map(s => s.positionM), 0);
+    set({ stations: [...config.stations, { positionM: Math.min(last + 500, config.roadLengthM), kind: 'camera', radar: settings.radar }] });
+  };
+  const number = (value: string, apply: (v: number) => void, min = 0) => { const v = parseFloat(value); if (!isNaN(v) && v >= min) apply(v); };
+
+  const start = () => {
+    setRun({ config, result: runSectionControl(config, settings, enforcement) });
+    setSelectedId(null);
+  };
+
+  const result = run?.result ?? null;
+  const radarStations = result ? result.stations.flatMap((station, index) => (station.kind === 'radar' ? [index] : [])) : [];
+  const selected = result?.vehicles.find(v => v.vehicle.car.id === selectedId) ?? result?.vehicles.find(v => v.vehicle.slowsForRadar) ?? null;
+  const profile = result && selected && run
+    ? calculateSectionSpeedProfile(selected.vehicle, run.config.roadLengthM, result.stations).map(p => {
+      const k = result.sections.findIndex(s => p.xM >= s.fromM && p.xM <= s.toM);
+      const average = k >= 0 ? selected.sections[k].trueAverageKmh : null;
+      return { xM: p.xM, speed: toDisplaySpeed(p.speedKmh, unit), average: average === null ? null : toDisplaySpeed(average, unit) };
+    })
+    : [];
+  const inputClass = 'w-14 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-indigo-300 outline-none';
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <Milestone size={18} className="text-indigo-400"/> Section Control
+        </h2>
+        <button
+          onClick={start}
+          disabled={config.stations.length < 2}
+          className="flex items-center gap-1 px-2 py-1 rounded text-[10px] bg-indigo-600/80 text-white hover:bg-indigo-600 disabled:opacity-40"
+        >
+          <Play size={12}/> Run
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] text-slate-500 mb-3">
+        <label className="flex items-center gap-1">
+          Road
+          <input type="number" min="100" max={MAX_SECTION_ROAD_M} step="100" value={config.roadLengthM} onChange={(e) => number(e.target.value, v => set({ roadLengthM: Math.min(v, MAX_SECTION_ROAD_M) }), 100)} className={inputClass} />
+          m
+        </label>
+        <label className="flex items-center gap-1">
+          Vehicles
+          <input type="number" min="1" max={MAX_SECTION_VEHICLES} step="1" value={config.vehicleCount} onChange={(e) => number(e.target.value, v => set({ vehicleCount: Math.min(Math.round(v), MAX_SECTION_VEHICLES) }), 1)} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-1">
+          Mean
+          <input type="number" min="10" step="5" value={Number(toDisplaySpeed(config.meanSpeedKmh, unit).toFixed(1))} onChange={(e) => number(e.target.value, v => set({ meanSpeedKmh: fromDisplaySpeed(v, unit) }), 1)} className={inputClass} />
+          {unitLabel} ±15%
+        </label>
+        <label className="flex items-center gap-1" title="Drivers who brake to the limit at each radar and speed up again">
+          Slow for radar
+          <input type="number" min="0" max="100" step="10" value={config.slowDownPercent} onChange={(e) => number(e.target.value, v => set({ slowDownPercent: Math.min(v, 100) }))} className={inputClass} />
+          %
+        </label>
+        <label className="flex items-center gap-1">
+          Seed
+          <input type="number" step="1" value={config.seed} onChange={(e) => { const v = parseInt(e.target.value); if (!isNaN(v)) set({ seed: v }); }} className={inputClass} />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] text-slate-500 mb-3">
+        <select
+          value={config.reidentification}
+          onChange={(e) => set({ reidentification: e.target.value as ReidentificationMode })}
+          className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+        >
+          {(Object.keys(REIDENTIFICATION_LABELS) as ReidentificationMode[]).map(mode => (
+            <option key={mode} value={mode}>{REIDENTIFICATION_LABELS[mode]}</option>
+          ))}
+        </select>
+        {config.reidentification === 'plate' ? (
+          <label className="flex items-center gap-1">
+            Plates read
+            <input type="number" min="0" max="100" step="1" value={config.plateReadPercent} onChange={(e) => number(e.target.value, v => set({ plateReadPercent: Math.min(v, 100) }))} className={inputClass} />
+            %
+          </label>
+        ) : (
+          <label className="flex items-center gap-1">
+            Class errors
+            <input type="number" min="0" max="100" step="1" value={config.classErrorPercent} onChange={(e) => number(e.target.value, v => set({ classErrorPercent: Math.min(v, 100) }))} className={inputClass} />
+            %
+          </label>
+        )}
+        <label className="flex items-center gap-1">
+          Clock ±
+          <input type="number" min="0" step="10" value={config.timestampJitterMs} onChange={(e) => number(e.target.value, v => set({ timestampJitterMs: v }))} className={inputClass} />
+          ms
+        </label>
+      </div>
+
+      <div className="space-y-1 mb-3">
+        {config.stations.map((station, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2 text-[10px] text-slate-500">
+            <span className="font-mono text-slate-400 w-6">S{index + 1}</span>
+            <input type="number" min="0" step="100" value={station.positionM} onChange={(e) => number(e.target.value, v => setStation(index, { positionM: v }))} className={inputClass} />
+            m
+            <select
+              value={station.kind}
+              onChange={(e) => setStation(index, { kind: e.target.value as SectionStationKind })}
+              className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+            >
+              {(Object.keys(SECTION_STATION_LABELS) as SectionStationKind[]).map(kind => (
+                <option key={kind} value={kind}>{SECTION_STATION_LABELS[kind]}</option>
+              ))}
+            </select>
+            {station.kind === 'radar' && (
+              <>
+                <select
+                  value={station.radar.frequencyGHz}
+                  onChange={(e) => setStation(index, { radar: { ...station.radar, frequencyGHz: parseFloat(e.target.value) } })}
+                  className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+                >
+                  {[...new Set([...STATION_CARRIERS_GHZ, station.radar.frequencyGHz])].sort((a, b) => a - b).map(f => (
+                    <option key={f} value={f}>{f} GHz</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1">
+                  aim
+                  <input type="number" min="1" max="45" step="1" value={station.radar.aimAngleDeg} onChange={(e) => number(e.target.value, v => setStation(index, { radar: { ...station.radar, aimAngleDeg: Math.min(Math.max(v, 1), 45) } }), 1)} className={inputClass} />
+                  °
+                </label>
+                <span className="font-mono text-slate-600">N {station.radar.fftSize}, {(station.radar.basebandSampleRateHz / 1000).toFixed(1)} kHz</span>
+                <button onClick={() => setStation(index, { radar: settings.radar })} title="Copy the live radar configuration" className="px-1.5 py-0.5 bg-slate-800 rounded hover:bg-slate-700 text-slate-300">
+                  Live radar
+                </button>
+              </>
+            )}
+            <button onClick={() => set({ stations: config.stations.filter((_, i) => i !== index) })} disabled={config.stations.length <= 2} className="p-1 bg-slate-800 rounded hover:bg-slate-700 text-red-300 disabled:opacity-40">
+              <Minus size={10}/>
+            </button>
+          </div>
+        ))}
+        <button onClick={addStation} disabled={config.stations.length >= MAX_SECTION_STATIONS} className="flex items-center gap-1 px-2 py-0.5 bg-slate-800 rounded hover:bg-slate-700 text-emerald-300 text-[10px] disabled:opacity-40">
+          <Plus size={10}/> Station
+        </button>
+      </div>
+
+      <p className="text-[10px] text-slate-500 leading-tight mb-3">
+        Every station photographs and time-stamps each vehicle; radar stations also take a spot reading with their own radar
+        through the live CFAR, filters and estimator. Consecutive stations bound a section with average speed v̄ = L / (t_exit − t_entry).
+        Both are judged against the enforcement threshold for the vehicle's lane and class.
+      </p>
+      {ifChainEnabled && (
+        <div className="bg-amber-900/20 border border-amber-500/50 p-2 mb-3 rounded text-amber-400 text-[10px] font-mono">
+          The live reading goes through the IF chain but the spot readings do not (a frame through it takes hundreds of milliseconds):
+          ADC quantisation and decimator droop are not in these results.
+        </div>
+      )}
+
+      {run && result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3 text-[10px] font-mono">
+            <div className="bg-slate-950 rounded p-2"><div className="text-slate-500">Speeding on average</div><div className="text-slate-200 text-sm">{result.summary.sectionSpeeders} / {result.summary.vehicles}</div></div>
+            <div className="bg-slate-950 rounded p-2"><div className="text-slate-500">Caught by section</div><div className="text-indigo-300 text-sm">{result.summary.caughtBySection}{result.summary.falseSectionTickets > 0 && <span className="text-red-400"> ({result.summary.falseSectionTickets} false)</span>}</div></div>
+            <div className="bg-slate-950 rounded p-2"><div className="text-slate-500">Caught by spot radar</div><div className="text-amber-300 text-sm">{result.summary.caughtBySpot}</div></div>
+            <div className="bg-slate-950 rounded p-2" title="Drivers who slowed for the radar: missed at the spot, caught on average"><div className="text-slate-500">Slowed, section only</div><div className="text-emerald-300 text-sm">{result.summary.slowedCaughtBySectionOnly}</div></div>
+          </div>
+          <div className="text-[10px] text-slate-500 mb-3">
+            Re-identification ({REIDENTIFICATION_LABELS[run.config.reidentification]}): {result.summary.unpaired} exits unpaired, {result.summary.wrongPairings} paired with another vehicle's entry.
+          </div>
+
+          {selected && (
+            <>
+              <div className="text-[10px] font-mono text-slate-400 mb-1">
+                #{selected.vehicle.car.id} {VEHICLE_SPECS[selected.vehicle.car.vehicleClass].label}, lane {selected.vehicle.car.lane + 1}
+                {selected.vehicle.slowsForRadar ? ' (slows for radars)' : ''}
+              </div>
+              <div className="h-44 mb-3">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={profile}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                    <XAxis dataKey="xM" type="number" domain={[0, run.config.roadLengthM]} tick={{fill: '#64748b', fontSize: 10}} tickFormatter={(v: number) => `${(v / 1000).toFixed(1)} km`} />
+                    <YAxis width={32} domain={['auto', 'auto']} tick={{fill: '#64748b', fontSize: 10}} label={{ value: unitLabel, angle: -90, position: 'insideLeft', fill: '#64748b', fontSize: 10 }} />
+                    <Tooltip contentStyle={{ background: '#020617', border: '1px solid #334155', fontSize: 11 }} formatter={(v: number | null) => (v === null ? '—' : v.toFixed(1))} labelFormatter={(x: number) => `${x} m`} />
+                    {result.stations.map((station, index) => (
+                      <ReferenceLine key={index} x={station.positionM} stroke={station.kind === 'radar' ? '#f59e0b' : '#64748b'} label={{ value: `S${index + 1}`, fill: '#94a3b8', fontSize: 9, position: 'insideTopLeft' }} />
+                    ))}
+                    <ReferenceLine y={toDisplaySpeed(selected.thresholdKmh, unit)} stroke="#ef4444" strokeDasharray="3 3" />
+                    <Line type="monotone" dataKey="speed" name="True speed" stroke="#818cf8" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line type="stepAfter" dataKey="average" name="Section average" stroke="#10b981" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </>
+          )}
+
+          <div className="max-h-[220px] overflow-y-auto custom-scrollbar">
+            <table className="w-full text-xs font-mono">
+              <thead className="text-[10px] text-slate-500 border-b border-slate-800">
+                <tr className="text-right">
+                  <th className="text-left font-normal py-1">Vehicle</th>
+                  <th className="font-normal">Cruise</th>
+                  {radarStations.map(index => <th key={index} className="font-normal" title="Measured spot speed">S{index + 1}</th>)}
+                  {result.sections.map((_, k) => <th key={k} className="font-normal" title="Measured section average">S{k + 1}→S{k + 2}</th>)}
+                  <th className="font-normal">Spot</th>
+                  <th className="font-normal">Section</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.vehicles.map(v => (
+                  <tr
+                    key={v.vehicle.car.id}
+                    onClick={() => setSelectedId(v.vehicle.car.id)}
+                    className={`border-b border-slate-900 text-right cursor-pointer ${v === selected ? 'bg-indigo-500/10' : ''} ${v.overOnSection ? 'text-slate-200' : 'text-slate-500'}`}
+                    title={`Limit ${speed(v.speedLimitKmh)} ${unitLabel}, triggers above ${speed(v.thresholdKmh)}`}
+                  >
+                    <td className="py-1 text-left">#{v.vehicle.car.id} {VEHICLE_SPECS[v.vehicle.car.vehicleClass].label}{v.vehicle.slowsForRadar && <span className="text-amber-400"> ↘</span>}</td>
+                    <td>{speed(v.vehicle.car.speedKmh)}</td>
+                    {radarStations.map(index => {
+                      const spotKmh = v.passages[index].measuredSpotKmh;
+                      return <td key={index} className={spotKmh !== null && spotKmh > v.thresholdKmh ? 'text-red-400' : ''}>{speed(spotKmh)}</td>;
+                    })}
+                    {v.sections.map((reading, k) => (
+                      <td
+                        key={k}
+                        className={reading.measuredAverageKmh !== null && reading.measuredAverageKmh > v.thresholdKmh ? 'text-red-400' : ''}
+                        title={`True ${speed(reading.trueAverageKmh)}${reading.entryVehicleId !== null && reading.entryVehicleId !== v.vehicle.car.id ? `, paired with #${reading.entryVehicleId}` : ''}`}
+                      >
+                        {speed(reading.measuredAverageKmh)}
+                        {reading.entryVehicleId !== null && reading.entryVehicleId !== v.vehicle.car.id && <span className="text-amber-400">*</span>}
+                      </td>
+                    ))}
+                    <td className={v.caughtBySpot ? 'text-red-400' : 'text-slate-600'}>{v.caughtBySpot ? 'caught' : '—'}</td>
+                    <td className={v.caughtBySection ? (v.overOnSection ? 'text-red-400' : 'text-amber-400') : 'text-slate-600'}>{v.caughtBySection ? (v.overOnSection ? 'caught' : 'false') : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="text-[10px] text-slate-600 mt-1">
+            Speeds in {unitLabel}. ↘ slows for radars; * section paired with another vehicle's entry. Click a row to plot it.
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
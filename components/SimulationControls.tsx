@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Play, Pause, StepForward, RotateCcw } from 'lucide-react';
+import { TIME_SCALES } from '../utils/simulation';
+
+interface SimulationControlsProps {
+  paused: boolean;
+  timeScale: number;
+  timeS: number; // Simulation clock of the latest snapshot
+  tick: number;
+  seed: number;
+  onTogglePause: () => void;
+  onStep: () => void; // One fixed timestep, also while paused
+  onTimeScaleChange: (timeScale: number) => void;
+  onRestart: (seed: number) => void;
+}
+
+export const SimulationControls: React.FC<SimulationControlsProps> = ({
+  paused, timeScale, timeS, tick, seed, onTogglePause, onStep, onTimeScaleChange, onRestart,
+}) => {
+  const [seedInput, setSeedInput] = useState(seed.toString());
+  const parsedSeed = parseInt(seedInput, 10);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-slate-900/50 rounded-lg border border-slate-800 px-3 py-2 text-xs">
+      <button
+        onClick={onTogglePause}
+        title={paused ? 'Resume' : 'Pause'}
+        className={`flex items-center gap-1 px-2 py-1 rounded ${paused ? 'bg-emerald-600/80 hover:bg-emerald-600 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'}`}
+      >
+        {paused ? <Play size={12}/> : <Pause size={12}/>} {paused ? 'Run' : 'Pause'}
+      </button>
+      <button onClick={onStep} disabled={!paused} title="Advance one timestep" className="flex items-center gap-1 px-2 py-1 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 disabled:opacity-40">
+        <StepForward size={12}/> Step
+      </button>
+      <label className="flex items-center gap-1 text-slate-500">
+        Speed
+        <select
+          value={timeScale}
+          onChange={(e) => onTimeScaleChange(parseFloat(e.target.value))}
+          className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300 outline-none"
+        >
+          {TIME_SCALES.map(scale => <option key={scale} value={scale}>{scale}×</option>)}
+        </select>
+      </label>
+      <div className="w-px h-4 bg-slate-700"></div>
+      <label className="flex items-center gap-1 text-slate-500">
+        Seed
+        <input
+          value={seedInput}
+          onChange={(e) => setSeedInput(e.target.value)}
+          className="w-16 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300 outline-none"
+        />
+      </label>
+      <button onClick={() => onRestart(parsedSeed)} disabled={isNaN(parsedSeed)} title="Restart from t = 0 with this seed" className="flex items-center gap-1 px-2 py-1 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 disabled:opacity-40">
+        <RotateCcw size={12}/> Restart
+      </button>
+      <span className="ml-auto font-mono text-slate-400">
+        t = {timeS.toFixed(2)} s <span className="text-slate-600">(tick {tick})</span>
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Waves, Pause, Play, Download } from 'lucide-react';
+import { ColormapName, RadarParams, SpectrogramConfig, SpectrogramFrame, SpeedUnit } from '../types';
+import { COLORMAP_LABELS, sampleColormap } from '../utils/colormap';
+import { calculateSpeedFromShift } from '../utils/physics';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+import { formatSpeed } from '../utils/enforcement';
+
+const HISTORY_OPTIONS = [100, 300, 600, 1200];
+
+interface SpectrogramProps {
+  frames: SpectrogramFrame[]; // Oldest first
+  radar: RadarParams;
+  config: SpectrogramConfig;
+  onConfigChange: (config: SpectrogramConfig) => void;
+  paused: boolean;
+  onTogglePause: () => void;
+  unit: SpeedUnit; // Hover readout
+}
+
+interface HoverCell {
+  left: number; // Tooltip position in px within the plot
+  top: number;
+  timeS: number; // Relative to the newest row (≤ 0)
+  freq: number;
+  speed: number;
+  amp: number;
+}
+
+export const Spectrogram: React.FC<SpectrogramProps> = ({ frames, radar, config, onConfigChange, paused, onTogglePause, unit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hover, setHover] = useState<HoverCell | null>(null);
+  const update = (patch: Partial<SpectrogramConfig>) => onConfigChange({ ...config, ...patch });
+
+  const isComplex = radar.receiverType === 'iq';
+  const columns = isComplex ? radar.fftSize : radar.fftSize / 2;
+  const firstBin = isComplex ? -radar.fftSize / 2 : 0;
+  const freqRes = radar.basebandSampleRateHz / radar.fftSize;
+  const observationMs = (radar.fftSize / radar.basebandSampleRateHz) * 1000;
+
+  // Newest frame on the top row, older ones scroll down
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const rows = config.historyFrames;
+    const image = ctx.createImageData(columns, rows);
+    const span = Math.max(config.maxDb - config.minDb, 1);
+    const [bgRed, bgGreen, bgBlue] = sampleColormap(0, config.colormap);
+    for (let row = 0; row < rows; row++) {
+      const frame = frames[frames.length - 1 - row];
+      for (let col = 0; col < columns; col++) {
+        const amp = frame?.amps[col];
+        const [red, green, blue] = amp === undefined ? [bgRed, bgGreen, bgBlue] : sampleColormap((amp - config.minDb) / span, config.colormap);
+        const offset = (row * columns + col) * 4;
+        image.data[offset] = red;
+        image.data[offset + 1] = green;
+        image.data[offset + 2] = blue;
+        image.data[offset + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [frames, config, columns]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const col = Math.floor(((e.clientX - rect.left) / rect.width) * columns);
+    const row = Math.floor(((e.clientY - rect.top) / rect.height) * config.historyFrames);
+    const frame = frames[frames.length - 1 - row];
+    if (!frame || col < 0 || col >= columns) {
+      setHover(null);
+      return;
+    }
+    const newest = frames[frames.length - 1];
+    const freq = (firstBin + col) * freqRes;
+    setHover({
+      left: e.clientX - rect.left,
+      top: e.clientY - rect.top,
+      timeS: (frame.timeMs - newest.timeMs) / 1000,
+      freq,
+      speed: calculateSpeedFromShift(freq, radar.frequencyGHz),
+      amp: frame.amps[col],
+    });
+  };
+
+  const handleExport = () => {
+    canvasRef.current?.toBlob(blob => {
+      if (blob) downloadBlob(blob, `doppler-waterfall-${fileTimestamp()}.png`);
+    }, 'image/png');
+  };
+
+  const minFreq = firstBin * freqRes;
+  const maxFreq = (firstBin + columns) * freqRes;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-lg flex flex-col h-full">
+      <div className="bg-slate-800/50 p-3 border-b border-slate-800 flex justify-between items-center gap-2">
+        <div className="flex items-center gap-2">
+           <Waves size={16} className="text-indigo-400" />
+           <span className="text-xs font-bold text-slate-300 uppercase tracking-wider">Doppler Waterfall</span>
+        </div>
+        <div className="flex gap-2 items-center">
+           <button
+             onClick={onTogglePause}
+             title={paused ? 'Resume' : 'Pause'}
+             className={`p-1.5 rounded border ${paused ? 'bg-amber-500/20 border-amber-500/60 text-amber-300' : 'bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+           >
+             {paused ? <Play size={12}/> : <Pause size={12}/>}
+           </button>
+           <button
+             onClick={handleExport}
+             title="Export PNG"
+             className="p-1.5 rounded border bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800"
+           >
+             <Download size={12}/>
+           </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 px-3 pt-2">
+        <select
+          value={config.colormap}
+          onChange={(e) => update({ colormap: e.target.value as ColormapName })}
+          className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-indigo-300 outline-none"
+        >
+          {(Object.keys(COLORMAP_LABELS) as ColormapName[]).map(name => (
+            <option key={name} value={name}>{COLORMAP_LABELS[name]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-[10px] text-slate-500">
+          Min
+          <input
+            type="number" step="5" value={config.minDb}
+            onChange={(e) => update({ minDb: Math.min(parseFloat(e.target.value) || 0, config.maxDb - 1) })}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-1 py-1 font-mono text-indigo-300 outline-none"
+          />
+        </label>
+        <label className="flex items-center gap-1 text-[10px] text-slate-500">
+          Max
+          <input
+            type="number" step="5" value={config.maxDb}
+            onChange={(e) => update({ maxDb: Math.max(parseFloat(e.target.value) || 0, config.minDb + 1) })}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-1 py-1 font-mono text-indigo-300 outline-none"
+          />
+        </label>
+        <select
+          value={config.historyFrames}
+          onChange={(e) => update({ historyFrames: parseInt(e.target.value) })}
+          className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-indigo-300 outline-none"
+        >
+          {HISTORY_OPTIONS.map(n => (
+            <option key={n} value={n}>{n} rows ({((n * observationMs) / 1000).toFixed(1)} s)</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex-grow flex flex-col p-2 min-h-0">
+        <div className="relative flex-grow min-h-0 border border-slate-800">
+          <canvas
+            ref={canvasRef}
+            width={columns}
+            height={config.historyFrames}
+            className="absolute inset-0 w-full h-full cursor-crosshair"
+            style={{ imageRendering: 'pixelated' }}
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHover(null)}
+          />
+          {hover && (
+            <div
+              className="absolute bg-slate-950 border border-slate-700 p-2 rounded shadow-xl text-xs font-mono pointer-events-none z-10"
+              style={{ left: hover.left + 12, top: hover.top + 12 }}
+            >
+              <div className="text-indigo-400 font-bold mb-1">t = {hover.timeS.toFixed(2)} s</div>
+              <div>Freq:  {hover.freq.toFixed(1)} Hz</div>
+              <div>Speed: {formatSpeed(hover.speed, unit)}</div>
+              <div>Amp:   {hover.amp.toFixed(1)} dBFS</div>
+            </div>
+          )}
+          {paused && (
+            <div className="absolute top-2 right-2 text-[10px] text-amber-300 bg-black/60 px-2 py-1 rounded">PAUSED</div>
+          )}
+        </div>
+        <div className="flex justify-between text-[9px] font-mono text-slate-500 pt-1">
+          <span>{minFreq.toFixed(0)} Hz</span>
+          <span>Row = T_obs {observationMs.toFixed(1)} ms · newest on top</span>
+          <span>{maxFreq.toFixed(0)} Hz</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Route } from 'lucide-react';
+import { AssociationMethod, Car, SpeedUnit, Track, TrackerConfig } from '../types';
+import { ASSOCIATION_LABELS, calculateTrackConfidence } from '../utils/tracker';
+import { SPEED_UNIT_LABELS, toDisplaySpeed } from '../utils/enforcement';
+
+interface TrackListProps {
+  config: TrackerConfig;
+  onConfigChange: (config: TrackerConfig) => void;
+  tracks: Track[];
+  cars: Car[];
+  unit: SpeedUnit;
+}
+
+export const TrackList: React.FC<TrackListProps> = ({ config, onConfigChange, tracks, cars, unit }) => {
+  const update = (patch: Partial<TrackerConfig>) => onConfigChange({ ...config, ...patch });
+  const carLabel = (carId?: number) => {
+    const index = cars.findIndex(c => c.id === carId);
+    return index >= 0 ? `T${index + 1}` : '—';
+  };
+  const confirmedCount = tracks.filter(t => t.status === 'confirmed').length;
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <Route size={18} className="text-lime-400"/> Target Tracks
+        </h2>
+        <span className="text-[10px] font-mono text-slate-500">{confirmedCount} confirmed / {tracks.length - confirmedCount} tentative</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div className="space-y-1 col-span-2">
+          <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Association</label>
+          <select
+            value={config.association}
+            onChange={(e) => update({ association: e.target.value as AssociationMethod })}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-lime-300 outline-none"
+          >
+            {(Object.keys(ASSOCIATION_LABELS) as AssociationMethod[]).map(m => (
+              <option key={m} value={m}>{ASSOCIATION_LABELS[m]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Gate (σ)</label>
+          <input
+            type="number" min="1" max="10" step="0.5" value={config.gateSigma}
+            onChange={(e) => update({ gateSigma: Math.max(0.5, parseFloat(e.target.value) || 0.5) })}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-lime-300 outline-none"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Confirm M / N</label>
+          <div className="flex gap-1">
+            <input
+              type="number" min="1" max={config.confirmWindow} value={config.confirmHits}
+              onChange={(e) => update({ confirmHits: Math.min(Math.max(1, parseInt(e.target.value) || 1), config.confirmWindow) })}
+              className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-lime-300 outline-none"
+            />
+            <input
+              type="number" min="1" max="20" value={config.confirmWindow}
+              onChange={(e) => {
+                const confirmWindow = Math.max(1, parseInt(e.target.value) || 1);
+                update({ confirmWindow, confirmHits: Math.min(config.confirmHits, confirmWindow) });
+              }}
+              className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-lime-300 outline-none"
+            />
+          </div>
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-500 leading-tight mb-4">
+        Each track runs a Kalman filter on speed and acceleration. Detections within {config.gateSigma}σ of a
+        prediction are associated; {config.confirmHits} hits in {config.confirmWindow} frames confirm a track, {config.maxMisses + 1} misses in a row delete it.
+      </p>
+
+      <div className="max-h-[180px] overflow-y-auto custom-scrollbar">
+        <table className="w-full text-xs font-mono">
+          <thead className="text-[10px] uppercase text-slate-500 border-b border-slate-800">
+            <tr>
+              <th className="text-left py-1">Track</th>
+              <th className="text-right py-1">Speed ({SPEED_UNIT_LABELS[unit]})</th>
+              <th className="text-right py-1">Accel</th>
+              <th className="text-right py-1">±1σ</th>
+              <th className="text-right py-1">Conf.</th>
+              <th className="text-right py-1">Truth</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tracks.length === 0 && (
+              <tr><td colSpan={6} className="text-center text-slate-600 py-3">No tracks</td></tr>
+            )}
+            {tracks.map(track => (
+              <tr key={track.id} className={`border-b border-slate-900 ${track.status === 'confirmed' ? 'text-lime-300' : 'text-slate-500'}`}>
+                <td className="py-1">#{track.id}{track.status === 'tentative' && '?'}</td>
+                <td className="text-right">{toDisplaySpeed(track.speedKmh, unit).toFixed(1)}</td>
+                <td className="text-right">{toDisplaySpeed(track.accelKmhPerS, unit).toFixed(1)}</td>
+                <td className="text-right">{toDisplaySpeed(Math.sqrt(track.covariance[0]), unit).toFixed(2)}</td>
+                <td className="text-right">{(calculateTrackConfidence(track) * 100).toFixed(0)}%</td>
+                <td className="text-right">{carLabel(track.carId)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
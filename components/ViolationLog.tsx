@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { FileText, Download, Trash2 } from 'lucide-react';
+import { Car, SpeedUnit, VehicleClass, ViolationEvent, ViolationOutcome } from '../types';
+import { VEHICLE_CLASSES, VEHICLE_SPECS } from '../utils/vehicles';
+import { VIOLATION_OUTCOME_LABELS, violationsToCsv, violationsToJson } from '../utils/violations';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+import { SPEED_UNIT_LABELS, formatSpeed, toDisplaySpeed } from '../utils/enforcement';
+
+const OUTCOME_COLORS: Record<ViolationOutcome, string> = {
+  confirmed: 'text-red-400',
+  falsePositive: 'text-amber-400',
+  missed: 'text-sky-400',
+};
+
+interface ViolationLogProps {
+  events: ViolationEvent[];
+  cars: Car[];
+  unit: SpeedUnit; // Display only: the exports stay in km/h
+  onClear: () => void;
+}
+
+export const ViolationLog: React.FC<ViolationLogProps> = ({ events, cars, unit, onClear }) => {
+  const [outcomeFilter, setOutcomeFilter] = useState<ViolationOutcome | 'all'>('all');
+  const [classFilter, setClassFilter] = useState<VehicleClass | 'all'>('all');
+
+  const filtered = events.filter(e =>
+    (outcomeFilter === 'all' || e.outcome === outcomeFilter) &&
+    (classFilter === 'all' || e.vehicleClass === classFilter)
+  );
+  const carLabel = (carId?: number) => {
+    const index = cars.findIndex(c => c.id === carId);
+    return index >= 0 ? `T${index + 1}` : carId === undefined ? '?' : `#${carId}`;
+  };
+  const exportAs = (format: 'csv' | 'json') => {
+    const content = format === 'csv' ? violationsToCsv(filtered) : violationsToJson(filtered);
+    const type = format === 'csv' ? 'text/csv' : 'application/json';
+    downloadBlob(new Blob([content], { type }), `violations-${fileTimestamp()}.${format}`);
+  };
+  const counts = (Object.keys(VIOLATION_OUTCOME_LABELS) as ViolationOutcome[]).map(outcome => ({
+    outcome,
+    count: events.filter(e => e.outcome === outcome).length,
+  }));
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-5">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <FileText size={18} className="text-red-400"/> Enforcement Log
+        </h2>
+        <div className="flex gap-2">
+          <button onClick={() => exportAs('csv')} disabled={filtered.length === 0} className="flex items-center gap-1 px-2 py-1 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 text-[10px] disabled:opacity-40">
+            <Download size={12}/> CSV
+          </button>
+          <button onClick={() => exportAs('json')} disabled={filtered.length === 0} className="flex items-center gap-1 px-2 py-1 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 text-[10px] disabled:opacity-40">
+            <Download size={12}/> JSON
+          </button>
+          <button onClick={onClear} disabled={events.length === 0} title="Clear log" className="p-1.5 bg-slate-800 rounded hover:bg-slate-700 text-slate-300 disabled:opacity-40">
+            <Trash2 size={12}/>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-3">
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Outcome</label>
+          <select
+            value={outcomeFilter}
+            onChange={(e) => setOutcomeFilter(e.target.value as ViolationOutcome | 'all')}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-red-300 outline-none"
+          >
+            <option value="all">All</option>
+            {(Object.keys(VIOLATION_OUTCOME_LABELS) as ViolationOutcome[]).map(outcome => (
+              <option key={outcome} value={outcome}>{VIOLATION_OUTCOME_LABELS[outcome]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Vehicle Class</label>
+          <select
+            value={classFilter}
+            onChange={(e) => setClassFilter(e.target.value as VehicleClass | 'all')}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-red-300 outline-none"
+          >
+            <option value="all">All</option>
+            {VEHICLE_CLASSES.map(vehicleClass => (
+              <option key={vehicleClass} value={vehicleClass}>{VEHICLE_SPECS[vehicleClass].label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="flex gap-4 text-[10px] font-mono mb-3">
+        {counts.map(({ outcome, count }) => (
+          <span key={outcome} className={OUTCOME_COLORS[outcome]}>{VIOLATION_OUTCOME_LABELS[outcome]}: {count}</span>
+        ))}
+      </div>
+
+      <div className="max-h-[220px] overflow-y-auto custom-scrollbar">
+        <table className="w-full text-xs font-mono">
+          <thead className="text-[10px] uppercase text-slate-500 border-b border-slate-800">
+            <tr>
+              <th className="text-left py-1">Time</th>
+              <th className="text-left py-1">Target</th>
+              <th className="text-right py-1" title={SPEED_UNIT_LABELS[unit]}>Meas.</th>
+              <th className="text-right py-1" title={SPEED_UNIT_LABELS[unit]}>True</th>
+              <th className="text-right py-1">Err</th>
+              <th className="text-right py-1">Outcome</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filtered.length === 0 && (
+              <tr><td colSpan={6} className="text-center text-slate-600 py-3">No violations logged</td></tr>
+            )}
+            {[...filtered].reverse().map(e => (
+              <tr key={e.id} className="border-b border-slate-900 text-slate-300" title={`Δv = ${formatSpeed(e.binResolutionKmh, unit, 2)}, limit ${formatSpeed(e.speedLimitKmh, unit)}, triggers above ${formatSpeed(e.thresholdKmh, unit)}`}>
+                <td className="py-1">{new Date(e.timestampMs).toLocaleTimeString()}</td>
+                <td>{carLabel(e.carId)} {e.vehicleClass ? VEHICLE_SPECS[e.vehicleClass].label : 'unmatched'}</td>
+                <td className="text-right">{e.measuredSpeedKmh !== undefined ? toDisplaySpeed(e.measuredSpeedKmh, unit).toFixed(1) : '—'}</td>
+                <td className="text-right">{e.trueSpeedKmh !== undefined ? toDisplaySpeed(e.trueSpeedKmh, unit).toFixed(1) : '—'}</td>
+                <td className="text-right text-yellow-500">{e.errorKmh !== undefined ? toDisplaySpeed(e.errorKmh, unit).toFixed(1) : '—'}</td>
+                <td className={`text-right ${OUTCOME_COLORS[e.outcome]}`}>{VIOLATION_OUTCOME_LABELS[e.outcome]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -6,8 +6,302 @@ export interface RadarParams {
   // DSP / Baseband parameters
   basebandSampleRateHz: number; // e.g., 44100 Hz
   fftSize: number; // e.g., 1024
+  windowType: WindowType; // Taper applied before the FFT
+  receiverType: ReceiverType; // Single mixer (real) or quadrature mixer (I/Q)
+
+  // Mounting geometry
+  mountOffsetM: number; // Lateral distance from the road edge to the radar
+  mountHeightM: number; // Antenna height above the road surface
+  aimAngleDeg: number; // Horizontal angle between boresight and the road axis
+  beamwidthDeg: number; // -3 dB antenna beamwidth
+
+  // Link budget
+  txPowerDbm: number; // Transmit power
+  antennaGainDbi: number; // Shared Tx/Rx antenna gain on boresight
+  noiseFigureDb: number; // Receiver noise figure (incl. mixer 1/f noise)
+  noiseBandwidthHz: number; // Receiver noise bandwidth at baseband
+
+  // FMCW waveform (used when radarMode is 'fmcw')
+  radarMode: RadarMode;
+  chirpBandwidthMHz: number; // Frequency sweep B of one chirp
+  chirpDurationUs: number; // Chirp repetition time T_c
+  chirpsPerFrame: number; // Slow-time samples N_c per range–Doppler frame
+}
+
+// Continuous-wave Doppler only, or a chirped FMCW radar that also measures range
+export type RadarMode = 'cw' | 'fmcw';
+
+export type ReceiverType = 'real' | 'iq';
+
+export type WindowType = 'rectangular' | 'hann' | 'hamming' | 'blackmanHarris' | 'flatTop';
+
+// Where the antenna is and how it moves (a fixed pole, or a patrol car)
+export interface RadarPose {
+  xM: number; // Along-road position
+  yM: number; // Lateral position from the road edge (negative = roadside)
+  heightM: number;
+  heading: TravelDirection; // Direction the antenna looks along the road
+  speedKmh: number; // Ground speed of the platform along its heading
+  aimAngleDeg: number; // Boresight angle from the heading, towards the lanes
+  beamwidthDeg: number;
+}
+
+// Same-direction targets are ambiguous in a real receiver: the operator says which case applies
+export type PatrolTargetMode = 'opposite' | 'sameFaster' | 'sameSlower';
+
+export interface PatrolConfig {
+  enabled: boolean; // Moving mode: radar mounted in a patrol car
+  speedKmh: number; // Cruise ground speed
+  lane: number;
+  targetMode: PatrolTargetMode;
+  speedSwingKmh: number; // Patrol car accelerates/brakes ± this much around cruise (0 = steady)
+  accelerationKmhPerS: number; // Rate of that speed change
+  batchIntervalMs: number; // How often the patrol-speed estimate is refreshed
+}
+
+// Environmental and electrical sources of unwanted baseband tones
+export type DisturbanceSource = 'clutter' | 'sign' | 'rain' | 'hum' | 'fan';
+
+export type MainsFrequency = 50 | 60;
+
+export interface DisturbanceConfig {
+  clutterEnabled: boolean; // Stationary clutter (trees, barriers) swaying around DC
+  clutterLevelDbfs: number;
+  clutterSpreadHz: number; // RMS Doppler spread from wind-blown foliage
+  signEnabled: boolean; // Roadside sign vibrating in the wind
+  signLevelDbfs: number;
+  signVibrationHz: number; // Mechanical vibration frequency
+  signAmplitudeMm: number; // Peak displacement along the line of sight
+  rainEnabled: boolean; // Volume backscatter from falling drops
+  rainRateMmPerH: number;
+  rainVelocityKmh: number; // Mean radial velocity of the drops (wind drift)
+  rainSpreadKmh: number; // RMS spread of the drop velocities
+  humEnabled: boolean; // Power-line pickup and fluorescent-light flicker
+  mainsHz: MainsFrequency;
+  humLevelDbfs: number; // Level of the fundamental; harmonic k is 1/k of it
+  humHarmonics: number;
+  fanEnabled: boolean; // Ceiling fan or HVAC blower in the beam
+  fanDopplerHz: number; // Blade-tip Doppler (both signs: half the blades recede)
+  fanLevelDbfs: number;
+}
+
+export type HighPassType = 'none' | 'fir' | 'iir' | 'mti2' | 'mti3';
+
+// Suppression applied to the baseband before the FFT, in this order
+export interface ClutterFilterConfig {
+  dcRemoval: boolean; // Subtract the block mean
+  highPass: HighPassType;
+  highPassCutoffHz: number; // FIR / IIR corner frequency (MTI cancellers have fixed responses)
+  notchEnabled: boolean;
+  notchMainsHz: MainsFrequency; // Notches at every harmonic of this
+  notchHarmonics: number;
+  customNotchHz: number; // Extra notch, e.g. on a fan (0 = none)
+}
+
+// Receive path from the IF ADC down to the baseband samples
+export interface IfChainConfig {
+  enabled: boolean; // Off: the baseband is synthesized directly
+  adcBits: number; // ADC resolution; full scale is ±1
+  ifGainDb: number; // Gain in front of the ADC
+  cicStages: number; // CIC order N
+  firCompensation: boolean; // The decimating FIR also flattens the CIC droop
+}
+
+export type IfChainStage = 'adc' | 'nco' | 'cic' | 'fir';
+
+// Speed-meter accuracy limit: absolute up to a threshold speed, relative above it
+export interface ToleranceProfile {
+  label: string;
+  thresholdKmh: number;
+  absoluteKmh: number; // ± at or below the threshold
+  relativePercent: number; // ± of the reference speed above it
+}
+
+export type TolerancePreset = 'typeApproval' | 'inService';
+
+// Groups of the certification battery
+export type CalibrationTestKind = 'fork' | 'speed' | 'angle' | 'snr';
+
+export interface CalibrationConfig {
+  tolerance: ToleranceProfile;
+  forkSpeedsKmh: number[]; // Virtual tuning forks
+  repeatsPerCase: number; // Readings taken per test case; every one must pass
+  seed: number;
+}
+
+// Licensed traffic-radar bands
+export type RadarBand = 'X' | 'K' | 'Ka';
+
+// What the inverse-design solver must meet
+export interface DesignRequirements {
+  band: RadarBand;
+  resolutionKmh: number; // Largest acceptable speed bin
+  topSpeedKmh: number; // Fastest target that must be unambiguous
+  speedMarginPercent: number; // Headroom on top of the top speed
+  maxDwellMs: number; // Longest acceptable measurement (one FFT frame)
+}
+
+export type DesignConstraint = 'speed' | 'resolution' | 'dwell';
+
+// Quantity varied by a Monte Carlo accuracy sweep
+export type SweepParameter = 'fftSize' | 'basebandSampleRateHz' | 'frequencyGHz' | 'snrDb' | 'windowType';
+
+export interface SweepConfig {
+  parameter: SweepParameter;
+  start: number; // Range of the swept value (every window is tried for windowType)
+  stop: number;
+  steps: number; // Points from start to stop (FFT sizes step in powers of two)
+  trialsPerPoint: number;
+  minSpeedKmh: number; // Trial cars get a uniform random speed in this range
+  maxSpeedKmh: number;
+  seed: number;
+}
+
+// How a detection's frequency is refined below one FFT bin
+export type FrequencyEstimator = 'argmax' | 'zeroPad' | 'parabolic' | 'quinn' | 'jacobsen' | 'phaseDiff';
+
+export interface EstimatorConfig {
+  method: FrequencyEstimator;
+  zeroPadFactor: number; // Zero-padded FFT length = factor × N
+}
+
+// A single reflected tone in the baseband (one per illuminated target)
+export interface DopplerEcho {
+  carId?: number;
+  isClutter?: boolean; // Ground / roadside return rather than a vehicle
+  disturbance?: DisturbanceSource; // Interference or clutter that is never a target
+  dopplerHz: number;
+  dopplerRateHzPerS?: number; // Drift of the Doppler shift from the target's acceleration
+  amplitude: number; // Linear amplitude relative to full scale
+  phase: number; // Initial phase in radians
+}
+
+export interface SpectrumBin {
+  binIndex: number; // Negative below DC in I/Q mode
+  freq: number; // Hz (signed in I/Q mode)
+  speed: number; // km/h (signed in I/Q mode: + approaching, - receding)
+  amp: number; // Magnitude in dBFS
+  threshold?: number; // CFAR threshold in dBFS (undefined where the detector does not run)
+}
+
+export type CfarMethod = 'CA' | 'OS';
+
+export interface CfarConfig {
+  method: CfarMethod; // Cell-Averaging or Ordered-Statistic
+  guardCells: number; // Per side, excluded from the noise estimate
+  trainingCells: number; // Per side, used for the noise estimate
+  pfa: number; // Design probability of false alarm per cell
+  osRankFraction: number; // OS-CFAR: k = fraction × (number of training cells)
+  dcExclusionBins: number; // Bins around DC that are never reported (static clutter)
+}
+
+export interface Detection {
+  binIndex: number;
+  freq: number; // Hz
+  speed: number; // km/h (signed in I/Q mode: + approaching, - receding)
+  amp: number; // Peak magnitude in dBFS
+  snrDb: number; // Peak over the CFAR noise estimate
+  carId?: number; // Ground-truth target this detection is attributed to (if any)
+  isClutter?: boolean; // Attributed to ground clutter (moving mode)
+  disturbance?: DisturbanceSource; // Attributed to clutter, rain or interference
+  closingSpeed?: number; // Moving mode: raw radial speed before patrol-speed compensation
+}
+
+// One FMCW frame after the range and Doppler FFTs
+export interface RangeDopplerMap {
+  powerDb: number[][]; // [dopplerBin][rangeBin] in dBFS, Doppler fftshifted (row 0 = most receding)
+  rangeResolutionM: number;
+  maxRangeM: number;
+  speedResolutionKmh: number;
+  maxSpeedKmh: number; // Doppler axis spans ±maxSpeedKmh
 }
 
+// How detections are assigned to tracks each frame
+export type AssociationMethod = 'NN' | 'GNN';
+
+export type TrackStatus = 'tentative' | 'confirmed';
+
+export interface TrackerConfig {
+  association: AssociationMethod;
+  gateSigma: number; // Gate on the normalised innovation |z - v̂| / √S
+  confirmHits: number; // M of the last N frames must hit to confirm (M-of-N)
+  confirmWindow: number; // N
+  maxMisses: number; // Consecutive misses before a confirmed track is deleted
+  accelNoise: number; // Process noise: spectral density of the jerk, (km/h/s)²/s
+}
+
+// One target followed from frame to frame by a constant-acceleration Kalman filter
+export interface Track {
+  id: number;
+  status: TrackStatus;
+  speedKmh: number; // Filtered speed (signed like Detection.speed)
+  accelKmhPerS: number; // Filtered acceleration
+  covariance: [number, number, number]; // P as [σ²_v, σ_va, σ²_a]
+  hitHistory: boolean[]; // Last confirmWindow frames, newest last
+  misses: number; // Consecutive frames without a detection
+  age: number; // Frames since the track was started
+  lastMeasurementKmh?: number;
+  carId?: number; // Ground truth of the last associated detection (display only)
+}
+
+// confirmed: true speed over the enforcement threshold; falsePositive: triggered by a legal car or no car;
+// missed: a speeder completed its pass without triggering
+export type ViolationOutcome = 'confirmed' | 'falsePositive' | 'missed';
+
+export interface ViolationEvent {
+  id: number;
+  timestampMs: number;
+  outcome: ViolationOutcome;
+  carId?: number; // Undefined for a return not matched to any car
+  vehicleClass?: VehicleClass;
+  measuredSpeedKmh?: number; // Undefined for a missed violation
+  trueSpeedKmh?: number;
+  errorKmh?: number; // Measured - true
+  speedLimitKmh: number; // Limit for the car's lane and class (the road limit when unmatched)
+  thresholdKmh: number; // Limit plus the enforcement tolerance: what triggers
+  binResolutionKmh: number;
+  radar: RadarParams; // Configuration in effect
+}
+
+// Scripted changes in a scenario timeline, fired at atS seconds after loading
+export type ScenarioEvent =
+  | { atS: number; type: 'setSpeed'; carId: number; speedKmh: number; accelKmhPerS?: number } // Ramps when accelKmhPerS is set
+  | { atS: number; type: 'addCar'; car: Car }
+  | { atS: number; type: 'removeCar'; carId: number }
+  | { atS: number; type: 'changeLane'; carId: number; lane: number }
+  | { atS: number; type: 'setRadar'; radar: Partial<RadarParams> };
+
+// Versioned, self-contained description of a setup that can be saved and shared
+export interface Scenario {
+  version: number;
+  name: string;
+  description?: string;
+  radar: RadarParams;
+  laneDirections: TravelDirection[];
+  cars: Car[]; // x is the starting position
+  patrol?: PatrolConfig;
+  traffic?: TrafficConfig; // Default traffic model when omitted
+  timeline: ScenarioEvent[];
+}
+
+export type ColormapName = 'viridis' | 'inferno' | 'jet' | 'grayscale';
+
+// One row of the waterfall: the spectrum of one observation window
+export interface SpectrogramFrame {
+  timeMs: number; // Start of the observation window (wall clock)
+  amps: number[]; // dBFS per bin, same order as computeSpectrum
+}
+
+export interface SpectrogramConfig {
+  colormap: ColormapName;
+  minDb: number; // Mapped to the bottom of the colour map
+  maxDb: number; // Mapped to the top of the colour map
+  historyFrames: number; // Rows kept before the oldest scroll off
+}
+
+// Sample encoding of an exported WAV recording
+export type WavSampleFormat = 'pcm16' | 'float32';
+
 export interface SimulationState {
   radar: RadarParams;
   cars: Car[];
@@ -17,15 +311,124 @@ export interface SimulationState {
   // Calculated Metrics
   speedResolution: number; // Resolution in km/h
   maxSpeed: number; // Max unambiguous speed in km/h
+  linkBudgets: LinkBudget[]; // Per-car received power, SNR and Pd
+
+  // Measurement Pipeline Output
+  spectrum: SpectrumBin[];
+  detections: Detection[];
+  unfilteredAmps?: number[]; // Spectrum before the clutter filters, when any are on
+  timeS: number; // Simulation time of the snapshot the frame was measured on
+}
+
+export interface SimulationConfig {
+  roadLengthM: number; // Vehicles leaving one end re-enter at the other
+  timestepS: number; // Fixed physics step
+  seed: number; // Seeds traffic randomness and the measurement noise
 }
 
+// The world at one physics tick, as handed to the radar pipeline and the drawing code
+export interface SimulationSnapshot {
+  tick: number;
+  timeS: number;
+  seed: number;
+  cars: Car[]; // x in scene pixels, for the drawing and radar code
+  patrolXm: number | null; // Rear of the patrol car, when moving mode is on
+  patrolSpeedKmh: number;
+  pose: RadarPose;
+}
+
+export interface LinkBudget {
+  carId: number;
+  rangeM: number;
+  rcsM2: number;
+  receivedPowerDbm: number;
+  noisePowerDbm: number;
+  snrDb: number; // Per sample, in the receiver noise bandwidth
+  integratedSnrDb: number; // In the FFT bin, after coherent integration
+  pd: number; // Probability of detection at the CFAR design Pfa
+}
+
+// +1: drives left to right (+x), -1: right to left
+export type TravelDirection = 1 | -1;
+
+// Which detections the readout may use (needs an I/Q receiver to tell them apart)
+export type DirectionFilter = 'both' | 'approaching' | 'receding';
+
+export type VehicleClass = 'motorcycle' | 'car' | 'van' | 'truck';
+
 export interface Car {
   id: number;
   x: number; // Position in pixels
   lane: number; // 0, 1, or 2
   color: string;
-  speedKmh: number; // Individual speed
+  speedKmh: number; // Individual speed (magnitude); the desired speed when the traffic model drives
+  direction: TravelDirection; // Follows the lane's direction of travel
+  vehicleClass: VehicleClass;
+  rcsM2: number; // Radar cross-section (defaults to the class value)
+  aggressiveness?: number; // Driver, 0 (cautious) – 1 (aggressive); 0.5 when omitted
+  accelKmhPerS?: number; // Current acceleration, set on simulation snapshots
+}
+
+// Constant: every vehicle holds its set speed. IDM: car-following with MOBIL lane changes.
+export type TrafficModel = 'constant' | 'idm';
+
+export interface TrafficConfig {
+  model: TrafficModel;
+  flowVehPerHour: number; // Arrivals per lane at the road entry; 0 keeps the traffic on a closed loop
+  meanDesiredSpeedKmh: number; // Spawned drivers want this ±15 %
+}
+
+// How the readout picks one detection out of many
+export type TargetSelectionMode = 'strongest' | 'fastest';
+
+export interface TargetSelection {
+  detection: Detection;
+  mode: TargetSelectionMode;
+  strongest: Detection; // Always reported, so "fastest" can be compared against it
+}
+
+export type SpeedUnit = 'kmh' | 'mph';
+
+// What reading above the limit triggers enforcement: the limit itself, limit + offset or limit + percentage
+export type EnforcementToleranceRule = 'none' | 'fixed' | 'percent';
+
+// Canned enforcement configurations
+export type EnforcementPreset = 'default' | 'motorway' | 'usHighway';
+
+// Limits are held in km/h whatever the display unit
+export interface EnforcementConfig {
+  unit: SpeedUnit; // Every speed readout and the sign
+  speedLimitKmh: number; // Road limit
+  laneLimitsKmh: (number | null)[]; // Per lane; null follows the road limit
+  classLimitsKmh: Partial<Record<VehicleClass, number>>; // A class limit applies when lower than the lane's
+  toleranceRule: EnforcementToleranceRule;
+  tolerance: number; // km/h for 'fixed', % for 'percent'
+}
+
+// Every station time-stamps and identifies passing vehicles; a radar station also measures a spot speed
+export type SectionStationKind = 'radar' | 'camera';
+
+// How passages at two stations are paired: the vehicle id (a number plate), or class and timing
+export type ReidentificationMode = 'plate' | 'signature';
+
+export interface SectionStation {
+  positionM: number; // Along the section-control road
+  kind: SectionStationKind;
+  radar: RadarParams; // Used by radar stations
+}
+
+// Point-to-point (average speed) control on a longer, free-flowing road
+export interface SectionControlConfig {
+  roadLengthM: number;
+  stations: SectionStation[];
+  vehicleCount: number;
+  meanSpeedKmh: number; // Cruising speeds are drawn within ±15 % of this
+  slowDownPercent: number; // Drivers who brake to the limit at each radar and speed up again
+  reidentification: ReidentificationMode;
+  plateReadPercent: number; // Plate mode: chance a passage's plate is read
+  classErrorPercent: number; // Signature mode: chance a station records the wrong class
+  timestampJitterMs: number; // Station clock error, ± uniform
+  seed: number;
 }
 
-export const SPEED_LIMIT_KMH = 100;
 export const C = 299792458; // Speed of light in m/s
\ No newline at end of file
@@ -0,0 +1,285 @@
+import { CalibrationConfig, CalibrationTestKind, CfarConfig, DirectionFilter, DopplerEcho, RadarParams, SpeedUnit, ToleranceProfile, TolerancePreset } from '../types';
+import { DEFAULT_BASEBAND_OPTIONS, calculateMainLobeHalfWidthBins, calculateScallopingLossDb } from './dsp';
+import { MeasurementSettings, filterDetectionsByDirection, measureEchoes, selectTarget, snrToAmplitude } from './pipeline';
+import { calculateDopplerShift, calculateSpeedResolution } from './physics';
+import { calculateIntegrationGain, calculateProbabilityOfDetection, dbToLinear, linearToDb } from './radarEquation';
+import { calculateCaCfarScale } from './cfar';
+import { formatSpeed } from './enforcement';
+import { calculateBeamGain } from './geometry';
+import { createRng } from './simulation';
+
+export const TOLERANCE_PRESETS: Record<TolerancePreset, ToleranceProfile> = {
+  typeApproval: { label: 'Type approval', thresholdKmh: 100, absoluteKmh: 1, relativePercent: 1 },
+  inService: { label: 'In service', thresholdKmh: 100, absoluteKmh: 3, relativePercent: 3 },
+};
+
+export const CALIBRATION_TEST_LABELS: Record<CalibrationTestKind, string> = {
+  fork: 'Tuning fork',
+  speed: 'Speed range',
+  angle: 'Beam angle',
+  snr: 'Signal level',
+};
+
+export const DEFAULT_CALIBRATION_CONFIG: CalibrationConfig = {
+  tolerance: TOLERANCE_PRESETS.typeApproval,
+  forkSpeedsKmh: [50, 100, 150],
+  repeatsPerCase: 10,
+  seed: 1,
+};
+
+// The standard battery: speeds spread over the measurable range, angles off boresight (in beamwidths) and post-FFT SNRs
+const BATTERY_SPEED_STEPS = 10;
+const BATTERY_ANGLE_OFFSETS = [0, 0.25, 0.5, 0.75, 1];
+const BATTERY_SNRS_DB = [3, 6, 10, 15, 20];
+// Road speed for the angle and SNR cases
+const BATTERY_REFERENCE_KMH = 100;
+// Post-FFT SNR of a tuning fork held in front of the antenna, and of the other simulated targets
+const FORK_SNR_DB = 40;
+const TARGET_SNR_DB = 30;
+// Detection probability a graded case needs: every one of its readings must be taken
+const GRADED_DETECTION_PROBABILITY = 0.999;
+
+// Echo id of the injected reference target, so detections can be attributed to it
+const REFERENCE_TARGET_ID = 0;
+
+const SLICE_BUDGET_MS = 15;
+
+// One test case: a pure Doppler tone at a known radial speed and level
+export interface CalibrationCase {
+  kind: CalibrationTestKind;
+  label: string;
+  referenceKmh: number; // Radial speed of the injected tone: what the meter must read
+  snrDb: number; // Post-FFT SNR of the tone
+  graded: boolean; // False: characterisation only, outside the pass/fail verdict
+  note?: string;
+}
+
+export interface CalibrationCaseResult extends CalibrationCase {
+  toleranceKmh: number;
+  readingsKmh: number[]; // One per repeat that produced a reading
+  missed: number; // Repeats with no reading at all
+  wrongTarget: number; // Readings that were not the reference tone (noise, clutter, an alias)
+  meanErrorKmh: number | null;
+  maxAbsErrorKmh: number | null;
+  passed: boolean;
+}
+
+export interface CalibrationProgress {
+  results: CalibrationCaseResult[]; // Finished cases, in battery order
+  completedReadings: number;
+  totalReadings: number;
+  done: boolean;
+}
+
+export interface CalibrationReport {
+  generatedAt: string; // ISO 8601
+  tolerance: ToleranceProfile;
+  repeatsPerCase: number;
+  seed: number;
+  radar: RadarParams;
+  settings: Omit<MeasurementSettings, 'radar' | 'disturbances'>;
+  passed: boolean; // Every graded case passed
+  passedCases: number; // Graded cases only
+  totalCases: number;
+  characterisationCases: number;
+  cases: CalibrationCaseResult[];
+}
+
+/**
+ * Maximum permissible error at a reference speed:
+ * ±a km/h up to the threshold, ±p % of the reference above it.
+ */
+export const calculateToleranceKmh = (profile: ToleranceProfile, referenceKmh: number): number =>
+  referenceKmh <= profile.thresholdKmh ? profile.absoluteKmh : (referenceKmh * profile.relativePercent) / 100;
+
+/**
+ * Radial speeds the battery can grade. Below the first bin whose CFAR training cells are
+ * clear of the static-clutter line at DC and its main lobe, k ≥ max(d, g + t + K) for a
+ * K-term window, the tone is masked; the top bin is one below Nyquist, k ≤ N/2 - 1.
+ */
+export const calculateMeasurableRangeKmh = (radar: RadarParams, cfar: CfarConfig): { minKmh: number; maxKmh: number } => {
+  const binKmh = calculateSpeedResolution(radar.basebandSampleRateHz, radar.fftSize, radar.frequencyGHz);
+  const lowestBin = Math.max(cfar.dcExclusionBins, cfar.guardCells + cfar.trainingCells + calculateMainLobeHalfWidthBins(radar.windowType));
+  return { minKmh: lowestBin * binKmh, maxKmh: (radar.fftSize / 2 - 1) * binKmh };
+};
+
+/**
+ * Lowest post-FFT SNR a case is graded at: the SNR for a 0.999 detection probability at the
+ * CFAR's Pfa (North), plus the CA-CFAR loss 10 · log₁₀(α / -ln Pfa) and the window's
+ * scalloping loss. Weaker tones are characterised but cannot fail the battery.
+ */
+export const calculateGradedSnrDb = (radar: RadarParams, cfar: CfarConfig): number => {
+  let lo = 0;
+  let hi = 1e6;
+  for (let iter = 0; iter < 60; iter++) {
+    const mid = (lo + hi) / 2;
+    if (calculateProbabilityOfDetection(mid, cfar.pfa) < GRADED_DETECTION_PROBABILITY) lo = mid;
+    else hi = mid;
+  }
+  const cfarLossDb = linearToDb(calculateCaCfarScale(2 * cfar.trainingCells, cfar.pfa) / -Math.log(cfar.pfa));
+  return linearToDb(hi) + cfarLossDb + calculateScallopingLossDb(radar.windowType, radar.fftSize);
+};
+
+/**
+ * The battery: every tuning fork, the speed range on boresight, a fixed speed across the
+ * beam (radial speed v · cos θ at a level set by the two-way pattern, 20·log₁₀ g(φ)) and
+ * the same speed at falling SNR. Cases outside the measurable range or below the graded
+ * SNR are kept as characterisation. Labels and notes give speeds in `unit`.
+ */
+export const buildCalibrationCases = (config: CalibrationConfig, settings: MeasurementSettings, unit: SpeedUnit = 'kmh'): CalibrationCase[] => {
+  const { radar, cfar } = settings;
+  const { minKmh, maxKmh } = calculateMeasurableRangeKmh(radar, cfar);
+  const gradedSnrDb = calculateGradedSnrDb(radar, cfar);
+  const grade = (referenceKmh: number, snrDb: number, note?: string) => {
+    if (referenceKmh < minKmh || referenceKmh > maxKmh) {
+      return { graded: false, note: `Outside the measurable ${formatSpeed(minKmh, unit)} to ${formatSpeed(maxKmh, unit, 0)}: characterisation only` };
+    }
+    if (snrDb < gradedSnrDb) {
+      return { graded: false, note: `Below the graded ${gradedSnrDb.toFixed(1)} dB SNR: characterisation only` };
+    }
+    return { graded: true, note };
+  };
+  const firstKmh = Math.ceil(minKmh);
+  const lastKmh = Math.floor(maxKmh);
+  const speeds = lastKmh > firstKmh
+    ? [...new Set(Array.from({ length: BATTERY_SPEED_STEPS }, (_, i) => Math.round(firstKmh + (i * (lastKmh - firstKmh)) / (BATTERY_SPEED_STEPS - 1))))]
+    : [];
+  return [
+    ...config.forkSpeedsKmh.map(kmh => ({
+      kind: 'fork' as const, label: `${formatSpeed(kmh, unit, 0)} fork`, referenceKmh: kmh, snrDb: FORK_SNR_DB, ...grade(kmh, FORK_SNR_DB),
+    })),
+    ...speeds.map(kmh => ({
+      kind: 'speed' as const, label: formatSpeed(kmh, unit, 0), referenceKmh: kmh, snrDb: TARGET_SNR_DB, ...grade(kmh, TARGET_SNR_DB),
+    })),
+    ...BATTERY_ANGLE_OFFSETS.map(beamwidths => {
+      const offsetDeg = beamwidths * radar.beamwidthDeg;
+      const thetaDeg = radar.aimAngleDeg + offsetDeg;
+      const radialKmh = BATTERY_REFERENCE_KMH * Math.cos((thetaDeg * Math.PI) / 180);
+      const snrDb = TARGET_SNR_DB + 20 * Math.log10(calculateBeamGain(offsetDeg, radar.beamwidthDeg));
+      return {
+        kind: 'angle' as const,
+        label: `θ = ${thetaDeg.toFixed(1)}° (boresight +${offsetDeg.toFixed(1)}°)`,
+        referenceKmh: radialKmh,
+        snrDb,
+        ...grade(radialKmh, snrDb, `Cosine effect ${formatSpeed(radialKmh - BATTERY_REFERENCE_KMH, unit)} against the ${formatSpeed(BATTERY_REFERENCE_KMH, unit, 0)} road speed`),
+      };
+    }),
+    ...BATTERY_SNRS_DB.map(snrDb => ({
+      kind: 'snr' as const, label: `${snrDb} dB SNR`, referenceKmh: BATTERY_REFERENCE_KMH, snrDb, ...grade(BATTERY_REFERENCE_KMH, snrDb),
+    })),
+  ];
+};
+
+// The tone moves the way the direction filter accepts (approaching unless only receding is measured)
+const referenceEcho = (testCase: CalibrationCase, radar: RadarParams, directionFilter: DirectionFilter, random: () => number): DopplerEcho => {
+  const sign = directionFilter === 'receding' ? -1 : 1;
+  const snrPerSample = dbToLinear(testCase.snrDb) / calculateIntegrationGain(radar);
+  return {
+    carId: REFERENCE_TARGET_ID,
+    dopplerHz: sign * calculateDopplerShift(testCase.referenceKmh, radar.frequencyGHz),
+    amplitude: snrToAmplitude(snrPerSample, DEFAULT_BASEBAND_OPTIONS.noiseRms),
+    phase: random() * 2 * Math.PI,
+  };
+};
+
+/**
+ * One reading of the test case through the live pipeline: filters, CFAR, estimator,
+ * direction filter and target selection. No traffic or disturbances: laboratory conditions.
+ */
+const takeReading = (
+  testCase: CalibrationCase,
+  settings: MeasurementSettings,
+  random: () => number
+): { speedKmh: number; isReference: boolean } | null => {
+  const { radar } = settings;
+  const echo = referenceEcho(testCase, radar, settings.directionFilter, random);
+  const frame = measureEchoes([echo], radar, settings.cfar, { ...DEFAULT_BASEBAND_OPTIONS, random }, settings.filter, settings.estimator);
+  const selection = selectTarget(filterDetectionsByDirection(frame.detections, settings.directionFilter, radar), settings.selectionMode);
+  if (!selection) return null;
+  return { speedKmh: Math.abs(selection.detection.speed), isReference: selection.detection.carId === REFERENCE_TARGET_ID };
+};
+
+const scoreCase = (
+  testCase: CalibrationCase,
+  profile: ToleranceProfile,
+  readings: ({ speedKmh: number; isReference: boolean } | null)[]
+): CalibrationCaseResult => {
+  const toleranceKmh = calculateToleranceKmh(profile, testCase.referenceKmh);
+  const taken = readings.flatMap(r => (r ? [r] : []));
+  const errors = taken.map(r => r.speedKmh - testCase.referenceKmh);
+  const maxAbsErrorKmh = errors.length ? Math.max(...errors.map(Math.abs)) : null;
+  const wrongTarget = taken.filter(r => !r.isReference).length;
+  return {
+    ...testCase,
+    toleranceKmh,
+    readingsKmh: taken.map(r => r.speedKmh),
+    missed: readings.length - taken.length,
+    wrongTarget,
+    meanErrorKmh: errors.length ? errors.reduce((sum, e) => sum + e, 0) / errors.length : null,
+    maxAbsErrorKmh,
+    passed: taken.length === readings.length && wrongTarget === 0 && maxAbsErrorKmh !== null && maxAbsErrorKmh <= toleranceKmh,
+  };
+};
+
+/**
+ * Runs the battery in time slices (like a Monte Carlo sweep) and reports after each slice.
+ * Every reading has its own generator, so the report is repeatable for a given seed.
+ * Returns a cancel function.
+ */
+export const startCalibration = (
+  config: CalibrationConfig,
+  settings: MeasurementSettings,
+  onUpdate: (progress: CalibrationProgress) => void,
+  unit: SpeedUnit = 'kmh'
+): (() => void) => {
+  const cases = buildCalibrationCases(config, settings, unit);
+  const repeats = Math.max(1, Math.round(config.repeatsPerCase));
+  const results: CalibrationCaseResult[] = [];
+  let readings: ({ speedKmh: number; isReference: boolean } | null)[] = [];
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+
+  const runSlice = () => {
+    const sliceStart = performance.now();
+    while (results.length < cases.length && performance.now() - sliceStart < SLICE_BUDGET_MS) {
+      const testCase = cases[results.length];
+      const random = createRng(config.seed ^ Math.imul(results.length + 1, 0x9e3779b1) ^ Math.imul(readings.length + 1, 0x85ebca6b));
+      readings.push(takeReading(testCase, settings, random));
+      if (readings.length === repeats) {
+        results.push(scoreCase(testCase, config.tolerance, readings));
+        readings = [];
+      }
+    }
+    const done = results.length >= cases.length;
+    onUpdate({ results: [...results], completedReadings: results.length * repeats + readings.length, totalReadings: cases.length * repeats, done });
+    if (!done) timerId = setTimeout(runSlice, 0);
+  };
+
+  timerId = setTimeout(runSlice, 0);
+  return () => clearTimeout(timerId);
+};
+
+export const createCalibrationReport = (
+  config: CalibrationConfig,
+  settings: MeasurementSettings,
+  results: CalibrationCaseResult[],
+  date: Date = new Date()
+): CalibrationReport => {
+  const { radar, cfar, filter, estimator, selectionMode, directionFilter } = settings;
+  const graded = results.filter(r => r.graded);
+  const passedCases = graded.filter(r => r.passed).length;
+  return {
+    generatedAt: date.toISOString(),
+    tolerance: config.tolerance,
+    repeatsPerCase: config.repeatsPerCase,
+    seed: config.seed,
+    radar,
+    settings: { cfar, filter, estimator, selectionMode, directionFilter },
+    passed: graded.length > 0 && passedCases === graded.length,
+    passedCases,
+    totalCases: graded.length,
+    characterisationCases: results.length - graded.length,
+    cases: results,
+  };
+};
+
+export const calibrationReportToJson = (report: CalibrationReport): string => JSON.stringify(report, null, 2);
@@ -0,0 +1,117 @@
+import { CfarConfig, CfarMethod, Detection, SpectrumBin } from '../types';
+
+export const CFAR_LABELS: Record<CfarMethod, string> = {
+  CA: 'Cell-Averaging',
+  OS: 'Ordered-Statistic',
+};
+
+export const DEFAULT_CFAR_CONFIG: CfarConfig = {
+  method: 'CA',
+  guardCells: 2,
+  trainingCells: 8,
+  pfa: 1e-5,
+  osRankFraction: 0.75,
+  dcExclusionBins: 2,
+};
+
+/**
+ * CA-CFAR threshold multiplier for N training cells (square-law detector):
+ * α = N · (Pfa^(-1/N) - 1)
+ */
+export const calculateCaCfarScale = (numTraining: number, pfa: number): number => {
+  return numTraining * (Math.pow(pfa, -1 / numTraining) - 1);
+};
+
+/**
+ * OS-CFAR threshold multiplier for the k-th smallest of N training cells.
+ * Solves Pfa = Π_{i=0}^{k-1} (N - i) / (N - i + α) for α by bisection.
+ */
+export const calculateOsCfarScale = (numTraining: number, rank: number, pfa: number): number => {
+  const pfaFor = (alpha: number) => {
+    let p = 1;
+    for (let i = 0; i < rank; i++) p *= (numTraining - i) / (numTraining - i + alpha);
+    return p;
+  };
+
+  let lo = 0;
+  let hi = 1;
+  while (pfaFor(hi) > pfa && hi < 1e9) hi *= 2;
+  for (let iter = 0; iter < 60; iter++) {
+    const mid = (lo + hi) / 2;
+    if (pfaFor(mid) > pfa) lo = mid;
+    else hi = mid;
+  }
+  return hi;
+};
+
+const dbToPower = (db: number) => Math.pow(10, db / 10);
+const powerToDb = (power: number) => 10 * Math.log10(power + 1e-30);
+
+/**
+ * Runs a 1D CFAR detector over a magnitude spectrum.
+ * Returns the spectrum with the threshold curve attached, and one detection per
+ * local maximum that crosses it.
+ */
+export const runCfar = (
+  spectrum: SpectrumBin[],
+  config: CfarConfig
+): { spectrum: SpectrumBin[]; detections: Detection[] } => {
+  const power = spectrum.map(bin => dbToPower(bin.amp));
+  const n = power.length;
+  const noiseEstimates: (number | undefined)[] = new Array(n).fill(undefined);
+  const thresholds: (number | undefined)[] = new Array(n).fill(undefined);
+
+  for (let cut = 0; cut < n; cut++) {
+    // Training cells on both sides, skipping the guard cells around the Cell Under Test
+    const training: number[] = [];
+    for (let offset = config.guardCells + 1; offset <= config.guardCells + config.trainingCells; offset++) {
+      if (cut - offset >= 0) training.push(power[cut - offset]);
+      if (cut + offset < n) training.push(power[cut + offset]);
+    }
+    if (training.length === 0) continue;
+
+    let noise: number;
+    let scale: number;
+    if (config.method === 'OS') {
+      const rank = Math.min(training.length, Math.max(1, Math.round(config.osRankFraction * training.length)));
+      training.sort((a, b) => a - b);
+      noise = training[rank - 1];
+      scale = calculateOsCfarScale(training.length, rank, config.pfa);
+    } else {
+      noise = training.reduce((sum, p) => sum + p, 0) / training.length;
+      scale = calculateCaCfarScale(training.length, config.pfa);
+    }
+
+    noiseEstimates[cut] = noise;
+    thresholds[cut] = noise * scale;
+  }
+
+  const detections: Detection[] = [];
+  for (let cut = 0; cut < n; cut++) {
+    if (Math.abs(spectrum[cut].binIndex) < config.dcExclusionBins) continue;
+    const threshold = thresholds[cut];
+    const noise = noiseEstimates[cut];
+    if (threshold === undefined || noise === undefined || power[cut] <= threshold) continue;
+
+    // Report only the local maximum of each crossing
+    const isPeak = (cut === 0 || power[cut] >= power[cut - 1]) && (cut === n - 1 || power[cut] > power[cut + 1]);
+    if (!isPeak) continue;
+
+    const bin = spectrum[cut];
+    detections.push({
+      binIndex: bin.binIndex,
+      freq: bin.freq,
+      speed: bin.speed,
+      amp: bin.amp,
+      snrDb: powerToDb(power[cut] / noise),
+    });
+  }
+
+  return {
+    spectrum: spectrum.map((bin, k) => ({
+      ...bin,
+      threshold: thresholds[k] !== undefined ? powerToDb(thresholds[k] as number) : undefined,
+    })),
+    detections,
+  };
+};
@@ -0,0 +1,306 @@
+import { ClutterFilterConfig, DisturbanceConfig, DisturbanceSource, DopplerEcho, HighPassType, RadarParams } from '../types';
+import { gaussianRandom } from './dsp';
+import { calculateDopplerShift, calculateWavelengthMm } from './physics';
+
+export const DISTURBANCE_LABELS: Record<DisturbanceSource, string> = {
+  clutter: 'Clutter',
+  sign: 'Sign',
+  rain: 'Rain',
+  hum: 'Hum',
+  fan: 'Fan',
+};
+
+export const HIGH_PASS_LABELS: Record<HighPassType, string> = {
+  none: 'None',
+  fir: 'FIR High-Pass',
+  iir: 'IIR High-Pass',
+  mti2: '2-Pulse MTI',
+  mti3: '3-Pulse MTI',
+};
+
+export const DEFAULT_DISTURBANCE_CONFIG: DisturbanceConfig = {
+  clutterEnabled: false,
+  clutterLevelDbfs: -30,
+  clutterSpreadHz: 20,
+  signEnabled: false,
+  signLevelDbfs: -40,
+  signVibrationHz: 12,
+  signAmplitudeMm: 2,
+  rainEnabled: false,
+  rainRateMmPerH: 10,
+  rainVelocityKmh: 15,
+  rainSpreadKmh: 8,
+  humEnabled: false,
+  mainsHz: 50,
+  humLevelDbfs: -35,
+  humHarmonics: 20,
+  fanEnabled: false,
+  fanDopplerHz: 1600,
+  fanLevelDbfs: -45,
+};
+
+export const DEFAULT_CLUTTER_FILTER_CONFIG: ClutterFilterConfig = {
+  dcRemoval: false,
+  highPass: 'none',
+  highPassCutoffHz: 100,
+  notchEnabled: false,
+  notchMainsHz: 50,
+  notchHarmonics: 5,
+  customNotchHz: 0,
+};
+
+// Scatterers making up the spread-out sources (clutter patch, rain volume)
+const CLUTTER_SCATTERERS = 16;
+const RAIN_SCATTERERS = 24;
+// Rain level at 1 mm/h; reflectivity Z = 200·R^1.6 (Marshall-Palmer) adds 16 dB per decade of rain rate
+const RAIN_LEVEL_AT_1MM_DBFS = -55;
+const FIR_HIGH_PASS_TAPS = 129;
+const NOTCH_BANDWIDTH_HZ = 8; // Constant -3 dB width, so higher harmonics get proportionally sharper notches
+// Pre-roll cap: the filters see at most this many samples before the frame
+const MAX_SETTLING_SAMPLES = 8192;
+
+const dbfsToAmplitude = (dbfs: number) => Math.pow(10, dbfs / 20);
+
+/**
+ * Bessel function of the first kind J_k(x), k ≥ 0, by its power series
+ * J_k(x) = Σ_m (−1)^m / (m! (m + k)!) · (x/2)^(2m + k)
+ */
+export const besselJ = (k: number, x: number): number => {
+  let term = Math.pow(x / 2, k);
+  for (let f = 2; f <= k; f++) term /= f;
+  let sum = term;
+  for (let m = 1; m < 60; m++) {
+    term *= -(x * x) / (4 * m * (m + k));
+    sum += term;
+    if (Math.abs(term) < 1e-12 * Math.abs(sum)) break;
+  }
+  return sum;
+};
+
+// A real tone A·cos(2π f t + φ) in I only: two conjugate lines of A/2 at ±f
+const realTone = (disturbance: DisturbanceSource, freqHz: number, amplitude: number, phase: number): DopplerEcho[] => [
+  { disturbance, dopplerHz: freqHz, amplitude: amplitude / 2, phase },
+  { disturbance, dopplerHz: -freqHz, amplitude: amplitude / 2, phase: -phase },
+];
+
+/**
+ * Baseband tones of the enabled disturbance sources:
+ * - clutter: scatterers at Doppler ~ N(0, σ_f²), total level as set
+ * - sign: phase modulation by the vibration, e^(jβ sin 2π f_m t) = Σ J_k(β) e^(j2π k f_m t), β = 4π d / λ
+ * - rain: scatterers at the Doppler of v ~ N(v̄, σ_v²); level + 16·log10(R) dB
+ * - hum: real tones at k · f_mains, amplitude 1/k (electrical pickup in the I channel)
+ * - fan: blade tips approaching and receding at ±f_fan
+ */
+export const disturbanceEchoes = (
+  config: DisturbanceConfig,
+  radar: RadarParams,
+  random: () => number = Math.random
+): DopplerEcho[] => {
+  const echoes: DopplerEcho[] = [];
+  const randomPhase = () => random() * 2 * Math.PI;
+
+  if (config.clutterEnabled) {
+    const amplitude = dbfsToAmplitude(config.clutterLevelDbfs) / Math.sqrt(CLUTTER_SCATTERERS);
+    for (let k = 0; k < CLUTTER_SCATTERERS; k++) {
+      echoes.push({ disturbance: 'clutter', dopplerHz: config.clutterSpreadHz * gaussianRandom(random), amplitude, phase: randomPhase() });
+    }
+  }
+
+  if (config.signEnabled) {
+    const beta = (4 * Math.PI * config.signAmplitudeMm) / calculateWavelengthMm(radar.frequencyGHz);
+    const amplitude = dbfsToAmplitude(config.signLevelDbfs);
+    const phase = randomPhase();
+    const orders = Math.ceil(beta) + 3; // Carson's rule: J_k is negligible beyond β + 1
+    for (let k = -orders; k <= orders; k++) {
+      // J_−k = (−1)^k J_k; a negative coefficient is a half-turn of phase
+      const coefficient = besselJ(Math.abs(k), beta) * (k < 0 && k % 2 !== 0 ? -1 : 1);
+      echoes.push({
+        disturbance: 'sign',
+        dopplerHz: k * config.signVibrationHz,
+        amplitude: amplitude * Math.abs(coefficient),
+        phase: phase + (coefficient < 0 ? Math.PI : 0),
+      });
+    }
+  }
+
+  if (config.rainEnabled && config.rainRateMmPerH > 0) {
+    const levelDbfs = RAIN_LEVEL_AT_1MM_DBFS + 16 * Math.log10(config.rainRateMmPerH);
+    const amplitude = dbfsToAmplitude(levelDbfs) / Math.sqrt(RAIN_SCATTERERS);
+    for (let k = 0; k < RAIN_SCATTERERS; k++) {
+      const velocityKmh = config.rainVelocityKmh + config.rainSpreadKmh * gaussianRandom(random);
+      echoes.push({ disturbance: 'rain', dopplerHz: calculateDopplerShift(velocityKmh, radar.frequencyGHz), amplitude, phase: randomPhase() });
+    }
+  }
+
+  if (config.humEnabled) {
+    const amplitude = dbfsToAmplitude(config.humLevelDbfs);
+    for (let k = 1; k <= config.humHarmonics; k++) {
+      echoes.push(...realTone('hum', k * config.mainsHz, amplitude / k, randomPhase()));
+    }
+  }
+
+  if (config.fanEnabled) {
+    const amplitude = dbfsToAmplitude(config.fanLevelDbfs) / Math.SQRT2;
+    echoes.push({ disturbance: 'fan', dopplerHz: config.fanDopplerHz, amplitude, phase: randomPhase() });
+    echoes.push({ disturbance: 'fan', dopplerHz: -config.fanDopplerHz, amplitude, phase: randomPhase() });
+  }
+  return echoes;
+};
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number]; // a1, a2 (a0 normalised to 1)
+}
+
+// RBJ cookbook: 2nd-order Butterworth high-pass (Q = 1/√2)
+const designHighPassBiquad = (cutoffHz: number, sampleRateHz: number): Biquad => {
+  const w0 = (2 * Math.PI * cutoffHz) / sampleRateHz;
+  const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  return { b: [(1 + cos) / 2 / a0, -(1 + cos) / a0, (1 + cos) / 2 / a0], a: [(-2 * cos) / a0, (1 - alpha) / a0] };
+};
+
+// RBJ cookbook: notch with Q = f0 / bandwidth
+const designNotchBiquad = (centerHz: number, sampleRateHz: number): Biquad => {
+  const w0 = (2 * Math.PI * centerHz) / sampleRateHz;
+  const alpha = Math.sin(w0) / (2 * (centerHz / NOTCH_BANDWIDTH_HZ));
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  return { b: [1 / a0, (-2 * cos) / a0, 1 / a0], a: [(-2 * cos) / a0, (1 - alpha) / a0] };
+};
+
+/**
+ * Windowed-sinc (Hamming) low-pass turned high-pass by spectral inversion: h_hp[n] = δ[n − M] − h_lp[n].
+ * The low-pass is scaled to unit DC gain so DC is nulled exactly; with N taps the
+ * transition is about 3.3 · Fs / N wide, so low cut-offs come out gentle.
+ */
+const designFirHighPass = (cutoffHz: number, sampleRateHz: number): Float64Array => {
+  const taps = new Float64Array(FIR_HIGH_PASS_TAPS);
+  const middle = (FIR_HIGH_PASS_TAPS - 1) / 2;
+  const fc = cutoffHz / sampleRateHz;
+  for (let n = 0; n < FIR_HIGH_PASS_TAPS; n++) {
+    const m = n - middle;
+    const sinc = m === 0 ? 2 * fc : Math.sin(2 * Math.PI * fc * m) / (Math.PI * m);
+    taps[n] = sinc * (0.54 - 0.46 * Math.cos((2 * Math.PI * n) / (FIR_HIGH_PASS_TAPS - 1)));
+  }
+  const dcGain = taps.reduce((sum, h) => sum + h, 0);
+  for (let n = 0; n < FIR_HIGH_PASS_TAPS; n++) taps[n] = -taps[n] / dcGain;
+  taps[middle] += 1;
+  return taps;
+};
+
+// MTI cancellers: binomial differences, |H(f)| = (2·sin(π f / Fs))^order
+const MTI_TAPS: Record<'mti2' | 'mti3', number[]> = {
+  mti2: [1, -1],
+  mti3: [1, -2, 1],
+};
+
+const applyFir = (x: Float64Array, taps: ArrayLike<number>): Float64Array => {
+  const y = new Float64Array(x.length);
+  for (let n = 0; n < x.length; n++) {
+    let sum = 0;
+    for (let k = 0; k < taps.length && k <= n; k++) sum += taps[k] * x[n - k];
+    y[n] = sum;
+  }
+  return y;
+};
+
+// Direct form II transposed
+const applyBiquad = (x: Float64Array, { b, a }: Biquad): Float64Array => {
+  const y = new Float64Array(x.length);
+  let z1 = 0;
+  let z2 = 0;
+  for (let n = 0; n < x.length; n++) {
+    const out = b[0] * x[n] + z1;
+    z1 = b[1] * x[n] - a[0] * out + z2;
+    z2 = b[2] * x[n] - a[1] * out;
+    y[n] = out;
+  }
+  return y;
+};
+
+const removeMean = (x: Float64Array): Float64Array => {
+  const mean = x.reduce((sum, v) => sum + v, 0) / x.length;
+  return x.map(v => v - mean);
+};
+
+/**
+ * Notch centres: every harmonic of the mains frequency plus the custom one,
+ * all below Nyquist.
+ */
+export const getNotchFrequencies = (config: ClutterFilterConfig, sampleRateHz: number): number[] => {
+  if (!config.notchEnabled) return [];
+  const frequencies = Array.from({ length: config.notchHarmonics }, (_, k) => (k + 1) * config.notchMainsHz);
+  if (config.customNotchHz > 0) frequencies.push(config.customNotchHz);
+  return frequencies.filter(f => f < sampleRateHz / 2);
+};
+
+/**
+ * Samples a filter chain needs before its output is steady: the FIR length, about
+ * five time constants 1 / (2π f_c) for the IIR high-pass and three of 1 / (π·BW) for a notch.
+ */
+export const calculateFilterSettlingSamples = (config: ClutterFilterConfig, sampleRateHz: number): number => {
+  let samples = 0;
+  if (config.highPass === 'fir') samples = FIR_HIGH_PASS_TAPS - 1;
+  if (config.highPass === 'iir') samples = (5 * sampleRateHz) / (2 * Math.PI * config.highPassCutoffHz);
+  if (config.highPass === 'mti2' || config.highPass === 'mti3') samples = MTI_TAPS[config.highPass].length - 1;
+  if (getNotchFrequencies(config, sampleRateHz).length > 0) {
+    samples = Math.max(samples, (3 * sampleRateHz) / (Math.PI * NOTCH_BANDWIDTH_HZ));
+  }
+  return Math.min(Math.ceil(samples), MAX_SETTLING_SAMPLES);
+};
+
+export type ClutterFilterStage = 'raw' | 'dcRemoval' | 'highPass' | 'notch';
+
+export const CLUTTER_FILTER_STAGE_LABELS: Record<ClutterFilterStage, string> = {
+  raw: 'Raw',
+  dcRemoval: 'DC Removal',
+  highPass: 'High-Pass / MTI',
+  notch: 'Notch',
+};
+
+/**
+ * The enabled stages in order: DC removal → high-pass or MTI → notches. Each filter
+ * works on one real channel; I and Q go through it separately.
+ */
+export const buildClutterFilterChain = (
+  config: ClutterFilterConfig,
+  sampleRateHz: number
+): { stage: ClutterFilterStage; filter: (x: Float64Array) => Float64Array }[] => {
+  const chain: { stage: ClutterFilterStage; filter: (x: Float64Array) => Float64Array }[] = [];
+  if (config.dcRemoval) chain.push({ stage: 'dcRemoval', filter: removeMean });
+  const highPass = config.highPass;
+  if (highPass === 'fir') {
+    const taps = designFirHighPass(config.highPassCutoffHz, sampleRateHz);
+    chain.push({ stage: 'highPass', filter: x => applyFir(x, taps) });
+  } else if (highPass === 'iir') {
+    const biquad = designHighPassBiquad(config.highPassCutoffHz, sampleRateHz);
+    chain.push({ stage: 'highPass', filter: x => applyBiquad(x, biquad) });
+  } else if (highPass !== 'none') {
+    chain.push({ stage: 'highPass', filter: x => applyFir(x, MTI_TAPS[highPass]) });
+  }
+  const notches = getNotchFrequencies(config, sampleRateHz).map(f => designNotchBiquad(f, sampleRateHz));
+  if (notches.length > 0) chain.push({ stage: 'notch', filter: x => notches.reduce((y, notch) => applyBiquad(y, notch), x) });
+  return chain;
+};
+
+/**
+ * Runs the filter chain on I and Q. The input starts with preRollSamples of history that
+ * let the filters settle; every stage's output is returned without them, starting with the raw input.
+ */
+export const applyClutterFilters = (
+  signal: { i: Float64Array; q: Float64Array },
+  preRollSamples: number,
+  config: ClutterFilterConfig,
+  sampleRateHz: number
+): { stage: ClutterFilterStage; signal: { i: Float64Array; q: Float64Array } }[] => {
+  const trim = (s: { i: Float64Array; q: Float64Array }) => ({ i: s.i.slice(preRollSamples), q: s.q.slice(preRollSamples) });
+  const stages = [{ stage: 'raw' as ClutterFilterStage, signal: trim(signal) }];
+  let current = signal;
+  buildClutterFilterChain(config, sampleRateHz).forEach(({ stage, filter }) => {
+    current = { i: filter(current.i), q: filter(current.q) };
+    stages.push({ stage, signal: trim(current) });
+  });
+  return stages;
+};
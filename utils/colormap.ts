@@ -0,0 +1,34 @@
+import { ColormapName } from '../types';
+
+// Control points of each colour map, evenly spaced from 0 to 1
+const COLORMAP_STOPS: Record<ColormapName, [number, number, number][]> = {
+  viridis: [[68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37]],
+  inferno: [[0, 0, 4], [87, 16, 110], [188, 55, 84], [249, 142, 9], [252, 255, 164]],
+  jet: [[0, 0, 143], [0, 0, 255], [0, 255, 255], [255, 255, 0], [255, 0, 0], [128, 0, 0]],
+  grayscale: [[0, 0, 0], [255, 255, 255]],
+};
+
+export const COLORMAP_LABELS: Record<ColormapName, string> = {
+  viridis: 'Viridis',
+  inferno: 'Inferno',
+  jet: 'Jet',
+  grayscale: 'Grayscale',
+};
+
+/**
+ * Maps a normalised level t ∈ [0, 1] to an RGB colour by linear interpolation
+ * between the colour-map stops (values outside the range are clamped).
+ */
+export const sampleColormap = (t: number, name: ColormapName = 'viridis'): [number, number, number] => {
+  const stops = COLORMAP_STOPS[name];
+  const position = Math.min(Math.max(t, 0), 1) * (stops.length - 1);
+  const lower = Math.min(Math.floor(position), stops.length - 2);
+  const fraction = position - lower;
+  const [r0, g0, b0] = stops[lower];
+  const [r1, g1, b1] = stops[lower + 1];
+  return [
+    Math.round(r0 + (r1 - r0) * fraction),
+    Math.round(g0 + (g1 - g0) * fraction),
+    Math.round(b0 + (b1 - b0) * fraction),
+  ];
+};
@@ -0,0 +1,187 @@
+import { DesignConstraint, DesignRequirements, RadarBand, RadarParams, SpeedUnit } from '../types';
+import { formatSpeed, SPEED_UNIT_LABELS, toDisplaySpeed } from './enforcement';
+import { calculateDopplerShift, calculateMaxUnambiguousSpeed, calculateSpeedResolution, calculateWavelengthMm } from './physics';
+
+export interface BandPreset {
+  label: string;
+  carriersGHz: number[]; // Spot frequencies the solver tries
+}
+
+export const BAND_PRESETS: Record<RadarBand, BandPreset> = {
+  X: { label: 'X band (10.525 GHz)', carriersGHz: [10.525] },
+  K: { label: 'K band (24.125 GHz)', carriersGHz: [24.125] },
+  Ka: { label: 'Ka band (33.4–36 GHz)', carriersGHz: [33.4, 34.0, 34.7, 35.5, 36.0] },
+};
+
+export const DESIGN_CONSTRAINT_LABELS: Record<DesignConstraint, string> = {
+  speed: 'Top speed (Nyquist)',
+  resolution: 'Speed resolution',
+  dwell: 'Measurement time',
+};
+
+// The settings the DSP configuration controls can take
+export const DESIGN_FFT_SIZES = [128, 256, 512, 1024, 2048];
+export const DESIGN_SAMPLE_RATE_HZ = { min: 10000, max: 100000, step: 1000 };
+
+export const DEFAULT_DESIGN_REQUIREMENTS: DesignRequirements = {
+  band: 'K',
+  resolutionKmh: 1,
+  topSpeedKmh: 250,
+  speedMarginPercent: 20,
+  maxDwellMs: 50,
+};
+
+export type DesignParams = Pick<RadarParams, 'frequencyGHz' | 'basebandSampleRateHz' | 'fftSize'>;
+
+export interface DesignCandidate {
+  params: DesignParams;
+  resolutionKmh: number;
+  maxSpeedKmh: number;
+  dwellMs: number;
+  slack: Record<DesignConstraint, number>; // Achieved / required, ≥ 1 when met
+  binding: DesignConstraint; // Smallest slack: the constraint that limits this design
+  feasible: boolean;
+}
+
+// A single change to the requirements that would make them feasible
+export interface DesignFix {
+  constraint: DesignConstraint | 'band';
+  text: string;
+}
+
+export interface DesignSolution {
+  candidates: DesignCandidate[]; // Feasible designs, best first (empty when infeasible)
+  reasons: string[]; // Why nothing fits, when nothing does
+  fixes: DesignFix[];
+}
+
+// Fastest speed that must stay below Nyquist
+const requiredSpeedKmh = (req: DesignRequirements) => req.topSpeedKmh * (1 + req.speedMarginPercent / 100);
+
+const minSlack = (candidate: DesignCandidate) => Math.min(...Object.values(candidate.slack));
+
+/**
+ * How well one (f₀, N, Fs) meets the requirements. Each slack is achieved / required:
+ * - speed: v_max = c · (Fs / 2) / (2 f₀) against the top speed with margin
+ * - resolution: Δv = c · Fs / (2 f₀ N) against the required bin
+ * - dwell: T = N / Fs against the time limit
+ * Resolution and dwell fight each other: Δv · T = λ / 2 whatever Fs and N are.
+ */
+export const evaluateDesign = (req: DesignRequirements, params: DesignParams): DesignCandidate => {
+  const resolutionKmh = calculateSpeedResolution(params.basebandSampleRateHz, params.fftSize, params.frequencyGHz);
+  const maxSpeedKmh = calculateMaxUnambiguousSpeed(params.basebandSampleRateHz, params.frequencyGHz);
+  const dwellMs = (params.fftSize / params.basebandSampleRateHz) * 1000;
+  const slack: Record<DesignConstraint, number> = {
+    speed: maxSpeedKmh / requiredSpeedKmh(req),
+    resolution: req.resolutionKmh / resolutionKmh,
+    dwell: req.maxDwellMs / dwellMs,
+  };
+  const binding = (Object.keys(slack) as DesignConstraint[]).reduce((a, b) => (slack[b] < slack[a] ? b : a));
+  return { params, resolutionKmh, maxSpeedKmh, dwellMs, slack, binding, feasible: slack[binding] >= 1 };
+};
+
+// Every carrier × FFT size × sample rate the controls allow
+const enumerateDesigns = (req: DesignRequirements): DesignCandidate[] => {
+  const designs: DesignCandidate[] = [];
+  BAND_PRESETS[req.band].carriersGHz.forEach(frequencyGHz => {
+    DESIGN_FFT_SIZES.forEach(fftSize => {
+      for (let fs = DESIGN_SAMPLE_RATE_HZ.min; fs <= DESIGN_SAMPLE_RATE_HZ.max; fs += DESIGN_SAMPLE_RATE_HZ.step) {
+        designs.push(evaluateDesign(req, { frequencyGHz, fftSize, basebandSampleRateHz: fs }));
+      }
+    });
+  });
+  return designs;
+};
+
+/**
+ * Feasible designs, one per carrier and FFT size, with the sample rate that leaves the most
+ * headroom on the tightest constraint. Ranked by that headroom, then by the smaller FFT.
+ */
+const rankDesigns = (designs: DesignCandidate[]): DesignCandidate[] => {
+  const best = new Map<string, DesignCandidate>();
+  designs.filter(d => d.feasible).forEach(d => {
+    const key = `${d.params.frequencyGHz}/${d.params.fftSize}`;
+    const current = best.get(key);
+    if (!current || minSlack(d) > minSlack(current)) best.set(key, d);
+  });
+  return [...best.values()].sort((a, b) => minSlack(b) - minSlack(a) || a.params.fftSize - b.params.fftSize);
+};
+
+/**
+ * Why no design fits, from the band's most favourable carrier for each limit:
+ * - T ≥ λ / (2 Δv) for the resolution, which may exceed the dwell limit
+ * - Fs ≥ 2 f_d(v_top) for the top speed, which may exceed the ADC rate
+ * - otherwise no power-of-two N lands between Fs · T_min and Fs · T_max
+ */
+const explainInfeasibility = (req: DesignRequirements, unit: SpeedUnit): string[] => {
+  const carriers = BAND_PRESETS[req.band].carriersGHz;
+  const minDwellMs = (calculateWavelengthMm(Math.max(...carriers)) / 1000 / 2 / (req.resolutionKmh / 3.6)) * 1000;
+  const minFsHz = 2 * calculateDopplerShift(requiredSpeedKmh(req), Math.min(...carriers));
+  const reasons: string[] = [];
+  if (minDwellMs > req.maxDwellMs) {
+    reasons.push(`A ${formatSpeed(req.resolutionKmh, unit, 2)} bin needs T ≥ λ / (2Δv) = ${minDwellMs.toFixed(1)} ms, longer than the ${req.maxDwellMs} ms allowed.`);
+  }
+  if (minFsHz > DESIGN_SAMPLE_RATE_HZ.max) {
+    reasons.push(`${formatSpeed(requiredSpeedKmh(req), unit, 0)} needs Fs ≥ 2 f_d = ${(minFsHz / 1000).toFixed(1)} kHz, above the ${DESIGN_SAMPLE_RATE_HZ.max / 1000} kHz maximum.`);
+  }
+  if (reasons.length === 0) {
+    reasons.push(`No FFT size from ${DESIGN_FFT_SIZES[0]} to ${DESIGN_FFT_SIZES[DESIGN_FFT_SIZES.length - 1]} fits N = Fs · T with T between ${minDwellMs.toFixed(1)} and ${req.maxDwellMs} ms at Fs ≥ ${(Math.max(minFsHz, DESIGN_SAMPLE_RATE_HZ.min) / 1000).toFixed(1)} kHz.`);
+  }
+  return reasons;
+};
+
+/**
+ * Single changes that would make infeasible requirements feasible: the best each
+ * requirement can be while the other two are still met, and any band that works as is.
+ */
+const findFixes = (req: DesignRequirements, designs: DesignCandidate[], unit: SpeedUnit): DesignFix[] => {
+  const fixes: DesignFix[] = [];
+  const meeting = (...constraints: DesignConstraint[]) => designs.filter(d => constraints.every(c => d.slack[c] >= 1));
+
+  const resolution = meeting('speed', 'dwell');
+  if (resolution.length > 0) {
+    const finest = Math.min(...resolution.map(d => d.resolutionKmh));
+    fixes.push({ constraint: 'resolution', text: `Relax the resolution to ${formatSpeed(finest, unit, 2)}.` });
+  }
+  const speed = meeting('resolution', 'dwell');
+  if (speed.length > 0) {
+    const fastest = Math.max(...speed.map(d => d.maxSpeedKmh)) / (1 + req.speedMarginPercent / 100);
+    fixes.push({ constraint: 'speed', text: `Lower the top speed to ${Math.floor(toDisplaySpeed(fastest, unit))} ${SPEED_UNIT_LABELS[unit]} (plus ${req.speedMarginPercent} % margin).` });
+  }
+  const dwell = meeting('speed', 'resolution');
+  if (dwell.length > 0) {
+    const shortest = Math.min(...dwell.map(d => d.dwellMs));
+    fixes.push({ constraint: 'dwell', text: `Allow ${Math.ceil(shortest)} ms per measurement.` });
+  }
+  (Object.keys(BAND_PRESETS) as RadarBand[])
+    .filter(band => band !== req.band && enumerateDesigns({ ...req, band }).some(d => d.feasible))
+    .forEach(band => fixes.push({ constraint: 'band', text: `Switch to the ${BAND_PRESETS[band].label}.` }));
+  return fixes;
+};
+
+/**
+ * Inverse design: every sample rate and FFT size the controls offer is tried on the band's
+ * carriers, and the ones meeting resolution, top speed and dwell are returned, ranked.
+ */
+export const solveDesign = (req: DesignRequirements, unit: SpeedUnit = 'kmh'): DesignSolution => {
+  const designs = enumerateDesigns(req);
+  const candidates = rankDesigns(designs);
+  if (candidates.length > 0) return { candidates, reasons: [], fixes: [] };
+  return { candidates, reasons: explainInfeasibility(req, unit), fixes: findFixes(req, designs, unit) };
+};
+
+/**
+ * One-line explanation of why a design's limiting constraint sits where it does.
+ */
+export const explainBinding = (req: DesignRequirements, candidate: DesignCandidate, unit: SpeedUnit = 'kmh'): string => {
+  const { params } = candidate;
+  const headroom = `${((candidate.slack[candidate.binding] - 1) * 100).toFixed(0)} % headroom`;
+  switch (candidate.binding) {
+    case 'speed':
+      return `Fs / 2 = ${(params.basebandSampleRateHz / 2000).toFixed(1)} kHz covers ${formatSpeed(requiredSpeedKmh(req), unit, 0)} with ${headroom}.`;
+    case 'resolution':
+      return `Δv = c · Fs / (2 f₀ N) = ${formatSpeed(candidate.resolutionKmh, unit, 2)} leaves ${headroom} on ${formatSpeed(req.resolutionKmh, unit, 2)}.`;
+    case 'dwell':
+      return `T = N / Fs = ${candidate.dwellMs.toFixed(1)} ms leaves ${headroom} on ${req.maxDwellMs} ms.`;
+  }
+};
@@ -0,0 +1,25 @@
+/**
+ * Saves a blob through a temporary link (no server round trip).
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * File-name friendly timestamp, e.g. 2024-05-01T12-30-00-000Z
+ */
+export const fileTimestamp = (date: Date = new Date()): string => date.toISOString().replace(/[:.]/g, '-');
+
+/**
+ * One CSV field, quoted when it holds a comma, quote or line break.
+ */
+export const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
@@ -0,0 +1,255 @@
+import { DisturbanceConfig, DopplerEcho, IfChainConfig, RadarParams, SpectrumBin, WindowType } from '../types';
+import { calculateSpeedFromShift } from './physics';
+
+export const WINDOW_LABELS: Record<WindowType, string> = {
+  rectangular: 'Rectangular',
+  hann: 'Hann',
+  hamming: 'Hamming',
+  blackmanHarris: 'Blackman-Harris',
+  flatTop: 'Flat-Top',
+};
+
+// Cosine-sum coefficients a0, a1, a2... for w[n] = a0 - a1 cos(2πn/N) + a2 cos(4πn/N) - ...
+const WINDOW_COEFFICIENTS: Record<WindowType, number[]> = {
+  rectangular: [1],
+  hann: [0.5, 0.5],
+  hamming: [0.54, 0.46],
+  blackmanHarris: [0.35875, 0.48829, 0.14128, 0.01168],
+  flatTop: [0.21557895, 0.41663158, 0.277263158, 0.083578947, 0.006947368],
+};
+
+export interface BasebandOptions {
+  noiseRms: number; // Standard deviation of the receiver noise per sample (I and Q each)
+  clutterAmplitude: number; // Static clutter / Tx leakage showing up at DC
+  startTimeS: number; // Time of the first sample (keeps phases continuous between frames)
+  random: () => number; // Uniform [0, 1) source for noise and echo phases; seeded for replayable runs
+  disturbances?: DisturbanceConfig; // Clutter, rain and interference sources (none when omitted)
+  ifChain?: IfChainConfig; // Measured frames go through the IF ADC and decimators when enabled
+}
+
+// Receiver noise sits ~70 dB below full scale; echo amplitudes are set relative to it
+export const DEFAULT_BASEBAND_OPTIONS: BasebandOptions = {
+  noiseRms: 0.002,
+  clutterAmplitude: 0.3,
+  startTimeS: 0,
+  random: Math.random,
+};
+
+/**
+ * Periodic (DFT-even) cosine-sum window of length N.
+ */
+export const createWindow = (type: WindowType, size: number): Float64Array => {
+  const coefficients = WINDOW_COEFFICIENTS[type];
+  const window = new Float64Array(size);
+  for (let n = 0; n < size; n++) {
+    let w = 0;
+    coefficients.forEach((a, k) => {
+      w += (k % 2 === 0 ? 1 : -1) * a * Math.cos((2 * Math.PI * k * n) / size);
+    });
+    window[n] = w;
+  }
+  return window;
+};
+
+/**
+ * Equivalent Noise Bandwidth in bins: ENBW = N · Σw² / (Σw)²
+ */
+export const calculateEnbwBins = (type: WindowType, size: number): number => {
+  const window = createWindow(type, size);
+  let sum = 0;
+  let sumSquares = 0;
+  window.forEach(w => {
+    sum += w;
+    sumSquares += w * w;
+  });
+  return (size * sumSquares) / (sum * sum);
+};
+
+/**
+ * Main-lobe half-width in bins: a K-term cosine-sum window has its first nulls K bins from the peak.
+ */
+export const calculateMainLobeHalfWidthBins = (type: WindowType): number => WINDOW_COEFFICIENTS[type].length;
+
+/**
+ * Scalloping loss of a tone half-way between two bins:
+ * L = -20 · log₁₀(|Σ w[n] · e^(-jπn/N)| / Σ w[n])
+ */
+export const calculateScallopingLossDb = (type: WindowType, size: number): number => {
+  const window = createWindow(type, size);
+  let sum = 0;
+  let re = 0;
+  let im = 0;
+  window.forEach((w, n) => {
+    sum += w;
+    re += w * Math.cos((Math.PI * n) / size);
+    im -= w * Math.sin((Math.PI * n) / size);
+  });
+  return -20 * Math.log10(Math.hypot(re, im) / sum);
+};
+
+/**
+ * In-place iterative radix-2 FFT (Cooley-Tukey).
+ * X[k] = Σ x[n] · e^(-j2πkn/N), N must be a power of two.
+ */
+export const fft = (re: Float64Array, im: Float64Array): void => {
+  const n = re.length;
+  if (n & (n - 1)) throw new Error(`FFT size must be a power of two (got ${n})`);
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  // Butterflies
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+/**
+ * Apparent frequency of a tone after real sampling (aliasing folds it into 0 .. Fs/2).
+ */
+export const foldFrequency = (freqHz: number, sampleRateHz: number): number => {
+  const wrapped = Math.abs(freqHz) % sampleRateHz;
+  return wrapped > sampleRateHz / 2 ? sampleRateHz - wrapped : wrapped;
+};
+
+/**
+ * Apparent frequency of a tone after complex (I/Q) sampling: wraps into -Fs/2 .. Fs/2.
+ * The sign survives, so approaching and receding targets stay apart.
+ */
+export const wrapFrequency = (freqHz: number, sampleRateHz: number): number => {
+  const wrapped = ((freqHz % sampleRateHz) + sampleRateHz) % sampleRateHz;
+  return wrapped >= sampleRateHz / 2 ? wrapped - sampleRateHz : wrapped;
+};
+
+/**
+ * Standard normal sample (Box-Muller).
+ */
+export const gaussianRandom = (random: () => number = Math.random): number => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * Synthesizes N = fftSize samples of the mixer output at Fs = basebandSampleRateHz:
+ * s[n] = C + Σ A_k · e^(j(2π (f_k t_n + ½ ḟ_k τ_n²) + φ_k)) + w[n]
+ * where τ_n is the time from the middle of the frame, so an accelerating target
+ * sweeps through f_k ± ḟ_k · T_obs / 2 and is at f_k mid-frame.
+ * The in-phase channel (I) is what a single-mixer CW radar delivers; a quadrature
+ * mixer delivers both I and Q, keeping the sign of f_k (approaching vs receding).
+ * preRollSamples extra samples are prepended before startTimeS, as history for filters.
+ * Each tone is generated by phasor rotation: the phase step grows by 2π ḟ_k / Fs² per sample.
+ */
+export const synthesizeBaseband = (
+  echoes: DopplerEcho[],
+  radar: RadarParams,
+  options: BasebandOptions = DEFAULT_BASEBAND_OPTIONS,
+  preRollSamples = 0
+): { i: Float64Array; q: Float64Array } => {
+  const n = radar.fftSize + preRollSamples;
+  const i = new Float64Array(n);
+  const q = new Float64Array(n);
+  const dt = 1 / radar.basebandSampleRateHz;
+  const firstS = options.startTimeS - preRollSamples * dt;
+  const tau0 = firstS - (options.startTimeS + (radar.fftSize * dt) / 2);
+
+  echoes.forEach(echo => {
+    const rate = echo.dopplerRateHzPerS ?? 0;
+    const phase = 2 * Math.PI * (echo.dopplerHz * firstS + 0.5 * rate * tau0 * tau0) + echo.phase;
+    const step = 2 * Math.PI * (echo.dopplerHz * dt + rate * tau0 * dt + 0.5 * rate * dt * dt);
+    const curve = 2 * Math.PI * rate * dt * dt;
+    let re = echo.amplitude * Math.cos(phase);
+    let im = echo.amplitude * Math.sin(phase);
+    let stepRe = Math.cos(step);
+    let stepIm = Math.sin(step);
+    const curveRe = Math.cos(curve);
+    const curveIm = Math.sin(curve);
+    for (let s = 0; s < n; s++) {
+      i[s] += re;
+      q[s] += im;
+      const nextRe = re * stepRe - im * stepIm;
+      im = re * stepIm + im * stepRe;
+      re = nextRe;
+      if (rate !== 0) {
+        const nextStepRe = stepRe * curveRe - stepIm * curveIm;
+        stepIm = stepRe * curveIm + stepIm * curveRe;
+        stepRe = nextStepRe;
+      }
+    }
+  });
+
+  for (let s = 0; s < n; s++) {
+    i[s] += options.clutterAmplitude + options.noiseRms * gaussianRandom(options.random);
+    q[s] += options.noiseRms * gaussianRandom(options.random);
+  }
+
+  return { i, q };
+};
+
+/**
+ * Windowed magnitude spectrum of one frame, normalised by the coherent gain so a
+ * full-scale tone reads 0 dBFS.
+ * Real receiver: only I is used, bins 0 .. N/2 - 1, |X|_dB = 20·log10(2·|X[k]| / Σw[n])
+ * I/Q receiver:  x = I + jQ, bins -N/2 .. N/2 - 1 (fftshift), |X|_dB = 20·log10(|X[k]| / Σw[n])
+ */
+export const computeSpectrum = (
+  signal: { i: Float64Array; q: Float64Array },
+  radar: RadarParams
+): SpectrumBin[] => {
+  const n = signal.i.length;
+  const isComplex = radar.receiverType === 'iq';
+  const window = createWindow(radar.windowType, n);
+  const coherentGain = window.reduce((sum, w) => sum + w, 0);
+
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  for (let s = 0; s < n; s++) {
+    re[s] = signal.i[s] * window[s];
+    if (isComplex) im[s] = signal.q[s] * window[s];
+  }
+  fft(re, im);
+
+  const freqRes = radar.basebandSampleRateHz / n;
+  const firstBin = isComplex ? -n / 2 : 0;
+  const bins: SpectrumBin[] = [];
+  for (let k = firstBin; k < n / 2; k++) {
+    const index = (k + n) % n;
+    // A real tone splits between +f and -f; DC has no mirror image, so it is not doubled
+    const scale = isComplex || k === 0 ? 1 : 2;
+    const magnitude = (scale * Math.hypot(re[index], im[index])) / coherentGain;
+    bins.push({
+      binIndex: k,
+      freq: k * freqRes,
+      speed: calculateSpeedFromShift(k * freqRes, radar.frequencyGHz),
+      amp: 20 * Math.log10(magnitude + 1e-12),
+    });
+  }
+  return bins;
+};
@@ -0,0 +1,74 @@
+import { EnforcementConfig, EnforcementPreset, EnforcementToleranceRule, SpeedUnit, VehicleClass } from '../types';
+import { NUM_LANES } from './geometry';
+
+export const KMH_PER_MPH = 1.609344;
+
+export const SPEED_UNIT_LABELS: Record<SpeedUnit, string> = {
+  kmh: 'km/h',
+  mph: 'mph',
+};
+
+export const TOLERANCE_RULE_LABELS: Record<EnforcementToleranceRule, string> = {
+  none: 'None',
+  fixed: 'Fixed offset',
+  percent: 'Percentage',
+};
+
+const mph = (value: number) => value * KMH_PER_MPH;
+
+export const ENFORCEMENT_PRESETS: Record<EnforcementPreset, { label: string; config: EnforcementConfig }> = {
+  default: {
+    label: '100 km/h road',
+    config: { unit: 'kmh', speedLimitKmh: 100, laneLimitsKmh: Array(NUM_LANES).fill(null), classLimitsKmh: {}, toleranceRule: 'none', tolerance: 0 },
+  },
+  motorway: {
+    label: '120 km/h motorway, trucks 80',
+    config: { unit: 'kmh', speedLimitKmh: 120, laneLimitsKmh: Array(NUM_LANES).fill(null), classLimitsKmh: { truck: 80 }, toleranceRule: 'percent', tolerance: 3 },
+  },
+  usHighway: {
+    label: '70 mph highway, trucks 65',
+    config: { unit: 'mph', speedLimitKmh: mph(70), laneLimitsKmh: Array(NUM_LANES).fill(null), classLimitsKmh: { truck: mph(65) }, toleranceRule: 'fixed', tolerance: mph(5) },
+  },
+};
+
+export const DEFAULT_ENFORCEMENT_CONFIG: EnforcementConfig = ENFORCEMENT_PRESETS.default.config;
+
+export const toDisplaySpeed = (kmh: number, unit: SpeedUnit): number => (unit === 'mph' ? kmh / KMH_PER_MPH : kmh);
+
+export const fromDisplaySpeed = (value: number, unit: SpeedUnit): number => (unit === 'mph' ? value * KMH_PER_MPH : value);
+
+/**
+ * A speed in the display unit, e.g. "62.1 mph".
+ */
+export const formatSpeed = (kmh: number, unit: SpeedUnit, digits = 1): string =>
+  `${toDisplaySpeed(kmh, unit).toFixed(digits)} ${SPEED_UNIT_LABELS[unit]}`;
+
+/**
+ * Limit for a vehicle: the lower of its lane's limit (the road limit when the lane has none)
+ * and its class limit. Without a lane or class, the road limit.
+ */
+export const getSpeedLimitKmh = (config: EnforcementConfig, lane?: number, vehicleClass?: VehicleClass): number => {
+  const laneLimit = lane === undefined ? null : config.laneLimitsKmh[lane] ?? null;
+  const classLimit = vehicleClass === undefined ? undefined : config.classLimitsKmh[vehicleClass];
+  return Math.min(laneLimit ?? config.speedLimitKmh, classLimit ?? Infinity);
+};
+
+/**
+ * Reading that triggers enforcement for a limit:
+ * - none: v_limit
+ * - fixed: v_limit + offset
+ * - percent: v_limit · (1 + p / 100)
+ */
+export const getEnforcementThresholdKmh = (config: EnforcementConfig, limitKmh: number): number => {
+  switch (config.toleranceRule) {
+    case 'none':
+      return limitKmh;
+    case 'fixed':
+      return limitKmh + config.tolerance;
+    case 'percent':
+      return limitKmh * (1 + config.tolerance / 100);
+  }
+};
+
+export const isOverLimit = (config: EnforcementConfig, speedKmh: number, lane?: number, vehicleClass?: VehicleClass): boolean =>
+  speedKmh > getEnforcementThresholdKmh(config, getSpeedLimitKmh(config, lane, vehicleClass));
@@ -0,0 +1,260 @@
+import { Detection, EstimatorConfig, FrequencyEstimator, RadarParams, WindowType } from '../types';
+import { createWindow, fft } from './dsp';
+import { calculateSpeedFromShift } from './physics';
+
+export const ESTIMATOR_LABELS: Record<FrequencyEstimator, string> = {
+  argmax: 'Peak bin (argmax)',
+  zeroPad: 'Zero-padded FFT',
+  parabolic: 'Parabolic / Gaussian (log |X|)',
+  quinn: "Quinn's 2nd estimator",
+  jacobsen: "Jacobsen's estimator",
+  phaseDiff: 'Short-time phase difference',
+};
+
+// Offset δ of the true tone from peak bin k, in bins: f = (k + δ) · Fs / N
+export const ESTIMATOR_FORMULAS: Record<FrequencyEstimator, string> = {
+  argmax: 'δ = 0',
+  zeroPad: 'δ = argmax |X_P| / P − k',
+  parabolic: 'δ = ½(α − γ) / (α − 2β + γ), α,β,γ = ln|X_k−1,k,k+1|',
+  quinn: 'δ = (d₊ + d₋)/2 + τ(d₊²) − τ(d₋²)',
+  jacobsen: 'δ = c · Re[(X_k−1 − X_k+1) / (2X_k − X_k−1 − X_k+1)]',
+  phaseDiff: 'δ = wrap(Δφ − πk) / π',
+};
+
+export const ZERO_PAD_FACTORS = [2, 4, 8, 16];
+
+export const DEFAULT_ESTIMATOR_CONFIG: EstimatorConfig = {
+  method: 'argmax',
+  zeroPadFactor: 4,
+};
+
+// Offsets swept across one bin when measuring an estimator's intrinsic error
+const BIAS_SWEEP_STEPS = 21;
+
+// Calibration offset for the Jacobsen window correction, in bins
+const JACOBSEN_CALIBRATION_OFFSET = 0.25;
+
+type Signal = { i: Float64Array; q: Float64Array };
+
+interface ComplexSpectrum {
+  re: Float64Array;
+  im: Float64Array;
+}
+
+/**
+ * Full complex FFT of the frame, tapered by the radar's window (or none) and zero-padded
+ * to factor × N. A real receiver ignores Q, exactly as computeSpectrum does.
+ */
+const transform = (signal: Signal, windowType: WindowType, isComplex: boolean, padFactor = 1): ComplexSpectrum => {
+  const n = signal.i.length;
+  const window = createWindow(windowType, n);
+  const re = new Float64Array(n * padFactor);
+  const im = new Float64Array(n * padFactor);
+  for (let s = 0; s < n; s++) {
+    re[s] = signal.i[s] * window[s];
+    if (isComplex) im[s] = signal.q[s] * window[s];
+  }
+  fft(re, im);
+  return { re, im };
+};
+
+const wrapIndex = (k: number, size: number) => ((k % size) + size) % size;
+
+// Re(a / b) for complex a, b
+const realRatio = (aRe: number, aIm: number, bRe: number, bIm: number) =>
+  (aRe * bRe + aIm * bIm) / (bRe * bRe + bIm * bIm + 1e-300);
+
+// Quinn's τ(x) = ¼ ln(3x² + 6x + 1) − (√6 / 24) ln((x + 1 − √(2/3)) / (x + 1 + √(2/3)))
+const quinnTau = (x: number) => {
+  const r = Math.sqrt(2 / 3);
+  return 0.25 * Math.log(3 * x * x + 6 * x + 1) - (Math.sqrt(6) / 24) * Math.log((x + 1 - r) / (x + 1 + r));
+};
+
+// Raw Jacobsen ratio; exact for a rectangular window
+const jacobsenRatio = ({ re, im }: ComplexSpectrum, k: number) => {
+  const n = re.length;
+  const [lo, mid, hi] = [k - 1, k, k + 1].map(b => wrapIndex(b, n));
+  return realRatio(
+    re[lo] - re[hi], im[lo] - im[hi],
+    2 * re[mid] - re[lo] - re[hi], 2 * im[mid] - im[lo] - im[hi]
+  );
+};
+
+/**
+ * Complex tone e^{j(2π(k + δ)s/N + φ)} that every estimator can be checked against.
+ */
+const createTestTone = (n: number, bin: number, phase = 0.3): Signal => {
+  const i = new Float64Array(n);
+  const q = new Float64Array(n);
+  for (let s = 0; s < n; s++) {
+    const angle = (2 * Math.PI * bin * s) / n + phase;
+    i[s] = Math.cos(angle);
+    q[s] = Math.sin(angle);
+  }
+  return { i, q };
+};
+
+/**
+ * Jacobsen's ratio is exact only without a taper; a window widens the main lobe and
+ * shrinks the ratio by a nearly constant factor c (exactly 2 for Hann). c is found by
+ * running the ratio on a noise-free tone a quarter-bin off centre.
+ */
+export const calculateJacobsenCorrection = (windowType: WindowType, n: number): number => {
+  const k = n / 4;
+  const tone = createTestTone(n, k + JACOBSEN_CALIBRATION_OFFSET);
+  const ratio = jacobsenRatio(transform(tone, windowType, true), k);
+  return Math.abs(ratio) > 1e-9 ? JACOBSEN_CALIBRATION_OFFSET / ratio : 1;
+};
+
+/**
+ * Prepares one estimator for a frame (every FFT it needs is taken once) and returns
+ * δ(k), the sub-bin offset of the tone peaking at bin k, clamped to ±1 bin.
+ * - Zero padding interpolates the spectrum on a P-times finer grid and takes its peak.
+ * - The log-parabola is exact for a Gaussian main lobe and close for the usual tapers.
+ * - Quinn is derived for an untapered frame, so it runs on a rectangular FFT.
+ * - Phase difference: the peak's phase advances by 2πf·(N/2)/Fs between the two halves
+ *   of the frame, which is unambiguous within ±1 bin of the coarse peak.
+ */
+const createOffsetEstimator = (
+  signal: Signal,
+  radar: RadarParams,
+  config: EstimatorConfig
+): ((k: number) => number) => {
+  const n = signal.i.length;
+  const isComplex = radar.receiverType === 'iq';
+  const clamp = (delta: number) => (isFinite(delta) ? Math.min(Math.max(delta, -1), 1) : 0);
+
+  switch (config.method) {
+    case 'argmax':
+      return () => 0;
+
+    case 'zeroPad': {
+      const pad = Math.max(1, Math.round(config.zeroPadFactor));
+      const { re, im } = transform(signal, radar.windowType, isComplex, pad);
+      return k => {
+        let bestOffset = 0;
+        let bestPower = -1;
+        for (let m = -pad; m <= pad; m++) {
+          const index = wrapIndex(k * pad + m, n * pad);
+          const power = re[index] * re[index] + im[index] * im[index];
+          if (power > bestPower) {
+            bestPower = power;
+            bestOffset = m;
+          }
+        }
+        return bestOffset / pad;
+      };
+    }
+
+    case 'parabolic': {
+      const { re, im } = transform(signal, radar.windowType, isComplex);
+      const logMag = (k: number) => {
+        const index = wrapIndex(k, n);
+        return Math.log(Math.hypot(re[index], im[index]) + 1e-300);
+      };
+      return k => {
+        const [alpha, beta, gamma] = [logMag(k - 1), logMag(k), logMag(k + 1)];
+        const denominator = alpha - 2 * beta + gamma;
+        return denominator < 0 ? clamp((0.5 * (alpha - gamma)) / denominator) : 0;
+      };
+    }
+
+    case 'quinn': {
+      const { re, im } = transform(signal, 'rectangular', isComplex);
+      return k => {
+        const [lo, mid, hi] = [k - 1, k, k + 1].map(b => wrapIndex(b, n));
+        const alphaMinus = realRatio(re[lo], im[lo], re[mid], im[mid]);
+        const alphaPlus = realRatio(re[hi], im[hi], re[mid], im[mid]);
+        const dMinus = alphaMinus / (1 - alphaMinus);
+        const dPlus = -alphaPlus / (1 - alphaPlus);
+        return clamp((dPlus + dMinus) / 2 + quinnTau(dPlus * dPlus) - quinnTau(dMinus * dMinus));
+      };
+    }
+
+    case 'jacobsen': {
+      const spectrum = transform(signal, radar.windowType, isComplex);
+      const correction = calculateJacobsenCorrection(radar.windowType, n);
+      return k => clamp(correction * jacobsenRatio(spectrum, k));
+    }
+
+    case 'phaseDiff': {
+      const half = n / 2;
+      const window = createWindow(radar.windowType, half);
+      // Single DFT bin of one windowed half, at the coarse peak frequency k / N cycles per sample
+      const dftAt = (k: number, start: number) => {
+        let sumRe = 0;
+        let sumIm = 0;
+        for (let s = 0; s < half; s++) {
+          const angle = (-2 * Math.PI * k * s) / n;
+          const xRe = signal.i[start + s] * window[s];
+          const xIm = isComplex ? signal.q[start + s] * window[s] : 0;
+          sumRe += xRe * Math.cos(angle) - xIm * Math.sin(angle);
+          sumIm += xRe * Math.sin(angle) + xIm * Math.cos(angle);
+        }
+        return [sumRe, sumIm];
+      };
+      return k => {
+        const [aRe, aIm] = dftAt(k, 0);
+        const [bRe, bIm] = dftAt(k, half);
+        const advance = Math.atan2(bIm * aRe - bRe * aIm, bRe * aRe + bIm * aIm);
+        // The coarse bin alone advances by 2π · k · (N/2) / N = πk
+        const residual = advance - Math.PI * k;
+        const wrapped = residual - 2 * Math.PI * Math.round(residual / (2 * Math.PI));
+        return clamp(wrapped / Math.PI);
+      };
+    }
+  }
+};
+
+/**
+ * Replaces each detection's bin-centre frequency and speed with the chosen estimator's
+ * sub-bin value. The bin index is kept, so detections still line up with the spectrum.
+ */
+export const estimateFrequencies = (
+  signal: Signal,
+  radar: RadarParams,
+  detections: Detection[],
+  config: EstimatorConfig = DEFAULT_ESTIMATOR_CONFIG
+): Detection[] => {
+  if (config.method === 'argmax' || detections.length === 0) return detections;
+  const offsetFor = createOffsetEstimator(signal, radar, config);
+  const freqRes = radar.basebandSampleRateHz / signal.i.length;
+  return detections.map(detection => {
+    const freq = (detection.binIndex + offsetFor(detection.binIndex)) * freqRes;
+    return { ...detection, freq, speed: calculateSpeedFromShift(freq, radar.frequencyGHz) };
+  });
+};
+
+export interface EstimatorError {
+  maxBins: number; // Worst-case |δ̂ − δ| over one bin
+  rmsBins: number; // RMS over the same sweep (argmax: 1/√12 ≈ 0.29)
+}
+
+/**
+ * Intrinsic (noise-free) error of an estimator with the radar's window and FFT size:
+ * a clean tone is swept across one bin and the estimate compared with the truth.
+ * Noise adds to this, roughly as 1/√SNR.
+ */
+export const calculateEstimatorError = (radar: RadarParams, config: EstimatorConfig): EstimatorError => {
+  const n = radar.fftSize;
+  const k = n / 4;
+  let maxBins = 0;
+  let sumSquares = 0;
+  for (let step = 0; step < BIAS_SWEEP_STEPS; step++) {
+    const delta = step / (BIAS_SWEEP_STEPS - 1) - 0.5;
+    const tone = createTestTone(n, k + delta);
+    const offset = createOffsetEstimator(tone, { ...radar, receiverType: 'iq' }, config)(k);
+    const error = Math.abs(offset - delta);
+    maxBins = Math.max(maxBins, error);
+    sumSquares += error * error;
+  }
+  return { maxBins, rmsBins: Math.sqrt(sumSquares / BIAS_SWEEP_STEPS) };
+};
+
+/**
+ * Cramér-Rao bound on the frequency of one tone in white noise, in bins. With the
+ * per-sample bound var(ω) ≥ 12 / (SNR · N³) and the FFT gain SNR_FFT ≈ N · SNR:
+ * σ_δ ≥ √3 / (π · √SNR_FFT)
+ */
+export const calculateFrequencyCrlbBins = (snrDb: number): number =>
+  Math.sqrt(3) / (Math.PI * Math.sqrt(Math.pow(10, snrDb / 10)));
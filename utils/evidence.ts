@@ -0,0 +1,246 @@
+import { Detection, DirectionFilter, EstimatorConfig, RadarParams, SpectrumBin, SpeedUnit, TargetSelectionMode } from '../types';
+
+export const EVIDENCE_VERSION = 1;
+export const EVIDENCE_HASH_ALGORITHM = 'SHA-256';
+
+// Artifact names inside a package
+export const SCENE_ARTIFACT = 'scene.png';
+export const MEASUREMENT_ARTIFACT = 'measurement.json';
+export const SPECTRUM_ARTIFACT = 'spectrum.json';
+export const RADAR_ARTIFACT = 'radar.json';
+
+// Everything known about the reading when it was captured
+export interface EvidenceMeasurement {
+  capturedAt: string; // ISO 8601, wall clock
+  simulationTimeS: number;
+  measuredSpeedKmh: number;
+  held: boolean; // The readout was locked: the detection predates the spectrum
+  selectionMode: TargetSelectionMode;
+  directionFilter: DirectionFilter;
+  detection: Detection;
+  estimator: EstimatorConfig;
+  uncertaintyKmh: number; // Expected error of the estimator at the detection's SNR
+  speedLimitKmh: number;
+  thresholdKmh: number;
+  displayUnit: SpeedUnit;
+}
+
+export interface EvidenceInput {
+  scenePngBase64: string; // Scene canvas at capture, PNG without the data: URL prefix
+  measurement: EvidenceMeasurement;
+  spectrum: SpectrumBin[];
+  detections: Detection[]; // Every detection in the captured frame
+  radar: RadarParams;
+}
+
+export interface EvidenceArtifactEntry {
+  name: string;
+  mediaType: string;
+  encoding: 'base64' | 'json'; // How the artifact is stored in the package
+  sizeBytes: number; // Of the hashed bytes
+  sha256: string; // Hex, over the decoded PNG or the canonical JSON
+}
+
+export interface EvidenceManifest {
+  version: number;
+  algorithm: string;
+  id: string;
+  createdAt: string;
+  artifacts: EvidenceArtifactEntry[];
+  fieldHashes: Record<string, Record<string, string>>; // Per JSON artifact: field path → SHA-256, to name what changed
+}
+
+// The saved file: the manifest, its own hash and the artifacts it covers
+export interface EvidencePackage {
+  manifest: EvidenceManifest;
+  manifestSha256: string; // Over the canonical manifest
+  artifacts: Record<string, unknown>; // Base64 string for the PNG, JSON values otherwise
+}
+
+export interface EvidenceFinding {
+  artifact: string; // 'manifest' for the manifest itself
+  field?: string; // Field path inside a JSON artifact
+  issue: 'changed' | 'missing' | 'added';
+}
+
+export interface EvidenceVerification {
+  errors: string[]; // The file is not an evidence package at all
+  findings: EvidenceFinding[];
+  valid: boolean; // No errors and no findings
+  manifest: EvidenceManifest | null;
+}
+
+/**
+ * JSON with object keys sorted at every level and no whitespace, so the same data always
+ * hashes the same however the file was formatted. Undefined fields are dropped, as JSON does.
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const sha256Hex = (bytes: Uint8Array): Promise<string> => crypto.subtle.digest('SHA-256', bytes).then(toHex);
+
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const utf8 = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+/**
+ * Leaf paths of a JSON value: objects are walked, arrays and primitives are leaves
+ * (a spectrum counts as one field rather than thousands).
+ */
+const flattenFields = (value: unknown, prefix = ''): [string, unknown][] => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return [[prefix, value]];
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, child]) => child !== undefined)
+    .flatMap(([key, child]) => flattenFields(child, prefix ? `${prefix}.${key}` : key));
+};
+
+const hashFields = (value: unknown): Promise<Record<string, string>> => {
+  const fields = flattenFields(value);
+  return Promise.all(fields.map(([, field]) => sha256Hex(utf8(canonicalJson(field)))))
+    .then(hashes => Object.fromEntries(fields.map(([path], i) => [path, hashes[i]])));
+};
+
+// The bytes an artifact's hash covers
+const artifactBytes = (encoding: EvidenceArtifactEntry['encoding'], content: unknown): Uint8Array =>
+  encoding === 'base64' ? base64ToBytes(String(content)) : utf8(canonicalJson(content));
+
+/**
+ * Seals a capture: hashes every artifact (the PNG's decoded bytes, each JSON artifact's
+ * canonical form and each of its fields), lists the hashes in the manifest and hashes the
+ * canonical manifest. A changed byte anywhere shows up on verification.
+ * SHA-256 makes changes evident, not impossible: anyone can re-seal an edited package.
+ * A fielded device signs manifestSha256 with a key held in the instrument.
+ */
+export const createEvidencePackage = (input: EvidenceInput): Promise<EvidencePackage> => {
+  const artifacts: Record<string, unknown> = {
+    [SCENE_ARTIFACT]: input.scenePngBase64,
+    [MEASUREMENT_ARTIFACT]: input.measurement,
+    [SPECTRUM_ARTIFACT]: { bins: input.spectrum, detections: input.detections },
+    [RADAR_ARTIFACT]: input.radar,
+  };
+  const specs: Omit<EvidenceArtifactEntry, 'sizeBytes' | 'sha256'>[] = [
+    { name: SCENE_ARTIFACT, mediaType: 'image/png', encoding: 'base64' },
+    { name: MEASUREMENT_ARTIFACT, mediaType: 'application/json', encoding: 'json' },
+    { name: SPECTRUM_ARTIFACT, mediaType: 'application/json', encoding: 'json' },
+    { name: RADAR_ARTIFACT, mediaType: 'application/json', encoding: 'json' },
+  ];
+  const jsonSpecs = specs.filter(spec => spec.encoding === 'json');
+
+  return Promise.all([
+    Promise.all(specs.map(spec => {
+      const bytes = artifactBytes(spec.encoding, artifacts[spec.name]);
+      return sha256Hex(bytes).then(sha256 => ({ ...spec, sizeBytes: bytes.length, sha256 }));
+    })),
+    Promise.all(jsonSpecs.map(spec => hashFields(artifacts[spec.name]))),
+  ]).then(([entries, fieldHashes]) => {
+    const manifest: EvidenceManifest = {
+      version: EVIDENCE_VERSION,
+      algorithm: EVIDENCE_HASH_ALGORITHM,
+      id: `EV-${input.measurement.capturedAt.replace(/[-:.TZ]/g, '')}`,
+      createdAt: input.measurement.capturedAt,
+      artifacts: entries,
+      fieldHashes: Object.fromEntries(jsonSpecs.map((spec, i) => [spec.name, fieldHashes[i]])),
+    };
+    return sha256Hex(utf8(canonicalJson(manifest))).then(manifestSha256 => ({ manifest, manifestSha256, artifacts }));
+  });
+};
+
+export const evidencePackageToJson = (pkg: EvidencePackage): string => JSON.stringify(pkg, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Shape checks only: the hashes decide whether the content can be trusted
+const validatePackage = (data: unknown): string[] => {
+  if (!isRecord(data)) return ['Not a JSON object'];
+  const errors: string[] = [];
+  const { manifest } = data;
+  if (!isRecord(manifest)) errors.push('manifest: missing');
+  else {
+    if (manifest.algorithm !== EVIDENCE_HASH_ALGORITHM) errors.push(`manifest.algorithm: expected ${EVIDENCE_HASH_ALGORITHM} (got ${JSON.stringify(manifest.algorithm)})`);
+    if (!Array.isArray(manifest.artifacts) || !manifest.artifacts.every(a => isRecord(a) && typeof a.name === 'string' && typeof a.sha256 === 'string' && (a.encoding === 'base64' || a.encoding === 'json'))) {
+      errors.push('manifest.artifacts: must list name, encoding and sha256 for each artifact');
+    }
+    if (!isRecord(manifest.fieldHashes)) errors.push('manifest.fieldHashes: missing');
+  }
+  if (typeof data.manifestSha256 !== 'string') errors.push('manifestSha256: missing');
+  if (!isRecord(data.artifacts)) errors.push('artifacts: missing');
+  return errors;
+};
+
+// Fields whose hash differs from the manifest's, or that appear on only one side
+const compareFields = (artifact: string, expected: Record<string, unknown>, actual: Record<string, string>): EvidenceFinding[] => [
+  ...Object.keys(expected).flatMap((field): EvidenceFinding[] =>
+    !(field in actual) ? [{ artifact, field, issue: 'missing' }]
+      : actual[field] !== expected[field] ? [{ artifact, field, issue: 'changed' }] : []),
+  ...Object.keys(actual).filter(field => !(field in expected)).map((field): EvidenceFinding => ({ artifact, field, issue: 'added' })),
+];
+
+/**
+ * Re-checks a saved package: the manifest against its own hash, every artifact against the
+ * manifest and, for a JSON artifact that changed, each field, so the report names what was edited.
+ */
+export const verifyEvidencePackage = (text: string): Promise<EvidenceVerification> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return Promise.resolve({ errors: [`Invalid JSON: ${(e as Error).message}`], findings: [], valid: false, manifest: null });
+  }
+  const errors = validatePackage(data);
+  if (errors.length > 0) return Promise.resolve({ errors, findings: [], valid: false, manifest: null });
+
+  const pkg = data as EvidencePackage;
+  const { manifest, artifacts } = pkg;
+  const listed = new Set(manifest.artifacts.map(a => a.name));
+  const unlisted: EvidenceFinding[] = Object.keys(artifacts).filter(name => !listed.has(name)).map(name => ({ artifact: name, issue: 'added' }));
+
+  const checks = manifest.artifacts.map((entry): Promise<EvidenceFinding[]> => {
+    if (!(entry.name in artifacts)) return Promise.resolve([{ artifact: entry.name, issue: 'missing' }]);
+    const content = artifacts[entry.name];
+    let bytes: Uint8Array;
+    try {
+      bytes = artifactBytes(entry.encoding, content);
+    } catch {
+      return Promise.resolve([{ artifact: entry.name, issue: 'changed' }]); // No longer valid base64
+    }
+    return sha256Hex(bytes).then(sha256 => {
+      if (sha256 === entry.sha256) return [];
+      const expectedFields = manifest.fieldHashes[entry.name];
+      if (entry.encoding !== 'json' || !isRecord(expectedFields)) return [{ artifact: entry.name, issue: 'changed' }];
+      return hashFields(content).then(actual => {
+        const fields = compareFields(entry.name, expectedFields, actual);
+        // Same fields, different bytes (e.g. reordered array items): still a change
+        return fields.length > 0 ? fields : [{ artifact: entry.name, issue: 'changed' }];
+      });
+    });
+  });
+
+  return Promise.all([sha256Hex(utf8(canonicalJson(manifest))), Promise.all(checks)]).then(([manifestSha256, artifactFindings]) => {
+    const findings: EvidenceFinding[] = [
+      ...(manifestSha256 === pkg.manifestSha256 ? [] : [{ artifact: 'manifest', issue: 'changed' as const }]),
+      ...artifactFindings.flat(),
+      ...unlisted,
+    ];
+    return { errors: [], findings, valid: findings.length === 0, manifest };
+  });
+};
+
+/**
+ * One line per finding, e.g. "measurement.json: detection.speed changed".
+ */
+export const describeFinding = (finding: EvidenceFinding): string =>
+  finding.artifact === 'manifest'
+    ? 'manifest: changed after sealing (its hashes can no longer be trusted)'
+    : `${finding.artifact}: ${finding.field ? `${finding.field} ` : ''}${finding.issue === 'added' ? (finding.field ? 'added' : 'not in the manifest') : finding.issue}`;
@@ -0,0 +1,170 @@
+import { C, Car, RadarMode, RadarParams, RadarPose, RangeDopplerMap } from '../types';
+import { BasebandOptions, DEFAULT_BASEBAND_OPTIONS, createWindow, fft, gaussianRandom } from './dsp';
+import { calculateDopplerShift, calculateSpeedFromShift } from './physics';
+import { calculateCarLineOfSight, getStationaryPose } from './geometry';
+import { BOLTZMANN, T0_KELVIN, calculateReceivedPowerW, dbToLinear } from './radarEquation';
+
+// Fast-time samples per chirp (range FFT size)
+export const FMCW_SAMPLES_PER_CHIRP = 256;
+
+export const RADAR_MODE_LABELS: Record<RadarMode, string> = {
+  cw: 'CW Doppler',
+  fmcw: 'FMCW (Range–Doppler)',
+};
+
+/**
+ * Beat-signal ADC rate: N_s samples spread over one chirp
+ * Fs_beat = N_s / T_c
+ */
+export const calculateBeatSampleRateHz = (radar: RadarParams): number => {
+  return FMCW_SAMPLES_PER_CHIRP / (radar.chirpDurationUs * 1e-6);
+};
+
+/**
+ * FMCW Range Resolution
+ * ΔR = c / (2 · B)
+ */
+export const calculateRangeResolution = (radar: RadarParams): number => {
+  return C / (2 * radar.chirpBandwidthMHz * 1e6);
+};
+
+/**
+ * FMCW Max Range (beat frequency at the ADC Nyquist limit)
+ * f_b = 2 · R · B / (c · T_c)  =>  R_max = Fs_beat · c · T_c / (4 · B)
+ * A quadrature receiver keeps the whole band [0, Fs_beat), doubling R_max.
+ */
+export const calculateMaxRange = (radar: RadarParams): number => {
+  const maxBeatHz = radar.receiverType === 'iq' ? calculateBeatSampleRateHz(radar) : calculateBeatSampleRateHz(radar) / 2;
+  return (maxBeatHz * C * radar.chirpDurationUs * 1e-6) / (2 * radar.chirpBandwidthMHz * 1e6);
+};
+
+/**
+ * FMCW Max Unambiguous Speed (Doppler sampled once per chirp)
+ * v_max = λ / (4 · T_c)
+ */
+export const calculateChirpMaxSpeed = (radar: RadarParams): number => {
+  return calculateSpeedFromShift(1 / (2 * radar.chirpDurationUs * 1e-6), radar.frequencyGHz);
+};
+
+/**
+ * FMCW Speed Resolution over one frame
+ * Δv = λ / (2 · N_c · T_c)
+ */
+export const calculateChirpSpeedResolution = (radar: RadarParams): number => {
+  return calculateSpeedFromShift(1 / (radar.chirpsPerFrame * radar.chirpDurationUs * 1e-6), radar.frequencyGHz);
+};
+
+/**
+ * Beat-signal data cube, one row per chirp:
+ * s[m][n] = C + Σ A_k · e^(j(2π f_b,k n / Fs_beat + 2π f_d,k m T_c + φ_k)) + w
+ * with f_b = 2·R·B / (c·T_c) (range) and f_d = 2·v_closing / λ (Doppler).
+ * Noise is referred to the beat bandwidth; returns beyond R_max are removed by the
+ * anti-aliasing filter ahead of the ADC. A real receiver keeps only the I rows.
+ */
+export const synthesizeBeatCube = (
+  cars: Car[],
+  radar: RadarParams,
+  options: BasebandOptions = DEFAULT_BASEBAND_OPTIONS,
+  pose: RadarPose = getStationaryPose(radar)
+): { i: Float64Array[]; q: Float64Array[] } => {
+  const samples = FMCW_SAMPLES_PER_CHIRP;
+  const chirpS = radar.chirpDurationUs * 1e-6;
+  const slopeHzPerS = (radar.chirpBandwidthMHz * 1e6) / chirpS;
+  const beatRateHz = calculateBeatSampleRateHz(radar);
+  const maxRangeM = calculateMaxRange(radar);
+  const noiseBandwidthHz = radar.receiverType === 'iq' ? beatRateHz : beatRateHz / 2;
+  const noiseW = BOLTZMANN * T0_KELVIN * noiseBandwidthHz * dbToLinear(radar.noiseFigureDb);
+
+  const targets = cars.flatMap(car => {
+    const los = calculateCarLineOfSight(car, radar, pose);
+    if (los.rangeM >= maxRangeM) return [];
+    const snr = calculateReceivedPowerW(radar, car.rcsM2, los.rangeM, los.beamGain) / noiseW;
+    return [{
+      beatHz: (2 * los.rangeM * slopeHzPerS) / C,
+      dopplerHz: calculateDopplerShift(los.closingSpeedKmh, radar.frequencyGHz),
+      amplitude: options.noiseRms * Math.sqrt(2 * snr),
+      phase: options.random() * 2 * Math.PI,
+    }];
+  });
+
+  const i: Float64Array[] = [];
+  const q: Float64Array[] = [];
+  for (let m = 0; m < radar.chirpsPerFrame; m++) {
+    const rowI = new Float64Array(samples);
+    const rowQ = new Float64Array(samples);
+    for (let n = 0; n < samples; n++) {
+      let sumI = options.clutterAmplitude;
+      let sumQ = 0;
+      targets.forEach(target => {
+        const phase = 2 * Math.PI * (target.beatHz * n / beatRateHz + target.dopplerHz * m * chirpS) + target.phase;
+        sumI += target.amplitude * Math.cos(phase);
+        sumQ += target.amplitude * Math.sin(phase);
+      });
+      rowI[n] = sumI + options.noiseRms * gaussianRandom(options.random);
+      rowQ[n] = sumQ + options.noiseRms * gaussianRandom(options.random);
+    }
+    i.push(rowI);
+    q.push(rowQ);
+  }
+  return { i, q };
+};
+
+/**
+ * 2D FFT of the data cube: a windowed range FFT along each chirp (fast time), then a
+ * windowed Doppler FFT across chirps (slow time) for every range bin, fftshifted so
+ * zero speed sits in the middle. Normalised by both coherent gains, so a full-scale
+ * beat tone reads 0 dBFS (×2 for a real receiver, as in computeSpectrum).
+ */
+export const computeRangeDopplerMap = (
+  cube: { i: Float64Array[]; q: Float64Array[] },
+  radar: RadarParams
+): RangeDopplerMap => {
+  const isComplex = radar.receiverType === 'iq';
+  const samples = FMCW_SAMPLES_PER_CHIRP;
+  const chirps = cube.i.length;
+  const rangeBins = isComplex ? samples : samples / 2;
+  const rangeWindow = createWindow(radar.windowType, samples);
+  const dopplerWindow = createWindow(radar.windowType, chirps);
+  const coherentGain = rangeWindow.reduce((sum, w) => sum + w, 0) * dopplerWindow.reduce((sum, w) => sum + w, 0);
+  const scale = isComplex ? 1 : 2;
+
+  // Range FFT per chirp
+  const rangeRe: Float64Array[] = [];
+  const rangeIm: Float64Array[] = [];
+  for (let m = 0; m < chirps; m++) {
+    const re = new Float64Array(samples);
+    const im = new Float64Array(samples);
+    for (let n = 0; n < samples; n++) {
+      re[n] = cube.i[m][n] * rangeWindow[n];
+      if (isComplex) im[n] = cube.q[m][n] * rangeWindow[n];
+    }
+    fft(re, im);
+    rangeRe.push(re);
+    rangeIm.push(im);
+  }
+
+  // Doppler FFT per range bin
+  const powerDb: number[][] = Array.from({ length: chirps }, () => new Array(rangeBins).fill(0));
+  const re = new Float64Array(chirps);
+  const im = new Float64Array(chirps);
+  for (let r = 0; r < rangeBins; r++) {
+    for (let m = 0; m < chirps; m++) {
+      re[m] = rangeRe[m][r] * dopplerWindow[m];
+      im[m] = rangeIm[m][r] * dopplerWindow[m];
+    }
+    fft(re, im);
+    for (let k = 0; k < chirps; k++) {
+      const index = (k + chirps / 2) % chirps;
+      const magnitude = (scale * Math.hypot(re[index], im[index])) / coherentGain;
+      powerDb[k][r] = 20 * Math.log10(magnitude + 1e-12);
+    }
+  }
+
+  return {
+    powerDb,
+    rangeResolutionM: calculateRangeResolution(radar),
+    maxRangeM: calculateMaxRange(radar),
+    speedResolutionKmh: calculateChirpSpeedResolution(radar),
+    maxSpeedKmh: calculateChirpMaxSpeed(radar),
+  };
+};
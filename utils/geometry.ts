@@ -0,0 +1,115 @@
+import { Car, PatrolConfig, RadarParams, RadarPose, TravelDirection } from '../types';
+
+// Scene scale: the 800 px canvas covers 200 m of road
+export const METRES_PER_PIXEL = 0.25;
+export const LANE_WIDTH_M = 3.5;
+export const NUM_LANES = 3;
+// Along-road position of the radar pole (radarX = 100 px in HighwayScene)
+export const RADAR_ROAD_POSITION_M = 25;
+// Dash-mounted antenna in a patrol car
+export const PATROL_ANTENNA_HEIGHT_M = 1.2;
+// A jump larger than this between position snapshots is a vehicle wrapping round the scene
+export const SCENE_WRAP_THRESHOLD_PX = 400;
+
+export interface LineOfSight {
+  rangeM: number; // Slant range radar -> car
+  thetaDeg: number; // Angle between the car's velocity and the line to the radar
+  cosineFactor: number; // cos(θ): fraction of the true speed seen as radial speed
+  closingSpeedKmh: number; // Rate at which the range shrinks (+ approaching), incl. radar motion
+  offAxisDeg: number; // Horizontal angle between the boresight and the car
+  beamGain: number; // Two-way antenna pattern (voltage), 1 on boresight
+}
+
+/**
+ * Lateral position of a lane centre, measured from the road edge on the radar side.
+ */
+export const laneCenterM = (lane: number): number => (lane + 0.5) * LANE_WIDTH_M;
+
+/**
+ * The roadside pole: fixed, looking down the road in +x.
+ */
+export const getStationaryPose = (radar: RadarParams): RadarPose => ({
+  xM: RADAR_ROAD_POSITION_M,
+  yM: -radar.mountOffsetM,
+  heightM: radar.mountHeightM,
+  heading: 1,
+  speedKmh: 0,
+  aimAngleDeg: radar.aimAngleDeg,
+  beamwidthDeg: radar.beamwidthDeg,
+});
+
+/**
+ * Front antenna of a patrol car driving at xM in its lane, looking straight ahead.
+ */
+export const getPatrolPose = (
+  radar: RadarParams,
+  patrol: PatrolConfig,
+  xM: number,
+  heading: TravelDirection,
+  speedKmh: number
+): RadarPose => ({
+  xM,
+  yM: laneCenterM(patrol.lane),
+  heightM: PATROL_ANTENNA_HEIGHT_M,
+  heading,
+  speedKmh,
+  aimAngleDeg: 0,
+  beamwidthDeg: radar.beamwidthDeg,
+});
+
+/**
+ * Two-way Gaussian beam: G(φ) = exp(-4·ln2·(φ / θ_3dB)²)
+ * (the one-way power pattern, which equals the two-way voltage pattern)
+ */
+export const calculateBeamGain = (offAxisDeg: number, beamwidthDeg: number): number => {
+  return Math.exp(-4 * Math.LN2 * Math.pow(offAxisDeg / beamwidthDeg, 2));
+};
+
+/**
+ * Line-of-sight geometry for a car driving along its lane in direction d (±x) at speed v.
+ * cos θ = d · (x_r - x) / R  (positive = approaching, negative = receding)
+ * With a moving radar the range rate uses the relative velocity:
+ * v_closing = (v_car - v_radar) · (x_r - x) / R
+ */
+export const calculateLineOfSight = (
+  carXm: number,
+  lane: number,
+  pose: RadarPose,
+  direction: TravelDirection = 1,
+  speedKmh: number = 0
+): LineOfSight => {
+  const dx = pose.xM - carXm;
+  const dy = pose.yM - laneCenterM(lane);
+  const dz = pose.heightM;
+  const rangeM = Math.max(Math.sqrt(dx * dx + dy * dy + dz * dz), 1e-3);
+  const cosineFactor = (direction * dx) / rangeM;
+  const relativeVelocityKmh = direction * speedKmh - pose.heading * pose.speedKmh;
+
+  // Azimuth of the car as seen from the radar, relative to its heading, towards the lanes
+  const azimuthDeg = (Math.atan2(Math.abs(dy), -dx * pose.heading) * 180) / Math.PI;
+  const offAxisDeg = Math.abs(azimuthDeg - pose.aimAngleDeg);
+
+  return {
+    rangeM,
+    thetaDeg: (Math.acos(cosineFactor) * 180) / Math.PI,
+    cosineFactor,
+    closingSpeedKmh: (relativeVelocityKmh * dx) / rangeM,
+    offAxisDeg,
+    beamGain: calculateBeamGain(offAxisDeg, pose.beamwidthDeg),
+  };
+};
+
+export const calculateCarLineOfSight = (
+  car: Car,
+  radar: RadarParams,
+  pose: RadarPose = getStationaryPose(radar)
+): LineOfSight =>
+  calculateLineOfSight(car.x * METRES_PER_PIXEL, car.lane, pose, car.direction, car.speedKmh);
+
+/**
+ * Cosine effect: the radar only sees v·|cos θ|, so it always reads low.
+ * Returns the error in km/h (negative) for a car at speed v.
+ */
+export const calculateCosineErrorKmh = (speedKmh: number, cosineFactor: number): number => {
+  return speedKmh * Math.abs(cosineFactor) - speedKmh;
+};
@@ -0,0 +1,379 @@
+import { DopplerEcho, IfChainConfig, IfChainStage, RadarParams } from '../types';
+import { BasebandOptions, DEFAULT_BASEBAND_OPTIONS, createWindow, fft, wrapFrequency } from './dsp';
+
+export const IF_CHAIN_STAGE_LABELS: Record<IfChainStage, string> = {
+  adc: 'ADC (IF)',
+  nco: 'NCO mix',
+  cic: 'CIC',
+  fir: 'FIR (baseband)',
+};
+
+export const DEFAULT_IF_CHAIN_CONFIG: IfChainConfig = {
+  enabled: false,
+  adcBits: 12,
+  ifGainDb: 0,
+  cicStages: 4,
+  firCompensation: true,
+};
+
+export const ADC_BITS_RANGE: [number, number] = [2, 16];
+export const CIC_STAGES_RANGE: [number, number] = [1, 6];
+
+// The FIR halves the CIC output rate down to the baseband rate
+const FIR_DECIMATION = 2;
+const FIR_TAPS = 63;
+// Passband and stopband edges of the FIR, as fractions of the baseband rate
+const FIR_PASSBAND = 0.45;
+const FIR_STOPBAND = 0.55;
+// Frequency grid the FIR is designed on
+const FIR_DESIGN_POINTS = 512;
+// NCO sine table: phase truncated to this many bits (spurs near -6 dB × bits)
+const NCO_TABLE_BITS = 12;
+// Samples kept per stage for the plots
+const SNAPSHOT_SAMPLES = 2048;
+const WAVEFORM_SAMPLES = 200;
+const SPECTRUM_POINTS = 256;
+const SPECTRUM_FLOOR_DB = -160;
+
+export interface IfChainPlan {
+  adcRateHz: number; // Locked to the baseband: cicDecimation × 2 × Fs
+  ifHz: number;
+  ncoHz: number; // The IF as it lands after sampling (-Fs/2 .. Fs/2)
+  ncoTuningWord: number; // 32-bit phase increment
+  cicDecimation: number;
+  firDecimation: number;
+  firTaps: Float64Array;
+}
+
+export interface IfStageSnapshot {
+  stage: IfChainStage;
+  sampleRateHz: number;
+  isComplex: boolean;
+  waveform: { timeUs: number; re: number; im: number }[];
+  spectrum: { freqHz: number; db: number }[]; // Peak-held down to SPECTRUM_POINTS
+}
+
+export interface IfChainReport {
+  plan: IfChainPlan;
+  stages: IfStageSnapshot[];
+  adcRmsDbfs: number; // Level at the ADC input, a full-scale sine reads 0 dBFS
+  clippedFraction: number; // Samples that hit the ADC rails
+  quantisationLossDb: number;
+}
+
+/**
+ * CIC magnitude response at frequency f of its output rate Fs_c:
+ * |H(f)| = |sin(π f / Fs_c) / (R · sin(π f / (R · Fs_c)))|^N
+ */
+export const calculateCicGain = (freqHz: number, outputRateHz: number, decimation: number, stages: number): number => {
+  const x = (Math.PI * freqHz) / outputRateHz;
+  if (Math.abs(Math.sin(x / decimation)) < 1e-12) return 1;
+  return Math.pow(Math.abs(Math.sin(x) / (decimation * Math.sin(x / decimation))), stages);
+};
+
+/**
+ * Decimating low-pass at the CIC output rate, by frequency sampling: the desired response
+ * (1 / |H_cic| in the passband when compensating, a linear fall across the transition band,
+ * zero above) is inverse-transformed and Hamming-windowed. Unit gain at DC.
+ */
+const designCompensationFir = (cicDecimation: number, stages: number, compensate: boolean): Float64Array => {
+  const centre = (FIR_TAPS - 1) / 2;
+  // Normalised to the FIR input rate, which is FIR_DECIMATION × Fs
+  const passEdge = FIR_PASSBAND / FIR_DECIMATION;
+  const stopEdge = FIR_STOPBAND / FIR_DECIMATION;
+  const desired = (nu: number) => {
+    const shape = nu <= passEdge ? 1 : nu >= stopEdge ? 0 : (stopEdge - nu) / (stopEdge - passEdge);
+    return compensate && shape > 0 ? shape / calculateCicGain(nu, 1, cicDecimation, stages) : shape;
+  };
+  const taps = new Float64Array(FIR_TAPS);
+  const step = 0.5 / FIR_DESIGN_POINTS;
+  for (let k = 0; k < FIR_DESIGN_POINTS; k++) {
+    const nu = (k + 0.5) * step;
+    const d = desired(nu);
+    for (let n = 0; n < FIR_TAPS; n++) taps[n] += 2 * d * Math.cos(2 * Math.PI * nu * (n - centre)) * step;
+  }
+  let sum = 0;
+  for (let n = 0; n < FIR_TAPS; n++) {
+    taps[n] *= 0.54 - 0.46 * Math.cos((2 * Math.PI * n) / (FIR_TAPS - 1));
+    sum += taps[n];
+  }
+  return taps.map(t => t / sum);
+};
+
+/**
+ * Rates and filters of the receive chain. The decimation has to be a whole number, so the
+ * ADC clock is trimmed to the nearest multiple of 2 × Fs (e.g. 100 MHz → 2 × 1134 × 44.1 kHz
+ * = 100.019 MHz). The NCO is tuned to the IF as sampled, so undersampling works too.
+ */
+export const planIfChain = (radar: RadarParams, config: IfChainConfig): IfChainPlan => {
+  const fs = radar.basebandSampleRateHz;
+  const cicDecimation = Math.max(1, Math.round((radar.adcSamplingRateMHz * 1e6) / (FIR_DECIMATION * fs)));
+  const adcRateHz = cicDecimation * FIR_DECIMATION * fs;
+  const ifHz = radar.intermediateFreqMHz * 1e6;
+  const ncoTuningWord = Math.round((wrapFrequency(ifHz, adcRateHz) / adcRateHz) * 2 ** 32) >>> 0;
+  return {
+    adcRateHz,
+    ifHz,
+    ncoHz: wrapFrequency((ncoTuningWord / 2 ** 32) * adcRateHz, adcRateHz),
+    ncoTuningWord,
+    cicDecimation,
+    firDecimation: FIR_DECIMATION,
+    firTaps: designCompensationFir(cicDecimation, config.cicStages, config.firCompensation),
+  };
+};
+
+/**
+ * Gain of CIC and FIR together at a baseband frequency, in dB (the droop at that frequency).
+ */
+export const calculateIfChainResponseDb = (plan: IfChainPlan, config: IfChainConfig, freqHz: number): number => {
+  const firRateHz = plan.adcRateHz / plan.cicDecimation;
+  let re = 0;
+  let im = 0;
+  plan.firTaps.forEach((tap, n) => {
+    re += tap * Math.cos((2 * Math.PI * freqHz * n) / firRateHz);
+    im -= tap * Math.sin((2 * Math.PI * freqHz * n) / firRateHz);
+  });
+  const gain = calculateCicGain(freqHz, firRateHz, plan.cicDecimation, config.cicStages) * Math.hypot(re, im);
+  return 20 * Math.log10(gain + 1e-12);
+};
+
+/**
+ * SNR lost to quantisation: both the receiver noise and the quantisation noise (Δ²/12 with
+ * Δ = 2 / 2^bits) are white across the ADC band, so the decimators keep their ratio:
+ * L = 10·log10(1 + (Δ² / 12) / σ²)
+ */
+export const calculateQuantisationLossDb = (noiseRms: number, adcBits: number): number => {
+  const lsb = 2 / 2 ** adcBits;
+  return 10 * Math.log10(1 + (lsb * lsb) / 12 / (noiseRms * noiseRms));
+};
+
+/**
+ * Windowed spectrum of the start of one stage, peak-held down to a plottable size.
+ */
+const snapshotSpectrum = (re: Float64Array, im: Float64Array | null, sampleRateHz: number) => {
+  const n = 2 ** Math.floor(Math.log2(Math.min(re.length, SNAPSHOT_SAMPLES)));
+  const window = createWindow('hann', n);
+  const coherentGain = window.reduce((sum, w) => sum + w, 0);
+  const xRe = new Float64Array(n);
+  const xIm = new Float64Array(n);
+  for (let s = 0; s < n; s++) {
+    xRe[s] = re[s] * window[s];
+    if (im) xIm[s] = im[s] * window[s];
+  }
+  fft(xRe, xIm);
+  const firstBin = im ? -n / 2 : 0;
+  const bins = n / 2 - firstBin;
+  const stride = Math.max(1, Math.floor(bins / SPECTRUM_POINTS));
+  const spectrum: { freqHz: number; db: number }[] = [];
+  for (let start = 0; start < bins; start += stride) {
+    let peak = 0;
+    for (let b = start; b < Math.min(start + stride, bins); b++) {
+      const index = (b + firstBin + n) % n;
+      peak = Math.max(peak, ((im ? 1 : 2) * Math.hypot(xRe[index], xIm[index])) / coherentGain);
+    }
+    spectrum.push({ freqHz: ((start + firstBin) * sampleRateHz) / n, db: Math.max(20 * Math.log10(peak + 1e-12), SPECTRUM_FLOOR_DB) });
+  }
+  return spectrum;
+};
+
+const snapshot = (stage: IfChainStage, re: Float64Array, im: Float64Array | null, sampleRateHz: number): IfStageSnapshot => ({
+  stage,
+  sampleRateHz,
+  isComplex: im !== null,
+  waveform: Array.from({ length: Math.min(WAVEFORM_SAMPLES, re.length) }, (_, s) => ({
+    timeUs: (s / sampleRateHz) * 1e6,
+    re: re[s],
+    im: im ? im[s] : 0,
+  })),
+  spectrum: snapshotSpectrum(re, im, sampleRateHz),
+});
+
+/**
+ * The receive path from the IF ADC to the baseband, one frame at a time:
+ * 1. IF at the ADC: x[m] = Re{(C + Σ A_k e^{jφ_k(t)}) · e^{jω_IF m}} + w[m], the Tx leakage C
+ *    riding on the IF carrier. The noise σ_IF = σ · √(Fs_adc / (2 Fs)) leaves σ per channel in band.
+ * 2. ADC: gain, rounding to 2^bits levels over ±1 and clipping at the rails.
+ * 3. NCO: y = 2x · e^{-jω_NCO m} from a 32-bit phase accumulator and a sine table.
+ * 4. CIC: N cascaded moving sums of length R, decimated by R (H(z) = ((1 - z^-R) / (1 - z^-1))^N / R^N).
+ * 5. FIR: low-pass (optionally droop-compensating) and decimation by 2 to Fs.
+ * Each sample is streamed through once; only the CIC output and the plot snapshots are kept.
+ * The chain's group delay is taken off, so sample 0 lines up with startTimeS as in synthesizeBaseband.
+ */
+export const runIfChain = (
+  echoes: DopplerEcho[],
+  radar: RadarParams,
+  config: IfChainConfig,
+  options: BasebandOptions = DEFAULT_BASEBAND_OPTIONS,
+  preRollSamples = 0
+): { signal: { i: Float64Array; q: Float64Array }; report: IfChainReport } => {
+  const plan = planIfChain(radar, config);
+  const { cicDecimation: r, firTaps, adcRateHz } = plan;
+  const stages = config.cicStages;
+  const fs = radar.basebandSampleRateHz;
+  const dt = 1 / adcRateHz;
+  const outputSamples = radar.fftSize + preRollSamples;
+  const settling = Math.ceil((firTaps.length + stages) / FIR_DECIMATION);
+  const cicOutputs = (outputSamples + settling) * FIR_DECIMATION;
+  const groupDelayS = ((stages * (r - 1)) / 2) * dt + ((firTaps.length - 1) / 2) * r * dt;
+  const firstS = options.startTimeS - (preRollSamples + settling) / fs - (r - 1) * dt + groupDelayS;
+  const midS = options.startTimeS + radar.fftSize / fs / 2;
+
+  const gain = Math.pow(10, config.ifGainDb / 20);
+  const invGain = 1 / gain;
+  const lsb = 2 / 2 ** config.adcBits;
+  const invLsb = 1 / lsb;
+  const maxCode = 2 ** (config.adcBits - 1) - 1;
+  const minCode = -(2 ** (config.adcBits - 1));
+  const ifNoiseRms = options.noiseRms * Math.sqrt(adcRateHz / (2 * fs));
+
+  const tableSize = 1 << NCO_TABLE_BITS;
+  const cosTable = new Float64Array(tableSize);
+  const sinTable = new Float64Array(tableSize);
+  for (let k = 0; k < tableSize; k++) {
+    cosTable[k] = Math.cos((2 * Math.PI * k) / tableSize);
+    sinTable[k] = Math.sin((2 * Math.PI * k) / tableSize);
+  }
+  let ncoPhase = 0;
+
+  // Moving-sum delay lines, stage k at [k·R, (k + 1)·R)
+  const delayI = new Float64Array(stages * r);
+  const delayQ = new Float64Array(stages * r);
+  const sumI = new Float64Array(stages);
+  const sumQ = new Float64Array(stages);
+  const cicI = new Float64Array(cicOutputs);
+  const cicQ = new Float64Array(cicOutputs);
+
+  const blockI = new Float64Array(r);
+  const blockQ = new Float64Array(r);
+  const snapshotLength = Math.min(SNAPSHOT_SAMPLES, cicOutputs * r);
+  const adcSnapshot = new Float64Array(snapshotLength);
+  const ncoSnapshotI = new Float64Array(snapshotLength);
+  const ncoSnapshotQ = new Float64Array(snapshotLength);
+
+  const ifCycles = plan.ifHz / adcRateHz;
+  const noiseI = new Float64Array(r);
+  const invR = 1 / r;
+
+  let clipped = 0;
+  let powerSum = 0;
+  for (let block = 0; block < cicOutputs; block++) {
+    const blockS = firstS + block * r * dt;
+    blockI.fill(options.clutterAmplitude);
+    blockQ.fill(0);
+    // Each echo is re-anchored to its exact phase every block and rotated within it
+    echoes.forEach(echo => {
+      const rate = echo.dopplerRateHzPerS ?? 0;
+      const tau = blockS - midS;
+      const phase = 2 * Math.PI * (echo.dopplerHz * blockS + 0.5 * rate * tau * tau) + echo.phase;
+      const step = 2 * Math.PI * (echo.dopplerHz + rate * (tau + (r * dt) / 2)) * dt;
+      let re = echo.amplitude * Math.cos(phase);
+      let im = echo.amplitude * Math.sin(phase);
+      const stepRe = Math.cos(step);
+      const stepIm = Math.sin(step);
+      for (let s = 0; s < r; s++) {
+        blockI[s] += re;
+        blockQ[s] += im;
+        const next = re * stepRe - im * stepIm;
+        im = re * stepIm + im * stepRe;
+        re = next;
+      }
+    });
+
+    // Box-Muller gives two independent samples per draw
+    for (let s = 0; s < r; s += 2) {
+      const radius = ifNoiseRms * Math.sqrt(-2 * Math.log(1 - options.random()));
+      const angle = 2 * Math.PI * options.random();
+      noiseI[s] = radius * Math.cos(angle);
+      if (s + 1 < r) noiseI[s + 1] = radius * Math.sin(angle);
+    }
+
+    const firstSample = block * r;
+    const carrierPhase = 2 * Math.PI * ((ifCycles * firstSample) % 1);
+    let carrierRe = Math.cos(carrierPhase);
+    let carrierIm = Math.sin(carrierPhase);
+    const carrierStepRe = Math.cos(2 * Math.PI * ifCycles);
+    const carrierStepIm = Math.sin(2 * Math.PI * ifCycles);
+    for (let s = 0; s < r; s++) {
+      const analog = blockI[s] * carrierRe - blockQ[s] * carrierIm + noiseI[s];
+      const next = carrierRe * carrierStepRe - carrierIm * carrierStepIm;
+      carrierIm = carrierRe * carrierStepIm + carrierIm * carrierStepRe;
+      carrierRe = next;
+
+      const scaled = analog * gain;
+      powerSum += scaled * scaled;
+      let code = Math.round(scaled * invLsb);
+      if (code > maxCode) {
+        code = maxCode;
+        clipped++;
+      } else if (code < minCode) {
+        code = minCode;
+        clipped++;
+      }
+      const sample = code * lsb * invGain; // Back in receiver units, so levels match the direct synthesis
+
+      const index = ncoPhase >>> (32 - NCO_TABLE_BITS);
+      blockI[s] = 2 * sample * cosTable[index];
+      blockQ[s] = -2 * sample * sinTable[index];
+      ncoPhase = (ncoPhase + plan.ncoTuningWord) >>> 0;
+
+      if (firstSample + s < snapshotLength) {
+        adcSnapshot[firstSample + s] = sample;
+        ncoSnapshotI[firstSample + s] = blockI[s];
+        ncoSnapshotQ[firstSample + s] = blockQ[s];
+      }
+    }
+
+    // Each moving sum needs the input from exactly R samples back: the same slot of the last block
+    for (let k = 0; k < stages; k++) {
+      const offset = k * r;
+      let runI = sumI[k];
+      let runQ = sumQ[k];
+      for (let s = 0; s < r; s++) {
+        const inI = blockI[s];
+        const inQ = blockQ[s];
+        runI += inI - delayI[offset + s];
+        runQ += inQ - delayQ[offset + s];
+        delayI[offset + s] = inI;
+        delayQ[offset + s] = inQ;
+        blockI[s] = runI * invR;
+        blockQ[s] = runQ * invR;
+      }
+      sumI[k] = runI;
+      sumQ[k] = runQ;
+    }
+    cicI[block] = blockI[r - 1];
+    cicQ[block] = blockQ[r - 1];
+  }
+
+  const i = new Float64Array(outputSamples);
+  const q = new Float64Array(outputSamples);
+  for (let k = 0; k < outputSamples; k++) {
+    const last = (k + settling) * FIR_DECIMATION;
+    let accI = 0;
+    let accQ = 0;
+    for (let j = 0; j < firTaps.length; j++) {
+      accI += firTaps[j] * cicI[last - j];
+      accQ += firTaps[j] * cicQ[last - j];
+    }
+    i[k] = accI;
+    q[k] = accQ;
+  }
+
+  const totalSamples = cicOutputs * r;
+  const cicStart = settling * FIR_DECIMATION;
+  return {
+    signal: { i, q },
+    report: {
+      plan,
+      stages: [
+        snapshot('adc', adcSnapshot, null, adcRateHz),
+        snapshot('nco', ncoSnapshotI, ncoSnapshotQ, adcRateHz),
+        snapshot('cic', cicI.subarray(cicStart), cicQ.subarray(cicStart), adcRateHz / r),
+        snapshot('fir', i, q, fs),
+      ],
+      adcRmsDbfs: 10 * Math.log10((2 * powerSum) / totalSamples + 1e-30),
+      clippedFraction: clipped / totalSamples,
+      quantisationLossDb: calculateQuantisationLossDb(ifNoiseRms * gain, config.adcBits),
+    },
+  };
+};
@@ -0,0 +1,241 @@
+import { Car, DirectionFilter, RadarParams, SweepConfig, SweepParameter, WindowType } from '../types';
+import { DEFAULT_BASEBAND_OPTIONS, WINDOW_LABELS } from './dsp';
+import { MeasurementSettings, filterDetectionsByDirection, measureFrame, selectTarget } from './pipeline';
+import { METRES_PER_PIXEL, NUM_LANES, RADAR_ROAD_POSITION_M, calculateCarLineOfSight, getStationaryPose } from './geometry';
+import { calculateIntegrationGain, calculateNoisePowerW, calculateReceivedPowerW, dbToLinear } from './radarEquation';
+import { VEHICLE_CLASSES, VEHICLE_SPECS } from './vehicles';
+import { createRng } from './simulation';
+import { csvCell } from './download';
+
+export interface SweepParameterSpec {
+  label: string;
+  unit: string;
+  defaultStart: number;
+  defaultStop: number;
+  defaultSteps: number;
+}
+
+export const SWEEP_PARAMETERS: Record<SweepParameter, SweepParameterSpec> = {
+  fftSize: { label: 'FFT size', unit: 'samples', defaultStart: 128, defaultStop: 4096, defaultSteps: 6 },
+  basebandSampleRateHz: { label: 'Baseband sample rate', unit: 'Hz', defaultStart: 8000, defaultStop: 96000, defaultSteps: 8 },
+  frequencyGHz: { label: 'Carrier frequency', unit: 'GHz', defaultStart: 10, defaultStop: 35, defaultSteps: 6 },
+  snrDb: { label: 'SNR after the FFT', unit: 'dB', defaultStart: 0, defaultStop: 30, defaultSteps: 7 },
+  windowType: { label: 'Window', unit: '', defaultStart: 0, defaultStop: 0, defaultSteps: 0 },
+};
+
+export const DEFAULT_SWEEP_CONFIG: SweepConfig = {
+  parameter: 'snrDb',
+  start: 0,
+  stop: 30,
+  steps: 7,
+  trialsPerPoint: 200,
+  minSpeedKmh: 30,
+  maxSpeedKmh: 180,
+  seed: 1,
+};
+
+export const MAX_SWEEP_STEPS = 50;
+export const MAX_TRIALS_PER_POINT = 5000;
+// FFT sizes a sweep may visit: the live selector's 128–2048 and one size above
+export const SWEEP_FFT_SIZE_RANGE: [number, number] = [128, 4096];
+
+// Trial cars are placed this far down the road from the radar
+const TRIAL_RANGE_M: [number, number] = [20, 150];
+
+// Work done per timer callback before handing the thread back to the UI
+const SLICE_BUDGET_MS = 15;
+
+const WINDOW_TYPES = Object.keys(WINDOW_LABELS) as WindowType[];
+
+export interface SweepPoint {
+  label: string;
+  value: number;
+  trials: number;
+  detected: number; // Trials where the selected detection was the trial car
+  meanErrorKmh: number; // Bias of |measured| − |true closing speed|
+  rmsErrorKmh: number;
+  p95ErrorKmh: number; // 95th percentile of the absolute error
+  missRate: number; // Nothing detected
+  falseRate: number; // Something else (noise, clutter, an alias) was selected
+}
+
+export interface SweepProgress {
+  points: SweepPoint[]; // Finished points, in sweep order
+  completedTrials: number;
+  totalTrials: number;
+  done: boolean;
+}
+
+/**
+ * Values visited by a sweep: every window for windowType, powers of two within
+ * SWEEP_FFT_SIZE_RANGE for the FFT size, otherwise `steps` evenly spaced values from start
+ * to stop. None when a carrier or sample rate bound is not positive.
+ */
+export const getSweepValues = (config: SweepConfig): number[] => {
+  if (config.parameter === 'windowType') return WINDOW_TYPES.map((_, index) => index);
+  const lo = Math.min(config.start, config.stop);
+  const hi = Math.max(config.start, config.stop);
+  if (config.parameter === 'fftSize') {
+    const [minSize, maxSize] = SWEEP_FFT_SIZE_RANGE;
+    const values: number[] = [];
+    for (let n = minSize; n <= Math.min(hi, maxSize); n *= 2) {
+      if (n >= lo) values.push(n);
+    }
+    return values;
+  }
+  if ((config.parameter === 'frequencyGHz' || config.parameter === 'basebandSampleRateHz') && lo <= 0) return [];
+  const steps = Math.min(Math.max(Math.round(config.steps), 1), MAX_SWEEP_STEPS);
+  const values = Array.from({ length: steps }, (_, i) => (steps === 1 ? lo : lo + ((hi - lo) * i) / (steps - 1)));
+  return config.parameter === 'basebandSampleRateHz' ? values.map(Math.round) : values;
+};
+
+export const formatSweepValue = (parameter: SweepParameter, value: number): string => {
+  switch (parameter) {
+    case 'windowType': return WINDOW_LABELS[WINDOW_TYPES[value]];
+    case 'frequencyGHz': return `${value.toFixed(2)} GHz`;
+    case 'snrDb': return `${value.toFixed(1)} dB`;
+    case 'basebandSampleRateHz': return `${value} Hz`;
+    case 'fftSize': return `${value}`;
+  }
+};
+
+/**
+ * Radar for one sweep point. The SNR is not a radar setting: it is applied per trial.
+ */
+export const applySweepValue = (radar: RadarParams, parameter: SweepParameter, value: number): RadarParams => {
+  switch (parameter) {
+    case 'windowType': return { ...radar, windowType: WINDOW_TYPES[value] };
+    case 'fftSize': return { ...radar, fftSize: value };
+    case 'basebandSampleRateHz': return { ...radar, basebandSampleRateHz: value };
+    case 'frequencyGHz': return { ...radar, frequencyGHz: value };
+    case 'snrDb': return radar;
+  }
+};
+
+/**
+ * One randomised trial car: class, lane, speed and range are drawn uniformly, and so is the
+ * direction unless the direction filter would reject one of them.
+ * For an SNR sweep the RCS is scaled so the post-FFT SNR is exactly the target:
+ * σ = SNR / (P_r(σ = 1) / N · G_int)
+ */
+const createTrialCar = (
+  config: SweepConfig,
+  radar: RadarParams,
+  snrDb: number | null,
+  directionFilter: DirectionFilter,
+  random: () => number
+): Car => {
+  const vehicleClass = VEHICLE_CLASSES[Math.floor(random() * VEHICLE_CLASSES.length)];
+  const xM = RADAR_ROAD_POSITION_M + TRIAL_RANGE_M[0] + random() * (TRIAL_RANGE_M[1] - TRIAL_RANGE_M[0]);
+  const car: Car = {
+    id: 1,
+    x: xM / METRES_PER_PIXEL,
+    lane: Math.floor(random() * NUM_LANES),
+    color: '#ffffff',
+    speedKmh: config.minSpeedKmh + random() * (config.maxSpeedKmh - config.minSpeedKmh),
+    // Cars are placed beyond the radar, so driving towards −x approaches it
+    direction: directionFilter === 'approaching' ? -1 : directionFilter === 'receding' ? 1 : random() < 0.5 ? -1 : 1,
+    vehicleClass,
+    rcsM2: VEHICLE_SPECS[vehicleClass].rcsM2,
+  };
+  if (snrDb === null) return car;
+  const los = calculateCarLineOfSight(car, radar);
+  const snrPerSquareMetre = (calculateReceivedPowerW(radar, 1, los.rangeM, los.beamGain) / calculateNoisePowerW(radar)) *
+    calculateIntegrationGain(radar);
+  return { ...car, rcsM2: dbToLinear(snrDb) / Math.max(snrPerSquareMetre, 1e-300) };
+};
+
+type TrialResult = { outcome: 'hit'; errorKmh: number } | { outcome: 'miss' | 'false' };
+
+/**
+ * Measures one trial car through the same pipeline as the headline speed: measureFrame,
+ * the direction filter and the target selection. A fixed radar is assumed and the IF
+ * chain is skipped (it costs hundreds of milliseconds per frame).
+ */
+const runTrial = (settings: MeasurementSettings, radar: RadarParams, car: Car, random: () => number): TrialResult => {
+  const pose = getStationaryPose(radar);
+  const frame = measureFrame([car], radar, settings.cfar, { ...DEFAULT_BASEBAND_OPTIONS, random, disturbances: settings.disturbances }, pose, settings.filter, settings.estimator);
+  const selection = selectTarget(filterDetectionsByDirection(frame.detections, settings.directionFilter, radar), settings.selectionMode);
+  if (!selection) return { outcome: 'miss' };
+  if (selection.detection.carId !== car.id) return { outcome: 'false' };
+  const trueKmh = Math.abs(calculateCarLineOfSight(car, radar, pose).closingSpeedKmh);
+  return { outcome: 'hit', errorKmh: Math.abs(selection.detection.speed) - trueKmh };
+};
+
+const summarisePoint = (label: string, value: number, results: TrialResult[]): SweepPoint => {
+  const errors = results.flatMap(r => (r.outcome === 'hit' ? [r.errorKmh] : []));
+  const absErrors = errors.map(Math.abs).sort((a, b) => a - b);
+  const trials = results.length;
+  return {
+    label,
+    value,
+    trials,
+    detected: errors.length,
+    meanErrorKmh: errors.length ? errors.reduce((sum, e) => sum + e, 0) / errors.length : NaN,
+    rmsErrorKmh: errors.length ? Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length) : NaN,
+    p95ErrorKmh: absErrors.length ? absErrors[Math.min(absErrors.length - 1, Math.ceil(0.95 * absErrors.length) - 1)] : NaN,
+    missRate: trials ? results.filter(r => r.outcome === 'miss').length / trials : 0,
+    falseRate: trials ? results.filter(r => r.outcome === 'false').length / trials : 0,
+  };
+};
+
+/**
+ * Runs the sweep in time slices on the main thread, so the page keeps rendering, and
+ * reports after every slice. Each trial has its own generator (seed, point, trial), so a
+ * sweep is repeatable and does not depend on how the work was sliced.
+ * Returns a cancel function.
+ */
+export const startSweep = (
+  config: SweepConfig,
+  settings: MeasurementSettings,
+  onUpdate: (progress: SweepProgress) => void
+): (() => void) => {
+  const values = getSweepValues(config);
+  const trialsPerPoint = Math.min(Math.max(Math.round(config.trialsPerPoint), 1), MAX_TRIALS_PER_POINT);
+  const totalTrials = values.length * trialsPerPoint;
+  const points: SweepPoint[] = [];
+  let pointIndex = 0;
+  let results: TrialResult[] = [];
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+
+  const runSlice = () => {
+    const sliceStart = performance.now();
+    while (pointIndex < values.length && performance.now() - sliceStart < SLICE_BUDGET_MS) {
+      const value = values[pointIndex];
+      const radar = applySweepValue(settings.radar, config.parameter, value);
+      const random = createRng(config.seed ^ Math.imul(pointIndex + 1, 0x9e3779b1) ^ Math.imul(results.length + 1, 0x85ebca6b));
+      const car = createTrialCar(config, radar, config.parameter === 'snrDb' ? value : null, settings.directionFilter, random);
+      results.push(runTrial(settings, radar, car, random));
+      if (results.length === trialsPerPoint) {
+        points.push(summarisePoint(formatSweepValue(config.parameter, value), value, results));
+        results = [];
+        pointIndex++;
+      }
+    }
+    const done = pointIndex >= values.length;
+    onUpdate({ points: [...points], completedTrials: pointIndex * trialsPerPoint + results.length, totalTrials, done });
+    if (!done) timerId = setTimeout(runSlice, 0);
+  };
+
+  timerId = setTimeout(runSlice, 0);
+  return () => clearTimeout(timerId);
+};
+
+/**
+ * One row per sweep point, in sweep order.
+ */
+export const sweepToCsv = (config: SweepConfig, points: SweepPoint[]): string => {
+  const spec = SWEEP_PARAMETERS[config.parameter];
+  const header = [spec.unit ? `${spec.label} (${spec.unit})` : spec.label, 'trials', 'detected', 'mean_error_kmh', 'rms_error_kmh', 'p95_error_kmh', 'miss_rate', 'false_rate'].map(csvCell).join(',');
+  const rows = points.map(p => [
+    config.parameter === 'windowType' ? p.label : p.value,
+    p.trials,
+    p.detected,
+    isNaN(p.meanErrorKmh) ? '' : p.meanErrorKmh.toFixed(3),
+    isNaN(p.rmsErrorKmh) ? '' : p.rmsErrorKmh.toFixed(3),
+    isNaN(p.p95ErrorKmh) ? '' : p.p95ErrorKmh.toFixed(3),
+    p.missRate.toFixed(4),
+    p.falseRate.toFixed(4),
+  ].map(csvCell).join(','));
+  return [header, ...rows].join('\n');
+};
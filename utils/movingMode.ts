@@ -0,0 +1,110 @@
+import { Detection, DopplerEcho, PatrolConfig, PatrolTargetMode, RadarParams, SpectrumBin } from '../types';
+import { attributeDetections } from './pipeline';
+
+export const DEFAULT_PATROL_CONFIG: PatrolConfig = {
+  enabled: false,
+  speedKmh: 90,
+  lane: 1,
+  targetMode: 'opposite',
+  speedSwingKmh: 0,
+  accelerationKmhPerS: 10,
+  batchIntervalMs: 500,
+};
+
+export const PATROL_CAR_LENGTH_PX = 40;
+
+export const PATROL_TARGET_MODE_LABELS: Record<PatrolTargetMode, string> = {
+  opposite: 'Opposite Direction',
+  sameFaster: 'Same Dir. (Faster)',
+  sameSlower: 'Same Dir. (Slower)',
+};
+
+// Patrol speeds the receiver searches for the ground return
+export const MIN_PATROL_SPEED_KMH = 10;
+export const MAX_PATROL_SPEED_KMH = 160;
+
+// Margin above the median spectrum level for a patrol return to count
+const PATROL_RETURN_MIN_SNR_DB = 15;
+
+/**
+ * Moving-mode patrol speed: the strongest spectrum bin within the patrol-speed window.
+ * Normally that is the road surface closing at v_p. The ground return is spread over
+ * the beam, so it fills its own CFAR training cells; the peak is therefore tested
+ * against the median spectrum level instead. A large vehicle driving ahead in the same
+ * direction returns more energy at the low frequency v_p - v_truck, and is taken for
+ * the ground: the shadowing error.
+ */
+export const findPatrolReturn = (
+  spectrum: SpectrumBin[],
+  echoes: DopplerEcho[],
+  radar: RadarParams
+): Detection | null => {
+  const candidates = spectrum.filter(bin => {
+    const speed = Math.abs(bin.speed);
+    return speed >= MIN_PATROL_SPEED_KMH && speed <= MAX_PATROL_SPEED_KMH;
+  });
+  if (candidates.length === 0) return null;
+  const levels = spectrum.map(bin => bin.amp).sort((a, b) => a - b);
+  const medianDb = levels[Math.floor(levels.length / 2)];
+  const peak = candidates.reduce((prev, current) => (prev.amp > current.amp) ? prev : current);
+  if (peak.amp - medianDb < PATROL_RETURN_MIN_SNR_DB) return null;
+  const [patrolReturn] = attributeDetections([{
+    binIndex: peak.binIndex,
+    freq: peak.freq,
+    speed: peak.speed,
+    amp: peak.amp,
+    snrDb: peak.amp - medianDb,
+  }], echoes, radar);
+  return patrolReturn;
+};
+
+/**
+ * Converts closing speeds into target ground speeds:
+ *   opposite:   v_t = v_closing - v_p
+ *   sameFaster: v_t = v_p + v_closing  (target pulling away)
+ *   sameSlower: v_t = v_p - v_closing  (patrol catching up)
+ * Returns the detections with `speed` replaced by the target speed and the raw value
+ * kept in `closingSpeed`. Returns inside the ground-clutter band (v_p · cos(θ_3dB) up to
+ * the patrol return), and anything that cannot belong to the chosen case, are dropped.
+ */
+export const resolvePatrolTargets = (
+  detections: Detection[],
+  patrolReturn: Detection | null,
+  patrolSpeedKmh: number,
+  mode: PatrolTargetMode,
+  beamwidthDeg: number
+): Detection[] => {
+  if (!patrolReturn) return [];
+  const groundSpeed = Math.abs(patrolReturn.speed);
+  const clutterFloorKmh = groundSpeed * Math.cos((beamwidthDeg * Math.PI) / 180);
+  return detections
+    .filter(d => {
+      const closing = Math.abs(d.speed);
+      return Math.abs(d.binIndex - patrolReturn.binIndex) > 2 &&
+        (closing < clutterFloorKmh || closing > groundSpeed);
+    })
+    .map(d => {
+      const closing = Math.abs(d.speed);
+      const speed = mode === 'opposite' ? closing - patrolSpeedKmh
+        : mode === 'sameFaster' ? patrolSpeedKmh + closing
+        : patrolSpeedKmh - closing;
+      return { ...d, closingSpeed: d.speed, speed };
+    })
+    .filter(d => {
+      const closing = Math.abs(d.closingSpeed as number);
+      return mode === 'opposite' ? closing > patrolSpeedKmh : closing < patrolSpeedKmh;
+    });
+};
+
+/**
+ * Live patrol ground speed. With a swing set, the patrol car accelerates and brakes
+ * at a constant rate around its cruise speed (a triangle wave), which is what exposes
+ * the batching error of a patrol-speed estimate refreshed only every batch interval.
+ */
+export const calculatePatrolSpeedKmh = (patrol: PatrolConfig, timeMs: number): number => {
+  if (patrol.speedSwingKmh <= 0 || patrol.accelerationKmhPerS <= 0) return patrol.speedKmh;
+  const periodS = (4 * patrol.speedSwingKmh) / patrol.accelerationKmhPerS;
+  const phase = ((timeMs / 1000) % periodS) / periodS;
+  const triangle = phase < 0.25 ? 4 * phase : phase < 0.75 ? 2 - 4 * phase : 4 * phase - 4;
+  return Math.max(0, patrol.speedKmh + patrol.speedSwingKmh * triangle);
+};
@@ -65,4 +65,15 @@ export const calculateMaxUnambiguousSpeed = (
 ): number => {
   const maxFreq = sampleRateHz / 2;
   return calculateSpeedFromShift(maxFreq, frequencyGHz);
-};
\ No newline at end of file
+};
+
+/**
+ * Acceleration Smearing: a target changing speed during the measurement
+ * spreads its line over Delta_v = a * T_obs
+ */
+export const calculateAccelerationSmearKmh = (
+  accelKmhPerS: number,
+  observationTimeS: number
+): number => {
+  return Math.abs(accelKmhPerS) * observationTimeS;
+};
@@ -0,0 +1,261 @@
+import { Car, CfarConfig, ClutterFilterConfig, Detection, DirectionFilter, DisturbanceConfig, DopplerEcho, EstimatorConfig, RadarParams, RadarPose, SpectrumBin, TargetSelection, TargetSelectionMode } from '../types';
+import { BasebandOptions, DEFAULT_BASEBAND_OPTIONS, computeSpectrum, foldFrequency, synthesizeBaseband, wrapFrequency } from './dsp';
+import { runCfar } from './cfar';
+import { calculateDopplerShift } from './physics';
+import { calculateBeamGain, calculateCarLineOfSight, getStationaryPose } from './geometry';
+import { calculateNoisePowerW, calculateReceivedPowerW } from './radarEquation';
+import { DEFAULT_ESTIMATOR_CONFIG, estimateFrequencies } from './estimation';
+import { IfChainReport, runIfChain } from './ifChain';
+import { ClutterFilterStage, DEFAULT_CLUTTER_FILTER_CONFIG, applyClutterFilters, calculateFilterSettlingSamples, disturbanceEchoes } from './clutter';
+
+// Spectrum and false alarms after one stage of the clutter filter chain
+export interface FilterStageResult {
+  stage: ClutterFilterStage;
+  amps: number[]; // dBFS per bin, same order as the spectrum
+  detections: number;
+  falseDetections: number;
+}
+
+export interface MeasurementFrame {
+  echoes: DopplerEcho[];
+  spectrum: SpectrumBin[];
+  detections: Detection[];
+  stages: FilterStageResult[]; // Raw first, then every enabled filter stage; the last one is the spectrum
+  ifChain?: IfChainReport; // Set when the frame came through the simulated IF receive chain
+}
+
+// Everything the live readout measures with, for tools that re-run the pipeline offline
+export interface MeasurementSettings {
+  radar: RadarParams;
+  cfar: CfarConfig;
+  filter: ClutterFilterConfig;
+  estimator: EstimatorConfig;
+  disturbances: DisturbanceConfig;
+  selectionMode: TargetSelectionMode;
+  directionFilter: DirectionFilter;
+}
+
+// Road-surface patches that make up the moving-mode ground return
+const GROUND_PATCH_RCS_M2 = 2;
+const GROUND_PATCH_RANGES_M = [8, 12, 18, 25, 35, 50];
+const GROUND_PATCH_AZIMUTHS = [-1, -0.5, 0, 0.5, 1]; // In beamwidths from boresight
+
+// A tone of amplitude A over noise of RMS σ has a per-sample SNR of A² / (2σ²), so A = σ · √(2 · SNR)
+export const snrToAmplitude = (snr: number, noiseRms: number): number => noiseRms * Math.sqrt(2 * snr);
+
+/**
+ * One echo per moving car, using the Doppler shift of its closing speed
+ * (v·cos θ for a fixed radar, relative velocity for a moving one).
+ * An accelerating car also sweeps its shift during the frame: ḟ_d = 2·a·cos θ / λ.
+ * The amplitude comes from the radar range equation.
+ * Reflection phase is random: the path length is unknown to the millimetre.
+ */
+export const carsToEchoes = (
+  cars: Car[],
+  radar: RadarParams,
+  noiseRms: number,
+  pose: RadarPose = getStationaryPose(radar),
+  random: () => number = Math.random
+): DopplerEcho[] => {
+  const noiseW = calculateNoisePowerW(radar);
+  return cars
+    .filter(car => car.speedKmh > 0 || pose.speedKmh > 0)
+    .map(car => {
+      const los = calculateCarLineOfSight(car, radar, pose);
+      const snr = calculateReceivedPowerW(radar, car.rcsM2, los.rangeM, los.beamGain) / noiseW;
+      return {
+        carId: car.id,
+        dopplerHz: calculateDopplerShift(los.closingSpeedKmh, radar.frequencyGHz),
+        dopplerRateHzPerS: calculateDopplerShift((car.accelKmhPerS ?? 0) * los.cosineFactor, radar.frequencyGHz),
+        amplitude: snrToAmplitude(snr, noiseRms),
+        phase: random() * 2 * Math.PI,
+      };
+    });
+};
+
+/**
+ * Ground return seen from a moving platform: every road patch in the beam closes at
+ * v_p · cos(ψ), where ψ is the angle off the heading. Near boresight that is the
+ * patrol speed itself, with a spread towards lower frequencies from the beam edges.
+ */
+export const groundClutterEchoes = (
+  radar: RadarParams,
+  pose: RadarPose,
+  noiseRms: number,
+  random: () => number = Math.random
+): DopplerEcho[] => {
+  if (pose.speedKmh <= 0) return [];
+  const noiseW = calculateNoisePowerW(radar);
+  const echoes: DopplerEcho[] = [];
+  GROUND_PATCH_RANGES_M.forEach(groundRangeM => {
+    GROUND_PATCH_AZIMUTHS.forEach(beamwidths => {
+      const offAxisDeg = beamwidths * pose.beamwidthDeg;
+      const psiRad = ((pose.aimAngleDeg + offAxisDeg) * Math.PI) / 180;
+      const slantRangeM = Math.hypot(groundRangeM, pose.heightM);
+      const closingKmh = (pose.speedKmh * Math.cos(psiRad) * groundRangeM) / slantRangeM;
+      const snr = calculateReceivedPowerW(radar, GROUND_PATCH_RCS_M2, slantRangeM, calculateBeamGain(offAxisDeg, pose.beamwidthDeg)) / noiseW;
+      echoes.push({
+        isClutter: true,
+        dopplerHz: calculateDopplerShift(closingKmh, radar.frequencyGHz),
+        amplitude: snrToAmplitude(snr, noiseRms),
+        phase: random() * 2 * Math.PI,
+      });
+    });
+  });
+  return echoes;
+};
+
+/**
+ * Every echo in one frame: the vehicles, the ground return of a moving platform and
+ * the enabled clutter and interference sources.
+ */
+export const collectEchoes = (
+  cars: Car[],
+  radar: RadarParams,
+  pose: RadarPose,
+  options: BasebandOptions
+): DopplerEcho[] => [
+  ...carsToEchoes(cars, radar, options.noiseRms, pose, options.random),
+  ...groundClutterEchoes(radar, pose, options.noiseRms, options.random),
+  ...(options.disturbances ? disturbanceEchoes(options.disturbances, radar, options.random) : []),
+];
+
+/**
+ * Attributes each detection to the echo whose (aliased) frequency lands nearest to it,
+ * within 1.5 bins. Vehicles and ground come first; clutter and interference only claim
+ * detections with no vehicle nearby. Used only for scoring against ground truth, never for measuring.
+ */
+export const attributeDetections = (
+  detections: Detection[],
+  echoes: DopplerEcho[],
+  radar: RadarParams
+): Detection[] => {
+  const freqRes = radar.basebandSampleRateHz / radar.fftSize;
+  const nearest = (detection: Detection, candidates: DopplerEcho[]) => {
+    let best: DopplerEcho | undefined;
+    let bestDistance = 1.5 * freqRes;
+    candidates.forEach(echo => {
+      const apparentHz = radar.receiverType === 'iq'
+        ? wrapFrequency(echo.dopplerHz, radar.basebandSampleRateHz)
+        : foldFrequency(echo.dopplerHz, radar.basebandSampleRateHz);
+      const distance = Math.abs(apparentHz - detection.freq);
+      if (distance <= bestDistance) {
+        best = echo;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  };
+  const targets = echoes.filter(echo => !echo.disturbance);
+  const disturbances = echoes.filter(echo => echo.disturbance);
+  return detections.map(detection => {
+    const best = nearest(detection, targets) ?? nearest(detection, disturbances);
+    return { ...detection, carId: best?.carId, isClutter: best?.isClutter, disturbance: best?.disturbance };
+  });
+};
+
+/**
+ * Detections that are neither a vehicle nor the ground return: noise, clutter and interference.
+ */
+export const countFalseDetections = (detections: Detection[]): number =>
+  detections.filter(d => d.carId === undefined && !d.isClutter).length;
+
+/**
+ * FFT and CFAR of one frame of baseband samples, simulated or recorded, then the
+ * sub-bin frequency estimator on every detection.
+ */
+export const measureSignal = (
+  signal: { i: Float64Array; q: Float64Array },
+  radar: RadarParams,
+  cfar: CfarConfig,
+  estimator: EstimatorConfig = DEFAULT_ESTIMATOR_CONFIG
+): { spectrum: SpectrumBin[]; detections: Detection[] } => {
+  const { spectrum, detections } = runCfar(computeSpectrum(signal, radar), cfar);
+  return { spectrum, detections: estimateFrequencies(signal, radar, detections, estimator) };
+};
+
+/**
+ * Measures a frame made of the given echoes: synthesize it (directly at baseband, or at IF
+ * through the ADC and decimators when options.ifChain is enabled), run the clutter filters,
+ * FFT it and run CFAR. Every filter stage is measured too, so its effect can be compared.
+ * Everything that reports a "measured" speed goes through here.
+ */
+export const measureEchoes = (
+  echoes: DopplerEcho[],
+  radar: RadarParams,
+  cfar: CfarConfig,
+  options: BasebandOptions = DEFAULT_BASEBAND_OPTIONS,
+  filter: ClutterFilterConfig = DEFAULT_CLUTTER_FILTER_CONFIG,
+  estimator: EstimatorConfig = DEFAULT_ESTIMATOR_CONFIG
+): MeasurementFrame => {
+  const preRoll = calculateFilterSettlingSamples(filter, radar.basebandSampleRateHz);
+  const ifChain = options.ifChain?.enabled ? runIfChain(echoes, radar, options.ifChain, options, preRoll) : undefined;
+  const signal = ifChain?.signal ?? synthesizeBaseband(echoes, radar, options, preRoll);
+  const stages = applyClutterFilters(signal, preRoll, filter, radar.basebandSampleRateHz).map(({ stage, signal }) => {
+    const { spectrum, detections } = measureSignal(signal, radar, cfar, estimator);
+    return { stage, spectrum, detections: attributeDetections(detections, echoes, radar) };
+  });
+  const { spectrum, detections } = stages[stages.length - 1];
+  return {
+    echoes,
+    spectrum,
+    detections,
+    stages: stages.map(({ stage, spectrum, detections }) => ({
+      stage,
+      amps: spectrum.map(bin => bin.amp),
+      detections: detections.length,
+      falseDetections: countFalseDetections(detections),
+    })),
+    ifChain: ifChain?.report,
+  };
+};
+
+/**
+ * One complete CW measurement of the traffic as the radar at `pose` sees it.
+ */
+export const measureFrame = (
+  cars: Car[],
+  radar: RadarParams,
+  cfar: CfarConfig,
+  options: BasebandOptions = DEFAULT_BASEBAND_OPTIONS,
+  pose: RadarPose = getStationaryPose(radar),
+  filter: ClutterFilterConfig = DEFAULT_CLUTTER_FILTER_CONFIG,
+  estimator: EstimatorConfig = DEFAULT_ESTIMATOR_CONFIG
+): MeasurementFrame =>
+  measureEchoes(collectEchoes(cars, radar, pose, options), radar, cfar, options, filter, estimator);
+
+export const DIRECTION_FILTER_LABELS: Record<DirectionFilter, string> = {
+  both: 'Both',
+  approaching: 'Approaching',
+  receding: 'Receding',
+};
+
+/**
+ * Direction-sensitive measurement. Only an I/Q receiver knows the sign of the
+ * Doppler shift; a single-mixer radar cannot filter and reports everything.
+ */
+export const filterDetectionsByDirection = (
+  detections: Detection[],
+  filter: DirectionFilter,
+  radar: RadarParams
+): Detection[] => {
+  if (filter === 'both' || radar.receiverType !== 'iq') return detections;
+  return detections.filter(d => (filter === 'approaching' ? d.freq > 0 : d.freq < 0));
+};
+
+export const TARGET_SELECTION_LABELS: Record<TargetSelectionMode, string> = {
+  strongest: 'Strongest',
+  fastest: 'Fastest',
+};
+
+/**
+ * Traffic-radar readout. "Strongest" follows the largest return (usually the nearest or
+ * biggest vehicle); "fastest" reports the highest speed among all detections, which can
+ * be a smaller car hidden behind a truck.
+ */
+export const selectTarget = (detections: Detection[], mode: TargetSelectionMode): TargetSelection | null => {
+  if (detections.length === 0) return null;
+  const strongest = detections.reduce((prev, current) => (prev.amp > current.amp) ? prev : current);
+  const fastest = detections.reduce((prev, current) => (Math.abs(prev.speed) > Math.abs(current.speed)) ? prev : current);
+  return { detection: mode === 'fastest' ? fastest : strongest, mode, strongest };
+};
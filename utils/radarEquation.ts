@@ -0,0 +1,93 @@
+import { Car, LinkBudget, RadarParams, RadarPose } from '../types';
+import { calculateWavelengthMm } from './physics';
+import { calculateCarLineOfSight, getStationaryPose } from './geometry';
+import { calculateEnbwBins } from './dsp';
+
+export const BOLTZMANN = 1.380649e-23; // J/K
+export const T0_KELVIN = 290; // Standard noise temperature
+
+export const dbToLinear = (db: number): number => Math.pow(10, db / 10);
+export const linearToDb = (linear: number): number => 10 * Math.log10(linear + 1e-300);
+const wattsToDbm = (watts: number) => linearToDb(watts) + 30;
+
+/**
+ * Complementary error function (Abramowitz & Stegun 7.1.26, |ε| < 1.5e-7).
+ */
+export const erfc = (x: number): number => {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const result = poly * Math.exp(-z * z);
+  return x >= 0 ? result : 2 - result;
+};
+
+/**
+ * Radar Range Equation (monostatic, shared antenna)
+ * P_r = P_t · G² · λ² · σ · g(φ)² / ((4π)³ · R⁴)
+ * g(φ) is the two-way voltage beam pattern, so it enters squared.
+ */
+export const calculateReceivedPowerW = (
+  radar: RadarParams,
+  rcsM2: number,
+  rangeM: number,
+  beamGain: number = 1
+): number => {
+  const ptW = dbToLinear(radar.txPowerDbm) / 1000;
+  const gain = dbToLinear(radar.antennaGainDbi);
+  const wavelengthM = calculateWavelengthMm(radar.frequencyGHz) / 1000;
+  return (ptW * gain * gain * wavelengthM * wavelengthM * rcsM2 * beamGain * beamGain) /
+    (Math.pow(4 * Math.PI, 3) * Math.pow(rangeM, 4));
+};
+
+/**
+ * Receiver Noise Power
+ * N = k · T0 · B · F
+ */
+export const calculateNoisePowerW = (radar: RadarParams): number => {
+  return BOLTZMANN * T0_KELVIN * radar.noiseBandwidthHz * dbToLinear(radar.noiseFigureDb);
+};
+
+/**
+ * Coherent integration gain of one FFT frame:
+ * G = N / ENBW for an I/Q receiver, N / (2 · ENBW) for a real one
+ * (a real tone's power is split between +f and -f).
+ */
+export const calculateIntegrationGain = (radar: RadarParams): number => {
+  const gain = radar.fftSize / calculateEnbwBins(radar.windowType, radar.fftSize);
+  return radar.receiverType === 'iq' ? gain : gain / 2;
+};
+
+/**
+ * Probability of detection, non-fluctuating target, square-law detector (North's approximation):
+ * Pd ≈ ½ · erfc(√(-ln Pfa) - √(SNR + ½))
+ */
+export const calculateProbabilityOfDetection = (snrLinear: number, pfa: number): number => {
+  return 0.5 * erfc(Math.sqrt(-Math.log(pfa)) - Math.sqrt(snrLinear + 0.5));
+};
+
+/**
+ * Full link budget for one car at its current position.
+ */
+export const calculateLinkBudget = (
+  car: Car,
+  radar: RadarParams,
+  pfa: number,
+  pose: RadarPose = getStationaryPose(radar)
+): LinkBudget => {
+  const los = calculateCarLineOfSight(car, radar, pose);
+  const received = calculateReceivedPowerW(radar, car.rcsM2, los.rangeM, los.beamGain);
+  const noise = calculateNoisePowerW(radar);
+  const snr = received / noise;
+  const integratedSnr = snr * calculateIntegrationGain(radar);
+
+  return {
+    carId: car.id,
+    rangeM: los.rangeM,
+    rcsM2: car.rcsM2,
+    receivedPowerDbm: wattsToDbm(received),
+    noisePowerDbm: wattsToDbm(noise),
+    snrDb: linearToDb(snr),
+    integratedSnrDb: linearToDb(integratedSnr),
+    pd: calculateProbabilityOfDetection(integratedSnr, pfa),
+  };
+};
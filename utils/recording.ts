@@ -0,0 +1,184 @@
+import { CfarConfig, Car, ClutterFilterConfig, Detection, EstimatorConfig, RadarParams, RadarPose, ReceiverType, SpectrumBin, WavSampleFormat } from '../types';
+import { BasebandOptions, DEFAULT_BASEBAND_OPTIONS, synthesizeBaseband } from './dsp';
+import { carsToEchoes, groundClutterEchoes, measureSignal } from './pipeline';
+import { buildClutterFilterChain, disturbanceEchoes } from './clutter';
+import { DEFAULT_ESTIMATOR_CONFIG } from './estimation';
+import { METRES_PER_PIXEL, getStationaryPose } from './geometry';
+import { WavData, encodeWav } from './wav';
+
+export const DEFAULT_RECORDING_DURATION_S = 5;
+export const MAX_RECORDING_DURATION_S = 60;
+// Longer files are cut here before analysis
+export const MAX_ANALYSIS_DURATION_S = 120;
+// Work done per timer callback before handing the thread back to the UI
+const SLICE_BUDGET_MS = 15;
+
+export interface BasebandRecording {
+  sampleRateHz: number;
+  receiverType: ReceiverType; // 'iq' when Q carries data
+  i: Float32Array;
+  q: Float32Array; // All zeros for a single-mixer recording
+}
+
+/**
+ * Continuous mixer output of the given traffic for durationS seconds at Fs = basebandSampleRateHz,
+ * rendered in blocks of N = fftSize samples with the same echo, clutter, DC and noise model as
+ * one measurement frame. Between blocks the cars drive on at their current speed (held constant),
+ * so range and cosine angle evolve; the radar keeps its pose.
+ * Echo phases carry over from block to block, φ ← φ + 2π · f_d · N / Fs, so tones run without clicks.
+ */
+export const renderBasebandRecording = (
+  cars: Car[],
+  radar: RadarParams,
+  durationS: number,
+  pose: RadarPose = getStationaryPose(radar),
+  options: BasebandOptions = DEFAULT_BASEBAND_OPTIONS
+): BasebandRecording => {
+  const totalSamples = Math.max(0, Math.round(durationS * radar.basebandSampleRateHz));
+  const i = new Float32Array(totalSamples);
+  const q = new Float32Array(totalSamples);
+  const blockS = radar.fftSize / radar.basebandSampleRateHz;
+  const phases = new Map<string, number>();
+  let blockCars = cars.map(car => ({ ...car, accelKmhPerS: 0 }));
+
+  for (let start = 0; start < totalSamples; start += radar.fftSize) {
+    const keyed = [
+      ...carsToEchoes(blockCars, radar, options.noiseRms, pose, options.random).map(echo => ({ key: `car-${echo.carId}`, echo })),
+      ...groundClutterEchoes(radar, pose, options.noiseRms, options.random).map((echo, index) => ({ key: `ground-${index}`, echo })),
+      ...(options.disturbances ? disturbanceEchoes(options.disturbances, radar, options.random) : [])
+        .map((echo, index) => ({ key: `${echo.disturbance}-${index}`, echo })),
+    ];
+    const echoes = keyed.map(({ key, echo }) => ({ ...echo, phase: phases.get(key) ?? echo.phase }));
+    const signal = synthesizeBaseband(echoes, radar, { ...options, startTimeS: 0 });
+    const count = Math.min(radar.fftSize, totalSamples - start);
+    for (let s = 0; s < count; s++) {
+      i[start + s] = signal.i[s];
+      q[start + s] = signal.q[s];
+    }
+
+    keyed.forEach(({ key }, index) => {
+      const echo = echoes[index];
+      phases.set(key, (echo.phase + 2 * Math.PI * echo.dopplerHz * blockS) % (2 * Math.PI));
+    });
+    blockCars = blockCars.map(car => ({
+      ...car,
+      x: car.x + (car.direction * (car.speedKmh / 3.6) * blockS) / METRES_PER_PIXEL,
+    }));
+  }
+  return { sampleRateHz: radar.basebandSampleRateHz, receiverType: radar.receiverType, i, q };
+};
+
+/**
+ * WAV file of a recording: I alone (mono) for a single-mixer receiver,
+ * I on the left and Q on the right for an I/Q receiver.
+ */
+export const recordingToWav = (recording: BasebandRecording, format: WavSampleFormat): ArrayBuffer => {
+  const channels = recording.receiverType === 'iq' ? [recording.i, recording.q] : [recording.i];
+  return encodeWav(channels, recording.sampleRateHz, format);
+};
+
+/**
+ * Baseband from a sound-card capture: a mono file is the I channel of a single-mixer
+ * module, a stereo file is I (left) and Q (right). Some modules are wired the other way
+ * round, which swapIq undoes (it flips approaching and receding). Extra channels are ignored.
+ */
+export const wavToRecording = (wav: WavData, swapIq = false): BasebandRecording => {
+  const numSamples = Math.min(wav.channels[0].length, Math.round(MAX_ANALYSIS_DURATION_S * wav.sampleRateHz));
+  const isComplex = wav.channels.length >= 2;
+  const left = wav.channels[0].subarray(0, numSamples);
+  const right = isComplex ? wav.channels[1].subarray(0, numSamples) : new Float32Array(numSamples);
+  return {
+    sampleRateHz: wav.sampleRateHz,
+    receiverType: isComplex ? 'iq' : 'real',
+    i: swapIq && isComplex ? right : left,
+    q: swapIq && isComplex ? left : right,
+  };
+};
+
+/**
+ * Radar settings for measuring a recording: the file fixes Fs and the receiver type,
+ * the carrier comes from the module's data sheet; FFT size and window stay as set.
+ */
+export const getRecordingRadar = (recording: BasebandRecording, radar: RadarParams, carrierGHz: number): RadarParams => ({
+  ...radar,
+  frequencyGHz: carrierGHz,
+  basebandSampleRateHz: recording.sampleRateHz,
+  receiverType: recording.receiverType,
+});
+
+export const countRecordingFrames = (recording: BasebandRecording, radar: RadarParams): number =>
+  Math.floor(recording.i.length / radar.fftSize);
+
+/**
+ * The whole recording through the clutter filter chain, as the receiver would have
+ * seen it live (the recording itself is returned when no filter is enabled).
+ */
+export const filterRecording = (recording: BasebandRecording, filter: ClutterFilterConfig): BasebandRecording => {
+  const chain = buildClutterFilterChain(filter, recording.sampleRateHz);
+  if (chain.length === 0) return recording;
+  const run = (x: Float32Array) => Float32Array.from(chain.reduce((y, { filter }) => filter(y), Float64Array.from(x)));
+  return { ...recording, i: run(recording.i), q: recording.receiverType === 'iq' ? run(recording.q) : recording.q };
+};
+
+/**
+ * Spectrum and detections of frame k: samples k·N .. (k + 1)·N − 1, N = fftSize,
+ * through the same FFT and CFAR as a simulated frame.
+ */
+export const measureRecordingFrame = (
+  recording: BasebandRecording,
+  radar: RadarParams,
+  cfar: CfarConfig,
+  frameIndex: number,
+  estimator: EstimatorConfig = DEFAULT_ESTIMATOR_CONFIG
+): { spectrum: SpectrumBin[]; detections: Detection[] } => {
+  const start = frameIndex * radar.fftSize;
+  const signal = {
+    i: Float64Array.from(recording.i.subarray(start, start + radar.fftSize)),
+    q: Float64Array.from(recording.q.subarray(start, start + radar.fftSize)),
+  };
+  return measureSignal(signal, radar, cfar, estimator);
+};
+
+export interface RecordingFrame {
+  timeS: number; // Start of the frame
+  detections: Detection[];
+}
+
+export interface RecordingAnalysisProgress {
+  frames: RecordingFrame[]; // Analysed so far, in time order
+  totalFrames: number;
+  done: boolean;
+}
+
+/**
+ * Detections of every whole frame of the recording, back to back (a trailing partial
+ * frame is dropped). Spectra are not kept: measureRecordingFrame rebuilds the one on show.
+ * The frames are measured in time slices so the page stays responsive (a long file takes
+ * seconds); onUpdate gets the progress after each slice. Returns a cancel function.
+ */
+export const startRecordingAnalysis = (
+  recording: BasebandRecording,
+  radar: RadarParams,
+  cfar: CfarConfig,
+  estimator: EstimatorConfig,
+  onUpdate: (progress: RecordingAnalysisProgress) => void
+): (() => void) => {
+  const frameS = radar.fftSize / recording.sampleRateHz;
+  const totalFrames = countRecordingFrames(recording, radar);
+  const frames: RecordingFrame[] = [];
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+
+  const runSlice = () => {
+    const sliceStart = performance.now();
+    while (frames.length < totalFrames && performance.now() - sliceStart < SLICE_BUDGET_MS) {
+      const k = frames.length;
+      frames.push({ timeS: k * frameS, detections: measureRecordingFrame(recording, radar, cfar, k, estimator).detections });
+    }
+    const done = frames.length >= totalFrames;
+    onUpdate({ frames: [...frames], totalFrames, done });
+    if (!done) timerId = setTimeout(runSlice, 0);
+  };
+
+  timerId = setTimeout(runSlice, 0);
+  return () => clearTimeout(timerId);
+};
@@ -0,0 +1,399 @@
+import { Car, PatrolConfig, RadarParams, Scenario, ScenarioEvent, TrafficConfig, TravelDirection } from '../types';
+import { WINDOW_LABELS } from './dsp';
+import { NUM_LANES } from './geometry';
+import { PATROL_TARGET_MODE_LABELS } from './movingMode';
+import { RADAR_MODE_LABELS } from './fmcw';
+import { VEHICLE_SPECS } from './vehicles';
+import { TRAFFIC_MODEL_LABELS } from './traffic';
+
+export const SCENARIO_VERSION = 1;
+
+export const DEFAULT_RADAR_PARAMS: RadarParams = {
+  frequencyGHz: 24.15,
+  intermediateFreqMHz: 30, // First mixer output, sampled by the IF ADC
+  adcSamplingRateMHz: 100, // IF ADC clock, decimated down to basebandSampleRateHz
+  basebandSampleRateHz: 44100,
+  fftSize: 512,
+  windowType: 'hann',
+  receiverType: 'real',
+  mountOffsetM: 3,
+  mountHeightM: 5,
+  aimAngleDeg: 10,
+  beamwidthDeg: 24,
+  txPowerDbm: 0,
+  antennaGainDbi: 15,
+  noiseFigureDb: 12,
+  noiseBandwidthHz: 22050,
+  radarMode: 'cw',
+  chirpBandwidthMHz: 100,
+  chirpDurationUs: 50,
+  chirpsPerFrame: 128,
+};
+
+export interface ScenarioValidation {
+  scenario: Scenario | null; // Null when there are errors
+  errors: string[];
+  warnings: string[]; // e.g. radar fields missing from an older file, filled with defaults
+}
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPowerOfTwo = (n: number) => Number.isInteger(n) && n > 0 && (n & (n - 1)) === 0;
+
+// Allowed range per numeric radar field
+const RADAR_NUMBER_RANGES: Partial<Record<keyof RadarParams, [number, number]>> = {
+  frequencyGHz: [1, 100],
+  intermediateFreqMHz: [0, 1000],
+  adcSamplingRateMHz: [1, 10000],
+  basebandSampleRateHz: [1000, 1e6],
+  fftSize: [16, 65536],
+  mountOffsetM: [0, 50],
+  mountHeightM: [0, 50],
+  aimAngleDeg: [0, 89],
+  beamwidthDeg: [1, 90],
+  txPowerDbm: [-30, 60],
+  antennaGainDbi: [0, 50],
+  noiseFigureDb: [0, 40],
+  noiseBandwidthHz: [1, 1e7],
+  chirpBandwidthMHz: [1, 5000],
+  chirpDurationUs: [1, 10000],
+  chirpsPerFrame: [2, 1024],
+};
+
+// Allowed values per enumerated radar field
+const RADAR_ENUMS: Partial<Record<keyof RadarParams, readonly string[]>> = {
+  windowType: Object.keys(WINDOW_LABELS),
+  receiverType: ['real', 'iq'],
+  radarMode: Object.keys(RADAR_MODE_LABELS),
+};
+
+/**
+ * Checks a (possibly partial) set of radar fields. With `complete`, missing fields are
+ * taken from the defaults and reported as warnings; unknown fields are ignored.
+ */
+const validateRadar = (
+  value: unknown,
+  path: string,
+  errors: string[],
+  warnings: string[],
+  complete: boolean
+): Partial<RadarParams> => {
+  if (!isObject(value)) {
+    errors.push(`${path}: must be an object`);
+    return {};
+  }
+  const radar: Fields = {};
+  (Object.keys(DEFAULT_RADAR_PARAMS) as (keyof RadarParams)[]).forEach(key => {
+    const field = value[key];
+    if (field === undefined) {
+      if (complete) {
+        warnings.push(`${path}.${key}: missing, using default ${DEFAULT_RADAR_PARAMS[key]}`);
+        radar[key] = DEFAULT_RADAR_PARAMS[key];
+      }
+      return;
+    }
+    const allowed = RADAR_ENUMS[key];
+    if (allowed) {
+      if (typeof field !== 'string' || !allowed.includes(field)) {
+        errors.push(`${path}.${key}: must be one of ${allowed.join(', ')} (got ${JSON.stringify(field)})`);
+        return;
+      }
+    } else {
+      const [min, max] = RADAR_NUMBER_RANGES[key] ?? [-Infinity, Infinity];
+      if (typeof field !== 'number' || !Number.isFinite(field)) {
+        errors.push(`${path}.${key}: must be a number (got ${JSON.stringify(field)})`);
+        return;
+      }
+      if (field < min || field > max) {
+        errors.push(`${path}.${key}: ${field} is outside ${min}–${max}`);
+        return;
+      }
+      if ((key === 'fftSize' || key === 'chirpsPerFrame') && !isPowerOfTwo(field)) {
+        errors.push(`${path}.${key}: must be a power of two (got ${field})`);
+        return;
+      }
+    }
+    radar[key] = field;
+  });
+  return radar as Partial<RadarParams>;
+};
+
+const validateLane = (value: unknown, path: string, errors: string[]): number | null => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value >= NUM_LANES) {
+    errors.push(`${path}: must be an integer lane 0–${NUM_LANES - 1} (got ${JSON.stringify(value)})`);
+    return null;
+  }
+  return value;
+};
+
+const validateCar = (value: unknown, path: string, errors: string[]): Car | null => {
+  if (!isObject(value)) {
+    errors.push(`${path}: must be an object`);
+    return null;
+  }
+  const before = errors.length;
+  if (typeof value.id !== 'number' || !Number.isInteger(value.id) || value.id < 0) {
+    errors.push(`${path}.id: must be a non-negative integer`);
+  }
+  if (typeof value.x !== 'number' || !Number.isFinite(value.x)) errors.push(`${path}.x: must be a number (pixels)`);
+  validateLane(value.lane, `${path}.lane`, errors);
+  if (typeof value.color !== 'string') errors.push(`${path}.color: must be a CSS colour string`);
+  if (typeof value.speedKmh !== 'number' || value.speedKmh < 0 || value.speedKmh > 400) {
+    errors.push(`${path}.speedKmh: must be a number 0–400`);
+  }
+  if (value.direction !== 1 && value.direction !== -1) errors.push(`${path}.direction: must be 1 or -1`);
+  if (typeof value.vehicleClass !== 'string' || !(value.vehicleClass in VEHICLE_SPECS)) {
+    errors.push(`${path}.vehicleClass: must be one of ${Object.keys(VEHICLE_SPECS).join(', ')}`);
+  }
+  if (value.rcsM2 !== undefined && (typeof value.rcsM2 !== 'number' || value.rcsM2 <= 0)) {
+    errors.push(`${path}.rcsM2: must be a positive number`);
+  }
+  if (value.aggressiveness !== undefined && (typeof value.aggressiveness !== 'number' || value.aggressiveness < 0 || value.aggressiveness > 1)) {
+    errors.push(`${path}.aggressiveness: must be a number 0–1`);
+  }
+  if (errors.length > before) return null;
+  const car = value as unknown as Car;
+  // RCS may be omitted: it follows from the class
+  return { ...car, rcsM2: car.rcsM2 ?? VEHICLE_SPECS[car.vehicleClass].rcsM2 };
+};
+
+const validatePatrol = (value: unknown, path: string, errors: string[]): PatrolConfig | null => {
+  if (!isObject(value)) {
+    errors.push(`${path}: must be an object`);
+    return null;
+  }
+  const before = errors.length;
+  if (typeof value.enabled !== 'boolean') errors.push(`${path}.enabled: must be true or false`);
+  (['speedKmh', 'speedSwingKmh', 'accelerationKmhPerS', 'batchIntervalMs'] as const).forEach(key => {
+    if (typeof value[key] !== 'number' || (value[key] as number) < 0) errors.push(`${path}.${key}: must be a non-negative number`);
+  });
+  validateLane(value.lane, `${path}.lane`, errors);
+  if (typeof value.targetMode !== 'string' || !(value.targetMode in PATROL_TARGET_MODE_LABELS)) {
+    errors.push(`${path}.targetMode: must be one of ${Object.keys(PATROL_TARGET_MODE_LABELS).join(', ')}`);
+  }
+  return errors.length > before ? null : value as unknown as PatrolConfig;
+};
+
+const validateTraffic = (value: unknown, path: string, errors: string[]): TrafficConfig | null => {
+  if (!isObject(value)) {
+    errors.push(`${path}: must be an object`);
+    return null;
+  }
+  const before = errors.length;
+  if (typeof value.model !== 'string' || !(value.model in TRAFFIC_MODEL_LABELS)) {
+    errors.push(`${path}.model: must be one of ${Object.keys(TRAFFIC_MODEL_LABELS).join(', ')}`);
+  }
+  if (typeof value.flowVehPerHour !== 'number' || value.flowVehPerHour < 0 || value.flowVehPerHour > 3600) {
+    errors.push(`${path}.flowVehPerHour: must be a number 0–3600`);
+  }
+  if (typeof value.meanDesiredSpeedKmh !== 'number' || value.meanDesiredSpeedKmh <= 0 || value.meanDesiredSpeedKmh > 400) {
+    errors.push(`${path}.meanDesiredSpeedKmh: must be a number 1–400`);
+  }
+  return errors.length > before ? null : value as unknown as TrafficConfig;
+};
+
+const validateEvent = (value: unknown, path: string, errors: string[], warnings: string[]): ScenarioEvent | null => {
+  if (!isObject(value)) {
+    errors.push(`${path}: must be an object`);
+    return null;
+  }
+  const before = errors.length;
+  if (typeof value.atS !== 'number' || value.atS < 0) errors.push(`${path}.atS: must be a time in seconds ≥ 0`);
+  const needsCarId = () => {
+    if (typeof value.carId !== 'number') errors.push(`${path}.carId: must be the id of a car`);
+  };
+  // Nested cars and radar patches are replaced by their checked form (defaults filled, unknown keys dropped)
+  let normalized: Fields = {};
+  switch (value.type) {
+    case 'setSpeed':
+      needsCarId();
+      if (typeof value.speedKmh !== 'number' || value.speedKmh < 0) errors.push(`${path}.speedKmh: must be a number ≥ 0`);
+      if (value.accelKmhPerS !== undefined && (typeof value.accelKmhPerS !== 'number' || value.accelKmhPerS <= 0)) {
+        errors.push(`${path}.accelKmhPerS: must be a positive number`);
+      }
+      break;
+    case 'addCar':
+      normalized = { car: validateCar(value.car, `${path}.car`, errors) };
+      break;
+    case 'removeCar':
+      needsCarId();
+      break;
+    case 'changeLane':
+      needsCarId();
+      validateLane(value.lane, `${path}.lane`, errors);
+      break;
+    case 'setRadar':
+      normalized = { radar: validateRadar(value.radar, `${path}.radar`, errors, warnings, false) };
+      break;
+    default:
+      errors.push(`${path}.type: unknown event type ${JSON.stringify(value.type)} (expected setSpeed, addCar, removeCar, changeLane or setRadar)`);
+  }
+  return errors.length > before ? null : { ...value, ...normalized } as unknown as ScenarioEvent;
+};
+
+/**
+ * Validates parsed JSON against the scenario format, collecting every problem with
+ * its path (e.g. "cars[2].lane") rather than stopping at the first.
+ */
+export const validateScenario = (data: unknown): ScenarioValidation => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (!isObject(data)) {
+    return { scenario: null, errors: ['File must contain a JSON object'], warnings };
+  }
+
+  if (typeof data.version !== 'number') {
+    errors.push('version: missing (expected a scenario format version number)');
+  } else if (data.version > SCENARIO_VERSION) {
+    errors.push(`version: ${data.version} is newer than this app supports (${SCENARIO_VERSION})`);
+  }
+  if (typeof data.name !== 'string' || data.name.trim() === '') errors.push('name: must be a non-empty string');
+  if (data.description !== undefined && typeof data.description !== 'string') errors.push('description: must be a string');
+
+  const radar = validateRadar(data.radar, 'radar', errors, warnings, true);
+
+  let laneDirections: TravelDirection[] = [];
+  if (!Array.isArray(data.laneDirections) || data.laneDirections.length !== NUM_LANES ||
+      data.laneDirections.some(d => d !== 1 && d !== -1)) {
+    errors.push(`laneDirections: must be an array of ${NUM_LANES} values, each 1 or -1`);
+  } else {
+    laneDirections = data.laneDirections as TravelDirection[];
+  }
+
+  const cars: Car[] = [];
+  if (!Array.isArray(data.cars)) {
+    errors.push('cars: must be an array');
+  } else {
+    data.cars.forEach((value, index) => {
+      const car = validateCar(value, `cars[${index}]`, errors);
+      if (!car) return;
+      if (cars.some(c => c.id === car.id)) errors.push(`cars[${index}].id: duplicate id ${car.id}`);
+      if (laneDirections.length > 0 && car.direction !== laneDirections[car.lane]) {
+        warnings.push(`cars[${index}].direction: lane ${car.lane} runs the other way, car follows the lane`);
+        car.direction = laneDirections[car.lane];
+      }
+      cars.push(car);
+    });
+  }
+
+  const patrol = data.patrol === undefined ? undefined : validatePatrol(data.patrol, 'patrol', errors) ?? undefined;
+  const traffic = data.traffic === undefined ? undefined : validateTraffic(data.traffic, 'traffic', errors) ?? undefined;
+
+  const timeline: ScenarioEvent[] = [];
+  if (data.timeline !== undefined && !Array.isArray(data.timeline)) {
+    errors.push('timeline: must be an array of events');
+  } else {
+    (data.timeline as unknown[] | undefined ?? []).forEach((value, index) => {
+      const event = validateEvent(value, `timeline[${index}]`, errors, warnings);
+      if (event) timeline.push(event);
+    });
+  }
+
+  if (errors.length > 0) return { scenario: null, errors, warnings };
+  return {
+    scenario: {
+      version: SCENARIO_VERSION,
+      name: data.name as string,
+      description: data.description as string | undefined,
+      radar: radar as RadarParams,
+      laneDirections,
+      cars,
+      patrol,
+      traffic,
+      timeline: [...timeline].sort((a, b) => a.atS - b.atS),
+    },
+    errors,
+    warnings,
+  };
+};
+
+/**
+ * Parses and validates the text of a scenario file.
+ */
+export const parseScenario = (text: string): ScenarioValidation => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { scenario: null, errors: [`Not valid JSON: ${(e as Error).message}`], warnings: [] };
+  }
+  return validateScenario(data);
+};
+
+export const serializeScenario = (scenario: Scenario): string => JSON.stringify(scenario, null, 2);
+
+// Progress through a timeline: events already fired and speed ramps still running
+export interface TimelineState {
+  firedCount: number;
+  ramps: { carId: number; fromKmh: number; toKmh: number; startS: number; accelKmhPerS: number }[];
+}
+
+export const createTimelineState = (): TimelineState => ({ firedCount: 0, ramps: [] });
+
+/**
+ * Fires every event due by elapsedS (the timeline is sorted by atS) and advances the
+ * speed ramps: v(t) = v_0 ± a · (t - t_0), stopping at the target speed.
+ * Returns the new car list and any radar changes; the state is updated in place.
+ */
+export const advanceTimeline = (
+  timeline: ScenarioEvent[],
+  state: TimelineState,
+  elapsedS: number,
+  cars: Car[],
+  laneDirections: TravelDirection[]
+): { cars: Car[]; radarPatch: Partial<RadarParams> | null } => {
+  let next = cars;
+  let radarPatch: Partial<RadarParams> | null = null;
+
+  while (state.firedCount < timeline.length && timeline[state.firedCount].atS <= elapsedS) {
+    const event = timeline[state.firedCount++];
+    switch (event.type) {
+      case 'setSpeed': {
+        const car = next.find(c => c.id === event.carId);
+        if (!car) break;
+        state.ramps = state.ramps.filter(r => r.carId !== event.carId);
+        if (event.accelKmhPerS) {
+          state.ramps.push({ carId: car.id, fromKmh: car.speedKmh, toKmh: event.speedKmh, startS: event.atS, accelKmhPerS: event.accelKmhPerS });
+        } else {
+          next = next.map(c => c.id === event.carId ? { ...c, speedKmh: event.speedKmh } : c);
+        }
+        break;
+      }
+      case 'addCar':
+        if (!next.some(c => c.id === event.car.id)) {
+          next = [...next, { ...event.car, direction: laneDirections[event.car.lane] }];
+        }
+        break;
+      case 'removeCar':
+        next = next.filter(c => c.id !== event.carId);
+        break;
+      case 'changeLane':
+        next = next.map(c => c.id === event.carId ? { ...c, lane: event.lane, direction: laneDirections[event.lane] } : c);
+        break;
+      case 'setRadar':
+        radarPatch = { ...radarPatch, ...event.radar };
+        break;
+    }
+  }
+
+  if (state.ramps.length > 0) {
+    next = next.map(car => {
+      const ramp = state.ramps.find(r => r.carId === car.id);
+      if (!ramp) return car;
+      const change = ramp.accelKmhPerS * (elapsedS - ramp.startS);
+      const speedKmh = ramp.toKmh > ramp.fromKmh
+        ? Math.min(ramp.fromKmh + change, ramp.toKmh)
+        : Math.max(ramp.fromKmh - change, ramp.toKmh);
+      return { ...car, speedKmh: Math.round(speedKmh * 10) / 10 };
+    });
+    state.ramps = state.ramps.filter(r => {
+      const car = next.find(c => c.id === r.carId);
+      return car !== undefined && car.speedKmh !== r.toKmh;
+    });
+  }
+
+  return { cars: next, radarPatch };
+};
@@ -0,0 +1,71 @@
+import { Scenario } from '../types';
+import { DEFAULT_RADAR_PARAMS, SCENARIO_VERSION } from './scenario';
+import { DEFAULT_PATROL_CONFIG } from './movingMode';
+import { VEHICLE_SPECS } from './vehicles';
+import { DEFAULT_TRAFFIC_CONFIG } from './traffic';
+
+// The measurement demos hold every speed fixed, so the effect shown is the only thing changing
+const CONSTANT_TRAFFIC = { ...DEFAULT_TRAFFIC_CONFIG, model: 'constant' as const };
+
+// Built-in examples, each isolating one effect
+export const SCENARIO_GALLERY: Scenario[] = [
+  {
+    version: SCENARIO_VERSION,
+    name: 'Aliasing',
+    description: 'Fs = 10 kHz caps the real receiver at ~112 km/h. The 140 km/h car folds back and reads ~85 km/h; at t = 8 s Fs is raised to 20 kHz and the reading recovers.',
+    radar: { ...DEFAULT_RADAR_PARAMS, basebandSampleRateHz: 10000, fftSize: 256 },
+    laneDirections: [1, 1, -1],
+    cars: [
+      { id: 0, x: 40, lane: 1, color: '#ef4444', speedKmh: 140, direction: 1, vehicleClass: 'car', rcsM2: VEHICLE_SPECS.car.rcsM2 },
+    ],
+    traffic: CONSTANT_TRAFFIC,
+    timeline: [
+      { atS: 8, type: 'setRadar', radar: { basebandSampleRateHz: 20000 } },
+    ],
+  },
+  {
+    version: SCENARIO_VERSION,
+    name: 'Close Speeds',
+    description: 'Two cars at 97 and 103 km/h side by side. With N = 128 one bin is ~8 km/h wide and they merge into one peak; at t = 6 s N = 2048 resolves them.',
+    radar: { ...DEFAULT_RADAR_PARAMS, fftSize: 128, windowType: 'rectangular' },
+    laneDirections: [1, 1, -1],
+    cars: [
+      { id: 0, x: 60, lane: 0, color: '#3b82f6', speedKmh: 97, direction: 1, vehicleClass: 'car', rcsM2: VEHICLE_SPECS.car.rcsM2 },
+      { id: 1, x: 55, lane: 1, color: '#22c55e', speedKmh: 103, direction: 1, vehicleClass: 'car', rcsM2: VEHICLE_SPECS.car.rcsM2 },
+    ],
+    traffic: CONSTANT_TRAFFIC,
+    timeline: [
+      { atS: 6, type: 'setRadar', radar: { fftSize: 2048, windowType: 'hann' } },
+    ],
+  },
+  {
+    version: SCENARIO_VERSION,
+    name: 'Truck Shadowing',
+    description: 'Moving mode at 90 km/h behind a 70 km/h truck. The truck out-reflects the road, so the patrol speed reads 20 km/h and the oncoming 110 km/h car is measured at ~180 km/h.',
+    radar: { ...DEFAULT_RADAR_PARAMS, receiverType: 'iq' },
+    laneDirections: [1, 1, -1],
+    cars: [
+      { id: 0, x: 300, lane: 1, color: '#eab308', speedKmh: 70, direction: 1, vehicleClass: 'truck', rcsM2: VEHICLE_SPECS.truck.rcsM2 },
+      { id: 1, x: 760, lane: 2, color: '#ef4444', speedKmh: 110, direction: -1, vehicleClass: 'car', rcsM2: VEHICLE_SPECS.car.rcsM2 },
+    ],
+    patrol: { ...DEFAULT_PATROL_CONFIG, enabled: true, speedKmh: 90, lane: 1, targetMode: 'opposite' },
+    traffic: CONSTANT_TRAFFIC,
+    timeline: [],
+  },
+  {
+    version: SCENARIO_VERSION,
+    name: 'Late Speeder',
+    description: 'A van cruises at 90 km/h and accelerates to 125 km/h at t = 5 s; a motorcycle joins lane 3 at t = 10 s. Under IDM + MOBIL the van pulls out into the free lane and passes the 80 km/h car ahead.',
+    radar: { ...DEFAULT_RADAR_PARAMS },
+    laneDirections: [1, 1, -1],
+    cars: [
+      { id: 0, x: 0, lane: 0, color: '#a855f7', speedKmh: 90, direction: 1, vehicleClass: 'van', rcsM2: VEHICLE_SPECS.van.rcsM2 },
+      { id: 1, x: 500, lane: 0, color: '#06b6d4', speedKmh: 80, direction: 1, vehicleClass: 'car', rcsM2: VEHICLE_SPECS.car.rcsM2 },
+    ],
+    traffic: DEFAULT_TRAFFIC_CONFIG,
+    timeline: [
+      { atS: 5, type: 'setSpeed', carId: 0, speedKmh: 125, accelKmhPerS: 8 },
+      { atS: 10, type: 'addCar', car: { id: 2, x: 900, lane: 2, color: '#ec4899', speedKmh: 95, direction: -1, vehicleClass: 'motorcycle', rcsM2: VEHICLE_SPECS.motorcycle.rcsM2 } },
+    ],
+  },
+];
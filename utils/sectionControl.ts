@@ -0,0 +1,381 @@
+import { Car, EnforcementConfig, RadarParams, ReidentificationMode, SectionControlConfig, SectionStation, SectionStationKind, VehicleClass } from '../types';
+import { DEFAULT_BASEBAND_OPTIONS } from './dsp';
+import { getEnforcementThresholdKmh, getSpeedLimitKmh } from './enforcement';
+import { METRES_PER_PIXEL, NUM_LANES, RADAR_ROAD_POSITION_M, getStationaryPose, laneCenterM } from './geometry';
+import { MeasurementSettings, filterDetectionsByDirection, measureFrame, selectTarget } from './pipeline';
+import { DEFAULT_RADAR_PARAMS } from './scenario';
+import { createRng } from './simulation';
+import { createSpawnedCar, getTypicalDesiredKmh } from './traffic';
+import { VEHICLE_CLASSES } from './vehicles';
+
+export const SECTION_STATION_LABELS: Record<SectionStationKind, string> = {
+  radar: 'Radar + camera',
+  camera: 'Camera',
+};
+
+export const REIDENTIFICATION_LABELS: Record<ReidentificationMode, string> = {
+  plate: 'Number plate (id)',
+  signature: 'Class + timing',
+};
+
+export const MAX_SECTION_STATIONS = 6;
+export const MAX_SECTION_VEHICLES = 100;
+// Travel times are integrated metre by metre for every vehicle on the click, so the road is bounded
+export const MAX_SECTION_ROAD_M = 20000;
+
+export const DEFAULT_SECTION_CONTROL_CONFIG: SectionControlConfig = {
+  roadLengthM: 3000,
+  stations: [
+    { positionM: 0, kind: 'camera', radar: DEFAULT_RADAR_PARAMS },
+    { positionM: 1500, kind: 'radar', radar: DEFAULT_RADAR_PARAMS },
+    { positionM: 3000, kind: 'camera', radar: DEFAULT_RADAR_PARAMS },
+  ],
+  vehicleCount: 30,
+  meanSpeedKmh: 110,
+  slowDownPercent: 30,
+  reidentification: 'plate',
+  plateReadPercent: 95,
+  classErrorPercent: 5,
+  timestampJitterMs: 50,
+  seed: 1,
+};
+
+// Drivers who slow for a radar: brake to this fraction of their limit, held from before the
+// site (where the warning sign is) until just past it, then accelerate back to cruise
+const SLOW_DOWN_FRACTION = 0.95;
+const HOLD_BEFORE_M = 200;
+const HOLD_AFTER_M = 100;
+const BRAKING_MPS2 = 2.5;
+const ACCELERATION_MPS2 = 1;
+// Mean gap between vehicles entering the road
+const MEAN_HEADWAY_S = 3;
+// Step of the travel-time integration
+const PROFILE_STEP_M = 1;
+// Along-road distance at which a station's beam crosses a lane, clamped for near-zero aim angles
+const MIN_BEAM_CROSSING_M = 10;
+const MAX_BEAM_CROSSING_M = 150;
+// Class-and-timing matching only pairs passages implying a believable average speed
+const PLAUSIBLE_SPEED_KMH = { min: 20, max: 300 };
+// ...and leaves a passage unpaired rather than accept a travel time off by more than this fraction
+const SKIP_FRACTION = 0.15;
+
+export interface SectionVehicle {
+  car: Car; // Class, lane and cruising speed (speedKmh)
+  entryTimeS: number; // At the start of the road
+  slowsForRadar: boolean;
+  holdKmh: number; // Speed held at each radar; the cruising speed when the driver does not slow
+}
+
+export interface StationPassage {
+  vehicleId: number;
+  trueTimeS: number;
+  observedTimeS: number; // With the station's clock error
+  plateRead: boolean;
+  observedClass: VehicleClass;
+  trueSpotKmh: number | null; // Radar stations: true speed where the beam crosses the lane
+  measuredSpotKmh: number | null; // Radar stations: the reading, when the radar selected this vehicle
+}
+
+// One pairing of an exit passage with an entry passage over a section
+export interface SectionReading {
+  entryVehicleId: number | null; // Whose entry passage was paired; null when re-identification failed
+  trueAverageKmh: number; // Of the vehicle seen at the exit
+  measuredAverageKmh: number | null; // Section length / observed travel time
+}
+
+export interface SectionVehicleResult {
+  vehicle: SectionVehicle;
+  speedLimitKmh: number;
+  thresholdKmh: number;
+  passages: StationPassage[]; // One per station, in road order
+  sections: SectionReading[]; // One per pair of consecutive stations
+  overAtSpot: boolean; // True speed over the threshold at some radar
+  overOnSection: boolean; // True average over the threshold on some section
+  caughtBySpot: boolean;
+  caughtBySection: boolean;
+}
+
+export interface SectionControlSummary {
+  vehicles: number;
+  sectionSpeeders: number; // True average over the threshold on some section
+  caughtBySection: number;
+  caughtBySpot: number;
+  slowedCaughtBySectionOnly: number; // Slowed for the radar: missed at the spot, caught on average
+  falseSectionTickets: number; // Caught on average without speeding on average
+  wrongPairings: number; // Section readings built from another vehicle's entry
+  unpaired: number; // Exit passages re-identification could not pair
+}
+
+export interface SectionControlResult {
+  stations: SectionStation[]; // On the road, in road order
+  sections: { fromM: number; toM: number }[];
+  vehicles: SectionVehicleResult[];
+  summary: SectionControlSummary;
+}
+
+/**
+ * Along-road distance ahead of a station at which its boresight crosses a lane centre:
+ * d = (y_lane + mount offset) / tan(aim)
+ */
+const beamCrossingM = (radar: RadarParams, lane: number): number => {
+  const d = (laneCenterM(lane) + radar.mountOffsetM) / Math.tan((radar.aimAngleDeg * Math.PI) / 180);
+  return Math.min(Math.max(isFinite(d) && d > 0 ? d : MAX_BEAM_CROSSING_M, MIN_BEAM_CROSSING_M), MAX_BEAM_CROSSING_M);
+};
+
+/**
+ * True speed at xM. A driver who slows for radars follows, for each radar at s, the envelope
+ * v² = v_hold² + 2 · a · d, with d the distance to the hold zone [s − 200 m, s + 100 m]
+ * (braking before it, accelerating after it), capped at the cruising speed.
+ */
+export const calculateSectionSpeedKmh = (vehicle: SectionVehicle, xM: number, radarPositionsM: number[]): number => {
+  if (!vehicle.slowsForRadar) return vehicle.car.speedKmh;
+  const cruiseMps = vehicle.car.speedKmh / 3.6;
+  const holdMps = vehicle.holdKmh / 3.6;
+  const speedMps = radarPositionsM.reduce((v, s) => {
+    const before = s - HOLD_BEFORE_M - xM;
+    const after = xM - s - HOLD_AFTER_M;
+    const envelope = before > 0 ? Math.sqrt(holdMps ** 2 + 2 * BRAKING_MPS2 * before)
+      : after > 0 ? Math.sqrt(holdMps ** 2 + 2 * ACCELERATION_MPS2 * after) : holdMps;
+    return Math.min(v, envelope);
+  }, cruiseMps);
+  return speedMps * 3.6;
+};
+
+/**
+ * Time from the road start to each metre, t(x) = Σ Δx / v(x) at the midpoint of each step.
+ */
+const calculateTravelTimes = (vehicle: SectionVehicle, roadLengthM: number, radarPositionsM: number[]): number[] => {
+  const times = [0];
+  for (let x = 0; x < roadLengthM; x += PROFILE_STEP_M) {
+    const speedMps = Math.max(calculateSectionSpeedKmh(vehicle, x + PROFILE_STEP_M / 2, radarPositionsM), 1) / 3.6;
+    times.push(times[times.length - 1] + PROFILE_STEP_M / speedMps);
+  }
+  return times;
+};
+
+const interpolate = (times: number[], xM: number): number => {
+  const i = Math.min(Math.floor(xM / PROFILE_STEP_M), times.length - 2);
+  return times[i] + (times[i + 1] - times[i]) * (xM / PROFILE_STEP_M - i);
+};
+
+const getRoadLengthM = (config: SectionControlConfig): number => Math.min(config.roadLengthM, MAX_SECTION_ROAD_M);
+
+/**
+ * Stations on the road, sorted; consecutive stations bound a section.
+ */
+export const getSectionStations = (config: SectionControlConfig): SectionStation[] =>
+  config.stations.filter(s => s.positionM >= 0 && s.positionM <= getRoadLengthM(config)).sort((a, b) => a.positionM - b.positionM);
+
+/**
+ * The traffic: classes and cruising speeds as spawned on the live road, Poisson entries and
+ * a share of drivers who slow for radars (to 95 % of their limit, if they were faster).
+ */
+export const createSectionVehicles = (config: SectionControlConfig, enforcement: EnforcementConfig): SectionVehicle[] => {
+  const random = createRng(config.seed);
+  const traffic = { model: 'constant' as const, flowVehPerHour: 0, meanDesiredSpeedKmh: config.meanSpeedKmh };
+  let entryTimeS = 0;
+  return Array.from({ length: Math.min(Math.max(Math.round(config.vehicleCount), 0), MAX_SECTION_VEHICLES) }, (_, id) => {
+    const car = createSpawnedCar(id, Math.floor(random() * NUM_LANES), 1, traffic, random);
+    entryTimeS += -Math.log(1 - random()) * MEAN_HEADWAY_S;
+    const slowsForRadar = random() < config.slowDownPercent / 100;
+    const holdKmh = Math.min(car.speedKmh, SLOW_DOWN_FRACTION * getSpeedLimitKmh(enforcement, car.lane, car.vehicleClass));
+    return { car, entryTimeS, slowsForRadar, holdKmh: slowsForRadar ? holdKmh : car.speedKmh };
+  });
+};
+
+/**
+ * Spot reading at a radar station, through the live pipeline with the station's own radar:
+ * the vehicle approaches the station (the radar faces oncoming traffic) where the beam
+ * crosses its lane. Only a selection of this vehicle counts as a reading. The IF chain is
+ * skipped, as in the Monte Carlo trials: one frame through it costs hundreds of milliseconds.
+ */
+const measureSpot = (
+  vehicle: SectionVehicle,
+  trueKmh: number,
+  radar: RadarParams,
+  settings: MeasurementSettings,
+  random: () => number
+): number | null => {
+  const car: Car = {
+    ...vehicle.car,
+    x: (RADAR_ROAD_POSITION_M + beamCrossingM(radar, vehicle.car.lane)) / METRES_PER_PIXEL,
+    speedKmh: trueKmh,
+    direction: -1,
+  };
+  const frame = measureFrame([car], radar, settings.cfar, { ...DEFAULT_BASEBAND_OPTIONS, random, disturbances: settings.disturbances }, getStationaryPose(radar), settings.filter, settings.estimator);
+  const selection = selectTarget(filterDetectionsByDirection(frame.detections, settings.directionFilter, radar), settings.selectionMode);
+  return selection && selection.detection.carId === car.id ? Math.abs(selection.detection.speed) : null;
+};
+
+const observeClass = (vehicleClass: VehicleClass, errorPercent: number, random: () => number): VehicleClass => {
+  if (random() >= errorPercent / 100) return vehicleClass;
+  const others = VEHICLE_CLASSES.filter(c => c !== vehicleClass);
+  return others[Math.floor(random() * others.length)];
+};
+
+/**
+ * Pairs each exit passage with an entry passage.
+ * - plate: the same vehicle id, when both plates were read
+ * - signature: per recorded class, the time-ordered alignment of entries and exits whose
+ *   travel times best match the section's expected time T = L / v (v: the class's typical
+ *   speed), minimising Σ (t_exit − t_entry − T)² over plausible averages. Leaving a passage
+ *   unpaired costs as much as a 15 % mismatch, so a misread class drops one pairing instead
+ *   of shifting every later one; an overtake between two vehicles of one class still swaps them.
+ */
+const pairPassages = (
+  mode: ReidentificationMode,
+  lengthM: number,
+  meanSpeedKmh: number,
+  entries: StationPassage[],
+  exits: StationPassage[]
+): Map<number, StationPassage | null> => {
+  const pairs = new Map<number, StationPassage | null>();
+  if (mode === 'plate') {
+    exits.forEach(exit => {
+      const entry = exit.plateRead ? entries.find(e => e.plateRead && e.vehicleId === exit.vehicleId) : undefined;
+      pairs.set(exit.vehicleId, entry ?? null);
+    });
+    return pairs;
+  }
+  const byTime = (a: StationPassage, b: StationPassage) => a.observedTimeS - b.observedTimeS;
+  VEHICLE_CLASSES.forEach(vehicleClass => {
+    const expectedS = lengthM / (getTypicalDesiredKmh(vehicleClass, meanSpeedKmh) / 3.6);
+    const skipCost = (SKIP_FRACTION * expectedS) ** 2;
+    const ins = entries.filter(e => e.observedClass === vehicleClass).sort(byTime);
+    const outs = exits.filter(e => e.observedClass === vehicleClass).sort(byTime);
+    const matchCost = (i: number, j: number) => {
+      const travelS = outs[j].observedTimeS - ins[i].observedTimeS;
+      const averageKmh = (lengthM / travelS) * 3.6;
+      const isPlausible = travelS > 0 && averageKmh >= PLAUSIBLE_SPEED_KMH.min && averageKmh <= PLAUSIBLE_SPEED_KMH.max;
+      return isPlausible ? (travelS - expectedS) ** 2 : Infinity;
+    };
+    // Alignment in time order: cost[i][j] pairs the first i entries with the first j exits
+    const cost = Array.from({ length: ins.length + 1 }, (_, i) => Array.from({ length: outs.length + 1 }, (_, j) => (i + j) * skipCost));
+    for (let i = 1; i <= ins.length; i++) {
+      for (let j = 1; j <= outs.length; j++) {
+        cost[i][j] = Math.min(cost[i - 1][j] + skipCost, cost[i][j - 1] + skipCost, cost[i - 1][j - 1] + matchCost(i - 1, j - 1));
+      }
+    }
+    // Trace the cheapest alignment back from the last entry and exit
+    for (let i = ins.length, j = outs.length; i > 0 && j > 0;) {
+      if (cost[i][j] === cost[i - 1][j - 1] + matchCost(i - 1, j - 1)) {
+        pairs.set(outs[j - 1].vehicleId, ins[i - 1]);
+        i--;
+        j--;
+      } else if (cost[i][j] === cost[i - 1][j] + skipCost) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+  });
+  exits.forEach(exit => {
+    if (!pairs.has(exit.vehicleId)) pairs.set(exit.vehicleId, null);
+  });
+  return pairs;
+};
+
+/**
+ * Runs the traffic through every station: true passage times, clock error, plate reads and
+ * recorded classes, and a spot reading at each radar. Sections then pair passages at
+ * consecutive stations and take v̄ = L / (t_exit − t_entry). Spot and section readings are
+ * judged against the same enforcement threshold for the vehicle's lane and class.
+ */
+export const runSectionControl = (
+  config: SectionControlConfig,
+  settings: MeasurementSettings,
+  enforcement: EnforcementConfig
+): SectionControlResult => {
+  const stations = getSectionStations(config);
+  const radarPositionsM = stations.filter(s => s.kind === 'radar').map(s => s.positionM);
+  const sections = stations.slice(1).map((station, i) => ({ fromM: stations[i].positionM, toM: station.positionM }));
+  const vehicles = createSectionVehicles(config, enforcement);
+
+  const passagesByVehicle = vehicles.map((vehicle, i) => {
+    const times = calculateTravelTimes(vehicle, getRoadLengthM(config), radarPositionsM);
+    return stations.map((station, j): StationPassage => {
+      const random = createRng(config.seed ^ Math.imul(i + 1, 0x9e3779b1) ^ Math.imul(j + 1, 0x85ebca6b));
+      const trueTimeS = vehicle.entryTimeS + interpolate(times, station.positionM);
+      const spotM = station.positionM - beamCrossingM(station.radar, vehicle.car.lane);
+      const trueSpotKmh = station.kind === 'radar' ? calculateSectionSpeedKmh(vehicle, spotM, radarPositionsM) : null;
+      return {
+        vehicleId: vehicle.car.id,
+        trueTimeS,
+        observedTimeS: trueTimeS + ((random() * 2 - 1) * config.timestampJitterMs) / 1000,
+        plateRead: random() < config.plateReadPercent / 100,
+        observedClass: observeClass(vehicle.car.vehicleClass, config.classErrorPercent, random),
+        trueSpotKmh,
+        measuredSpotKmh: trueSpotKmh === null ? null : measureSpot(vehicle, trueSpotKmh, station.radar, settings, random),
+      };
+    });
+  });
+
+  const pairings = sections.map((section, k) => pairPassages(
+    config.reidentification,
+    section.toM - section.fromM,
+    config.meanSpeedKmh,
+    passagesByVehicle.map(p => p[k]),
+    passagesByVehicle.map(p => p[k + 1])
+  ));
+
+  const results = vehicles.map((vehicle, i): SectionVehicleResult => {
+    const passages = passagesByVehicle[i];
+    const speedLimitKmh = getSpeedLimitKmh(enforcement, vehicle.car.lane, vehicle.car.vehicleClass);
+    const thresholdKmh = getEnforcementThresholdKmh(enforcement, speedLimitKmh);
+    const readings = sections.map((section, k): SectionReading => {
+      const lengthM = section.toM - section.fromM;
+      const exit = passages[k + 1];
+      const entry = pairings[k].get(vehicle.car.id) ?? null;
+      const observedS = entry ? exit.observedTimeS - entry.observedTimeS : 0;
+      return {
+        entryVehicleId: entry?.vehicleId ?? null,
+        trueAverageKmh: (lengthM / (exit.trueTimeS - passages[k].trueTimeS)) * 3.6,
+        measuredAverageKmh: entry && observedS > 0 ? (lengthM / observedS) * 3.6 : null,
+      };
+    });
+    return {
+      vehicle,
+      speedLimitKmh,
+      thresholdKmh,
+      passages,
+      sections: readings,
+      overAtSpot: passages.some(p => p.trueSpotKmh !== null && p.trueSpotKmh > thresholdKmh),
+      overOnSection: readings.some(r => r.trueAverageKmh > thresholdKmh),
+      caughtBySpot: passages.some(p => p.measuredSpotKmh !== null && p.measuredSpotKmh > thresholdKmh),
+      caughtBySection: readings.some(r => r.measuredAverageKmh !== null && r.measuredAverageKmh > thresholdKmh),
+    };
+  });
+
+  const allReadings = results.flatMap(r => r.sections.map(reading => ({ reading, vehicleId: r.vehicle.car.id })));
+  return {
+    stations,
+    sections,
+    vehicles: results,
+    summary: {
+      vehicles: results.length,
+      sectionSpeeders: results.filter(r => r.overOnSection).length,
+      caughtBySection: results.filter(r => r.caughtBySection).length,
+      caughtBySpot: results.filter(r => r.caughtBySpot).length,
+      slowedCaughtBySectionOnly: results.filter(r => r.vehicle.slowsForRadar && r.caughtBySection && !r.caughtBySpot).length,
+      falseSectionTickets: results.filter(r => r.caughtBySection && !r.overOnSection).length,
+      wrongPairings: allReadings.filter(({ reading, vehicleId }) => reading.entryVehicleId !== null && reading.entryVehicleId !== vehicleId).length,
+      unpaired: allReadings.filter(({ reading }) => reading.entryVehicleId === null).length,
+    },
+  };
+};
+
+/**
+ * True speed along the road every stepM metres, for plotting one vehicle.
+ */
+export const calculateSectionSpeedProfile = (
+  vehicle: SectionVehicle,
+  roadLengthM: number,
+  stations: SectionStation[],
+  stepM = 10
+): { xM: number; speedKmh: number }[] => {
+  const radarPositionsM = stations.filter(s => s.kind === 'radar').map(s => s.positionM);
+  return Array.from({ length: Math.floor(roadLengthM / stepM) + 1 }, (_, i) => ({
+    xM: i * stepM,
+    speedKmh: calculateSectionSpeedKmh(vehicle, i * stepM, radarPositionsM),
+  }));
+};
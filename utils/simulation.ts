@@ -0,0 +1,291 @@
+import { Car, PatrolConfig, RadarParams, SimulationConfig, SimulationSnapshot, TrafficConfig, TravelDirection } from '../types';
+import { METRES_PER_PIXEL, getPatrolPose, getStationaryPose } from './geometry';
+import { DEFAULT_PATROL_CONFIG, PATROL_CAR_LENGTH_PX, calculatePatrolSpeedKmh } from './movingMode';
+import { DEFAULT_RADAR_PARAMS } from './scenario';
+import { DEFAULT_TRAFFIC_CONFIG, LANE_CHANGE_COOLDOWN_S, TrafficVehicle, calculateTrafficAccelerations, chooseLaneChange, createSpawnedCar, hasEntryGap, vehicleLengthM } from './traffic';
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  roadLengthM: 256,
+  timestepS: 1 / 60,
+  seed: 1,
+};
+
+export const TIME_SCALES = [0.1, 0.25, 0.5, 1, 2, 4];
+
+// The road starts off the left edge of the canvas so vehicles enter and leave out of view
+export const ROAD_START_M = -30;
+// Stretch of road visible on the 800 px canvas; random placement stays inside it
+const VISIBLE_ROAD_M = 800 * METRES_PER_PIXEL;
+// Longest real-time gap made up in one advance (e.g. after a hidden tab); the rest is dropped
+const MAX_CATCH_UP_S = 0.25;
+const PATROL_START_M = 50;
+// Spawning stops while this many vehicles are on the road
+export const MAX_VEHICLES = 16;
+
+export type Random = () => number;
+
+/**
+ * Seeded uniform generator in [0, 1) (mulberry32): the same seed replays the same run.
+ */
+export const createRng = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Generator for the measurement noise of one snapshot. It depends only on the seed, the
+ * tick and the stream, so re-measuring a snapshot (e.g. after a CFAR change) gives the
+ * same noise, and a replayed run gives the same spectra however often React re-renders.
+ */
+export const createSnapshotRng = (snapshot: SimulationSnapshot, stream: number): Random =>
+  createRng(Math.imul(snapshot.seed, 0x9e3779b1) ^ Math.imul(snapshot.tick, 0x85ebca6b) ^ Math.imul(stream, 0xc2b2ae35));
+
+// World state, advanced in place. Nothing in here knows about React or the canvas.
+export interface Simulation {
+  config: SimulationConfig;
+  random: Random; // Traffic randomness (placement, speeds)
+  tick: number;
+  timeS: number;
+  paused: boolean;
+  timeScale: number; // Simulated seconds per real second
+  accumulatorS: number; // Simulated time owed but not yet stepped
+  cars: Car[]; // Vehicle definitions; x only places a vehicle the engine has not seen yet
+  positionsM: Map<number, number>; // Left edge of each vehicle along the road
+  speedsMps: Map<number, number>; // Actual speed; equals the set speed under constant traffic
+  accelerationsMps2: Map<number, number>;
+  lastLaneChangeS: Map<number, number>;
+  nextCarId: number; // Spawned vehicles never reuse an id, so logs and tracks stay unambiguous
+  traffic: TrafficConfig;
+  laneDirections: TravelDirection[];
+  radar: RadarParams;
+  patrol: PatrolConfig;
+  patrolHeading: TravelDirection;
+  patrolXm: number;
+}
+
+export const createSimulation = (config: SimulationConfig = DEFAULT_SIMULATION_CONFIG): Simulation => ({
+  config: { ...config },
+  random: createRng(config.seed),
+  tick: 0,
+  timeS: 0,
+  paused: false,
+  timeScale: 1,
+  accumulatorS: 0,
+  cars: [],
+  positionsM: new Map(),
+  speedsMps: new Map(),
+  accelerationsMps2: new Map(),
+  lastLaneChangeS: new Map(),
+  nextCarId: 0,
+  traffic: DEFAULT_TRAFFIC_CONFIG,
+  laneDirections: [1, 1, -1],
+  radar: DEFAULT_RADAR_PARAMS,
+  patrol: DEFAULT_PATROL_CONFIG,
+  patrolHeading: 1,
+  patrolXm: PATROL_START_M,
+});
+
+const wrapRoad = (sim: Simulation, xM: number): number => {
+  const { roadLengthM } = sim.config;
+  if (xM >= ROAD_START_M + roadLengthM) return xM - roadLengthM;
+  if (xM < ROAD_START_M) return xM + roadLengthM;
+  return xM;
+};
+
+const forgetCar = (sim: Simulation, id: number) => {
+  sim.positionsM.delete(id);
+  sim.speedsMps.delete(id);
+  sim.accelerationsMps2.delete(id);
+  sim.lastLaneChangeS.delete(id);
+};
+
+/**
+ * At most one lane change per step, so two drivers never merge into the same gap at once.
+ */
+const changeLanes = (sim: Simulation, vehicles: TrafficVehicle[], loopLengthM: number | null): boolean => {
+  for (const vehicle of vehicles) {
+    if (sim.timeS - (sim.lastLaneChangeS.get(vehicle.car.id) ?? -Infinity) < LANE_CHANGE_COOLDOWN_S) continue;
+    const lane = chooseLaneChange(vehicle, vehicles, sim.laneDirections, loopLengthM);
+    if (lane === null) continue;
+    vehicle.car = { ...vehicle.car, lane };
+    sim.lastLaneChangeS.set(vehicle.car.id, sim.timeS);
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Open road: vehicles past the far end leave, and each lane draws Poisson arrivals at
+ * the entry, P(arrival in Δt) = q · Δt. An arrival without room to enter is lost.
+ */
+const exchangeVehicles = (sim: Simulation, vehicles: TrafficVehicle[]): TrafficVehicle[] => {
+  const endM = ROAD_START_M + sim.config.roadLengthM;
+  const remaining = vehicles.filter(vehicle => {
+    const gone = vehicle.car.direction === 1 ? vehicle.xM > endM : vehicle.xM + vehicleLengthM(vehicle.car) < ROAD_START_M;
+    if (gone) forgetCar(sim, vehicle.car.id);
+    return !gone;
+  });
+  const arrivalProbability = (sim.traffic.flowVehPerHour / 3600) * sim.config.timestepS;
+  sim.laneDirections.forEach((direction, lane) => {
+    if (sim.random() >= arrivalProbability || remaining.length >= MAX_VEHICLES) return;
+    const car = createSpawnedCar(sim.nextCarId, lane, direction, sim.traffic, sim.random);
+    const xM = direction === 1 ? ROAD_START_M : endM - vehicleLengthM(car);
+    const entering = { car: { ...car, x: xM / METRES_PER_PIXEL }, xM, speedMps: car.speedKmh / 3.6 };
+    if (!hasEntryGap(entering, remaining)) return;
+    sim.nextCarId++;
+    sim.positionsM.set(car.id, xM);
+    sim.speedsMps.set(car.id, entering.speedMps);
+    remaining.push(entering);
+  });
+  return remaining;
+};
+
+/**
+ * One fixed timestep Δt. Under constant traffic v is the set speed; under IDM it is
+ * integrated from the car-following acceleration, v ← max(0, v + a·Δt). Either way
+ * x ← x + d · (v_old + v_new) / 2 · Δt, with speeds in m/s (km/h ÷ 3.6).
+ */
+export const stepSimulation = (sim: Simulation): void => {
+  const dtS = sim.config.timestepS;
+  const isOpenRoad = sim.traffic.flowVehPerHour > 0;
+  const loopLengthM = isOpenRoad ? null : sim.config.roadLengthM;
+  const isIdm = sim.traffic.model === 'idm';
+  let vehicles: TrafficVehicle[] = sim.cars.map(car => ({
+    car,
+    xM: sim.positionsM.get(car.id) ?? car.x * METRES_PER_PIXEL,
+    speedMps: sim.speedsMps.get(car.id) ?? car.speedKmh / 3.6,
+  }));
+  const accelerations = isIdm ? calculateTrafficAccelerations(vehicles, loopLengthM) : [];
+
+  vehicles.forEach((vehicle, index) => {
+    const speedMps = isIdm ? Math.max(0, vehicle.speedMps + accelerations[index] * dtS) : vehicle.car.speedKmh / 3.6;
+    const xM = vehicle.xM + (vehicle.car.direction * (vehicle.speedMps + speedMps) * dtS) / 2;
+    sim.accelerationsMps2.set(vehicle.car.id, isIdm ? (speedMps - vehicle.speedMps) / dtS : 0);
+    vehicle.xM = isOpenRoad ? xM : wrapRoad(sim, xM);
+    vehicle.speedMps = speedMps;
+    sim.positionsM.set(vehicle.car.id, vehicle.xM);
+    sim.speedsMps.set(vehicle.car.id, speedMps);
+  });
+
+  let carsChanged = isIdm && changeLanes(sim, vehicles, loopLengthM);
+  if (isOpenRoad) {
+    const count = vehicles.length;
+    vehicles = exchangeVehicles(sim, vehicles);
+    carsChanged = carsChanged || vehicles.length !== count || vehicles.some((vehicle, index) => vehicle.car !== sim.cars[index]);
+  }
+  if (carsChanged) sim.cars = vehicles.map(vehicle => vehicle.car);
+
+  if (sim.patrol.enabled) {
+    const patrolSpeedKmh = calculatePatrolSpeedKmh(sim.patrol, sim.timeS * 1000);
+    sim.patrolXm = wrapRoad(sim, sim.patrolXm + (sim.patrolHeading * patrolSpeedKmh * dtS) / 3.6);
+  }
+  sim.tick++;
+  sim.timeS = sim.tick * dtS;
+};
+
+/**
+ * Advances by a stretch of real time: Δt_sim = Δt_real · timeScale, run as whole fixed
+ * steps. The remainder carries over to the next call, so the motion does not depend on
+ * the frame rate. Returns the number of steps taken.
+ */
+export const advanceSimulation = (sim: Simulation, realDtS: number): number => {
+  if (sim.paused) return 0;
+  sim.accumulatorS += Math.min(Math.max(realDtS, 0), MAX_CATCH_UP_S) * sim.timeScale;
+  let steps = 0;
+  while (sim.accumulatorS >= sim.config.timestepS) {
+    stepSimulation(sim);
+    sim.accumulatorS -= sim.config.timestepS;
+    steps++;
+  }
+  return steps;
+};
+
+/**
+ * Replaces the vehicle definitions. Vehicles already on the road keep their position;
+ * new ones start at their x. With resetPositions every vehicle starts at its x.
+ */
+export const setSimulationCars = (sim: Simulation, cars: Car[], resetPositions = false): void => {
+  if (resetPositions) {
+    sim.positionsM.clear();
+    sim.speedsMps.clear();
+  }
+  sim.cars = cars;
+  cars.forEach(car => {
+    if (!sim.positionsM.has(car.id)) sim.positionsM.set(car.id, car.x * METRES_PER_PIXEL);
+    sim.nextCarId = Math.max(sim.nextCarId, car.id + 1);
+  });
+  [...sim.positionsM.keys()].forEach(id => {
+    if (!cars.some(car => car.id === id)) forgetCar(sim, id);
+  });
+};
+
+export const setSimulationTraffic = (sim: Simulation, traffic: TrafficConfig, laneDirections: TravelDirection[]): void => {
+  sim.traffic = traffic;
+  sim.laneDirections = laneDirections;
+};
+
+export const setSimulationRadar = (sim: Simulation, radar: RadarParams, patrol: PatrolConfig, patrolHeading: TravelDirection): void => {
+  sim.radar = radar;
+  sim.patrol = patrol;
+  sim.patrolHeading = patrolHeading;
+};
+
+/**
+ * Restarts the clock at t = 0 with a fresh generator and scatters the vehicles over the
+ * visible road. The same seed always gives the same starting positions.
+ */
+export const resetSimulation = (sim: Simulation, seed: number): void => {
+  sim.config = { ...sim.config, seed };
+  sim.random = createRng(seed);
+  sim.tick = 0;
+  sim.timeS = 0;
+  sim.accumulatorS = 0;
+  sim.patrolXm = PATROL_START_M;
+  sim.positionsM.clear();
+  sim.speedsMps.clear();
+  sim.accelerationsMps2.clear();
+  sim.lastLaneChangeS.clear();
+  sim.cars.forEach(car => sim.positionsM.set(car.id, sim.random() * VISIBLE_ROAD_M));
+};
+
+export const getSimulationSnapshot = (sim: Simulation): SimulationSnapshot => {
+  const patrolSpeedKmh = sim.patrol.enabled ? calculatePatrolSpeedKmh(sim.patrol, sim.timeS * 1000) : 0;
+  const frontXm = sim.patrolXm + (sim.patrolHeading === 1 ? PATROL_CAR_LENGTH_PX * METRES_PER_PIXEL : 0);
+  return {
+    tick: sim.tick,
+    timeS: sim.timeS,
+    seed: sim.config.seed,
+    cars: sim.cars.map(car => ({
+      ...car,
+      x: (sim.positionsM.get(car.id) ?? car.x * METRES_PER_PIXEL) / METRES_PER_PIXEL,
+      speedKmh: (sim.speedsMps.get(car.id) ?? car.speedKmh / 3.6) * 3.6,
+      accelKmhPerS: (sim.accelerationsMps2.get(car.id) ?? 0) * 3.6,
+    })),
+    patrolXm: sim.patrol.enabled ? sim.patrolXm : null,
+    patrolSpeedKmh,
+    pose: sim.patrol.enabled
+      ? getPatrolPose(sim.radar, sim.patrol, frontXm, sim.patrolHeading, patrolSpeedKmh)
+      : getStationaryPose(sim.radar),
+  };
+};
+
+/**
+ * Drives the engine from the display's animation frames. Returns a function that stops it.
+ */
+export const startSimulationLoop = (sim: Simulation): (() => void) => {
+  let lastMs = performance.now();
+  let frameId = 0;
+  const loop = (nowMs: number) => {
+    advanceSimulation(sim, (nowMs - lastMs) / 1000);
+    lastMs = nowMs;
+    frameId = requestAnimationFrame(loop);
+  };
+  frameId = requestAnimationFrame(loop);
+  return () => cancelAnimationFrame(frameId);
+};
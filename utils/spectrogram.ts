@@ -0,0 +1,61 @@
+import { Car, ClutterFilterConfig, RadarParams, RadarPose, SpectrogramConfig, SpectrogramFrame } from '../types';
+import { BasebandOptions, DEFAULT_BASEBAND_OPTIONS, computeSpectrum, synthesizeBaseband } from './dsp';
+import { collectEchoes } from './pipeline';
+import { DEFAULT_CLUTTER_FILTER_CONFIG, applyClutterFilters, calculateFilterSettlingSamples } from './clutter';
+import { SCENE_WRAP_THRESHOLD_PX } from './geometry';
+
+export const DEFAULT_SPECTROGRAM_CONFIG: SpectrogramConfig = {
+  colormap: 'viridis',
+  minDb: -90,
+  maxDb: -20,
+  historyFrames: 300,
+};
+
+/**
+ * Car positions a fraction of the way between two snapshots (linear in x).
+ * Cars that wrapped round the scene, or only exist in the later snapshot, take its position.
+ */
+export const interpolateCars = (from: Car[], to: Car[], fraction: number): Car[] => {
+  return to.map(car => {
+    const previous = from.find(c => c.id === car.id);
+    if (!previous || Math.abs(car.x - previous.x) > SCENE_WRAP_THRESHOLD_PX) return car;
+    return { ...car, x: previous.x + (car.x - previous.x) * fraction };
+  });
+};
+
+/**
+ * Waterfall rows between two position snapshots, one per observation window:
+ * t_k = t_next + k · T_obs,  T_obs = N / Fs,  for every t_k ≤ toMs.
+ * Each row is a fresh frame synthesized at the interpolated car positions and run through
+ * the clutter filters.
+ * After a long gap (e.g. a hidden tab) only the most recent maxFrames are built.
+ * Returns the rows and the start time of the next window.
+ */
+export const buildSpectrogramFrames = (
+  from: Car[],
+  to: Car[],
+  fromMs: number,
+  toMs: number,
+  nextFrameMs: number,
+  radar: RadarParams,
+  pose: RadarPose,
+  maxFrames: number,
+  options: BasebandOptions = DEFAULT_BASEBAND_OPTIONS,
+  filter: ClutterFilterConfig = DEFAULT_CLUTTER_FILTER_CONFIG
+): { frames: SpectrogramFrame[]; nextFrameMs: number } => {
+  const observationMs = (radar.fftSize / radar.basebandSampleRateHz) * 1000;
+  const pending = Math.floor((toMs - nextFrameMs) / observationMs) + 1;
+  let timeMs = pending > maxFrames ? nextFrameMs + (pending - maxFrames) * observationMs : nextFrameMs;
+  const frames: SpectrogramFrame[] = [];
+  const preRoll = calculateFilterSettlingSamples(filter, radar.basebandSampleRateHz);
+
+  for (; timeMs <= toMs; timeMs += observationMs) {
+    const fraction = toMs > fromMs ? Math.min(Math.max((timeMs - fromMs) / (toMs - fromMs), 0), 1) : 1;
+    const cars = interpolateCars(from, to, fraction);
+    const signal = synthesizeBaseband(collectEchoes(cars, radar, pose, options), radar, options, preRoll);
+    const stages = applyClutterFilters(signal, preRoll, filter, radar.basebandSampleRateHz);
+    const filtered = stages[stages.length - 1].signal;
+    frames.push({ timeMs, amps: computeSpectrum(filtered, radar).map(bin => bin.amp) });
+  }
+  return { frames, nextFrameMs: timeMs };
+};
@@ -0,0 +1,230 @@
+import { AssociationMethod, Detection, Track, TrackerConfig } from '../types';
+
+export const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+  association: 'GNN',
+  gateSigma: 3,
+  confirmHits: 3,
+  confirmWindow: 5,
+  maxMisses: 5,
+  accelNoise: 20,
+};
+
+export const ASSOCIATION_LABELS: Record<AssociationMethod, string> = {
+  NN: 'Nearest Neighbour (greedy)',
+  GNN: 'Global Nearest Neighbour',
+};
+
+// A new track knows its speed from one detection but nothing about its acceleration
+const INITIAL_ACCEL_VARIANCE = 100; // (10 km/h/s)²
+// Cost of a pairing outside the gate; only ever chosen when nothing better exists
+const UNGATED_COST = 1e9;
+
+/**
+ * Kalman prediction, constant-acceleration model x = [v, a]:
+ * F = [[1, dt], [0, 1]],  Q = q · [[dt³/3, dt²/2], [dt²/2, dt]]
+ * P' = F · P · Fᵀ + Q
+ */
+export const predictTrack = (track: Track, dtS: number, accelNoise: number): Track => {
+  const [pvv, pva, paa] = track.covariance;
+  return {
+    ...track,
+    speedKmh: track.speedKmh + track.accelKmhPerS * dtS,
+    covariance: [
+      pvv + 2 * dtS * pva + dtS * dtS * paa + (accelNoise * dtS * dtS * dtS) / 3,
+      pva + dtS * paa + (accelNoise * dtS * dtS) / 2,
+      paa + accelNoise * dtS,
+    ],
+  };
+};
+
+/**
+ * Innovation variance of a speed measurement: S = H · P · Hᵀ + R = σ²_v + σ²_m
+ */
+const innovationVariance = (track: Track, measurementSigmaKmh: number) =>
+  track.covariance[0] + measurementSigmaKmh * measurementSigmaKmh;
+
+/**
+ * Kalman update with a speed measurement z (H = [1, 0]):
+ * K = P · Hᵀ / S,  x += K · (z - v̂),  P = (I - K · H) · P
+ */
+export const updateTrack = (track: Track, measurementKmh: number, measurementSigmaKmh: number): Track => {
+  const [pvv, pva, paa] = track.covariance;
+  const s = innovationVariance(track, measurementSigmaKmh);
+  const gainV = pvv / s;
+  const gainA = pva / s;
+  const innovation = measurementKmh - track.speedKmh;
+  return {
+    ...track,
+    speedKmh: track.speedKmh + gainV * innovation,
+    accelKmhPerS: track.accelKmhPerS + gainA * innovation,
+    covariance: [(1 - gainV) * pvv, (1 - gainV) * pva, paa - gainA * pva],
+    lastMeasurementKmh: measurementKmh,
+  };
+};
+
+/**
+ * Hungarian algorithm (Kuhn-Munkres with potentials) on a square cost matrix.
+ * Returns the column assigned to each row, minimising the total cost.
+ */
+const solveAssignment = (cost: number[][]): number[] => {
+  const n = cost.length;
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const p = new Array(n + 1).fill(0); // Row matched to each column (1-based, 0 = free)
+  const way = new Array(n + 1).fill(0);
+
+  for (let row = 1; row <= n; row++) {
+    p[0] = row;
+    let j0 = 0;
+    const minv = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const reduced = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (reduced < minv[j]) {
+          minv[j] = reduced;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = new Array(n).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    if (p[j] > 0) assignment[p[j] - 1] = j - 1;
+  }
+  return assignment;
+};
+
+/**
+ * Pairs tracks with detections inside the gate, using the squared normalised
+ * innovation d² = (z - v̂)² / S as the cost.
+ * NN:  repeatedly takes the closest remaining pair (greedy, order dependent).
+ * GNN: minimises the summed cost over all pairs at once (Hungarian algorithm).
+ * Returns the detection index for each track, or -1 for a miss.
+ */
+export const associateDetections = (
+  tracks: Track[],
+  detections: Detection[],
+  measurementSigmaKmh: number,
+  config: TrackerConfig
+): number[] => {
+  const gate = config.gateSigma * config.gateSigma;
+  const cost = tracks.map(track => {
+    const s = innovationVariance(track, measurementSigmaKmh);
+    return detections.map(d => {
+      const distance = Math.pow(d.speed - track.speedKmh, 2) / s;
+      return distance <= gate ? distance : UNGATED_COST;
+    });
+  });
+
+  if (config.association === 'GNN') {
+    const size = Math.max(tracks.length, detections.length);
+    const square = Array.from({ length: size }, (_, i) =>
+      Array.from({ length: size }, (_, j) => cost[i]?.[j] ?? UNGATED_COST)
+    );
+    return solveAssignment(square)
+      .slice(0, tracks.length)
+      .map((j, i) => (j >= 0 && j < detections.length && cost[i][j] < UNGATED_COST ? j : -1));
+  }
+
+  const assignment = new Array(tracks.length).fill(-1);
+  const usedDetections = new Set<number>();
+  const pairs = cost.flatMap((row, i) => row.map((c, j) => ({ i, j, c }))).filter(pair => pair.c < UNGATED_COST);
+  pairs.sort((a, b) => a.c - b.c).forEach(({ i, j }) => {
+    if (assignment[i] !== -1 || usedDetections.has(j)) return;
+    assignment[i] = j;
+    usedDetections.add(j);
+  });
+  return assignment;
+};
+
+/**
+ * Share of the last N frames in which the track was detected.
+ */
+export const calculateTrackConfidence = (track: Track): number => {
+  if (track.hitHistory.length === 0) return 0;
+  return track.hitHistory.filter(Boolean).length / track.hitHistory.length;
+};
+
+/**
+ * One tracker cycle: predict every track by dt, associate this frame's detections,
+ * update or count a miss, then manage the track list:
+ *  - tentative -> confirmed once M of the last N frames hit
+ *  - a tentative track that is not confirmed within N frames is dropped
+ *  - a confirmed track is dropped after maxMisses consecutive misses
+ *  - every unassociated detection starts a new tentative track
+ */
+export const updateTracks = (
+  tracks: Track[],
+  detections: Detection[],
+  dtS: number,
+  measurementSigmaKmh: number,
+  config: TrackerConfig,
+  nextId: number
+): { tracks: Track[]; nextId: number } => {
+  const predicted = tracks.map(track => predictTrack(track, dtS, config.accelNoise));
+  const assignment = associateDetections(predicted, detections, measurementSigmaKmh, config);
+
+  const survivors = predicted.flatMap((track, index) => {
+    const detection = assignment[index] >= 0 ? detections[assignment[index]] : null;
+    const updated = detection ? updateTrack(track, detection.speed, measurementSigmaKmh) : track;
+    const hitHistory = [...track.hitHistory, detection !== null].slice(-config.confirmWindow);
+    const next: Track = {
+      ...updated,
+      hitHistory,
+      misses: detection ? 0 : track.misses + 1,
+      age: track.age + 1,
+      carId: detection ? detection.carId : track.carId,
+    };
+    if (next.status === 'tentative' && hitHistory.filter(Boolean).length >= config.confirmHits) {
+      next.status = 'confirmed';
+    }
+    if (next.status === 'tentative' && next.age >= config.confirmWindow) return [];
+    if (next.status === 'confirmed' && next.misses > config.maxMisses) return [];
+    return [next];
+  });
+
+  let id = nextId;
+  const assigned = new Set(assignment);
+  detections.forEach((detection, index) => {
+    if (assigned.has(index)) return;
+    survivors.push({
+      id: id++,
+      status: config.confirmHits <= 1 ? 'confirmed' : 'tentative',
+      speedKmh: detection.speed,
+      accelKmhPerS: 0,
+      covariance: [measurementSigmaKmh * measurementSigmaKmh, 0, INITIAL_ACCEL_VARIANCE],
+      hitHistory: [true],
+      misses: 0,
+      age: 1,
+      lastMeasurementKmh: detection.speed,
+      carId: detection.carId,
+    });
+  });
+
+  return { tracks: survivors, nextId: id };
+};
@@ -0,0 +1,228 @@
+import { Car, TrafficConfig, TrafficModel, TravelDirection, VehicleClass } from '../types';
+import { NUM_LANES } from './geometry';
+import { VEHICLE_COLORS, VEHICLE_SPECS } from './vehicles';
+
+export const TRAFFIC_MODEL_LABELS: Record<TrafficModel, string> = {
+  constant: 'Constant Speed',
+  idm: 'IDM + MOBIL',
+};
+
+export const DEFAULT_TRAFFIC_CONFIG: TrafficConfig = {
+  model: 'idm',
+  flowVehPerHour: 0,
+  meanDesiredSpeedKmh: 100,
+};
+
+const DEFAULT_AGGRESSIVENESS = 0.5;
+const IDM_EXPONENT = 4; // δ
+const JAM_GAP_M = 2; // s0: bumper-to-bumper distance when stopped
+const MAX_BRAKING_MPS2 = 9; // Tyre limit on dry asphalt
+// MOBIL: the new follower must not be forced to brake harder than this
+const SAFE_DECELERATION_MPS2 = 4;
+// MOBIL: a lane change has to gain at least this much (stops drivers weaving)
+const LANE_CHANGE_THRESHOLD_MPS2 = 0.2;
+export const LANE_CHANGE_COOLDOWN_S = 3;
+
+// Mix of spawned traffic
+const SPAWN_CLASS_WEIGHTS: Record<VehicleClass, number> = { car: 0.7, van: 0.12, truck: 0.12, motorcycle: 0.06 };
+// Heavy vehicles are limited whatever their drivers want
+const TRUCK_MAX_DESIRED_KMH = 85;
+
+export interface DriverParams {
+  desiredSpeedMps: number; // v0
+  timeHeadwayS: number; // T
+  maxAccelMps2: number; // a
+  comfortDecelMps2: number; // b
+  politeness: number; // p: weight given to the other drivers in MOBIL
+}
+
+/**
+ * IDM parameters of a driver. Aggressiveness α ∈ [0, 1] shortens the headway, raises the
+ * acceleration and braking the driver accepts and lowers the politeness; trucks pull away slowly.
+ */
+export const getDriverParams = (car: Car): DriverParams => {
+  const alpha = car.aggressiveness ?? DEFAULT_AGGRESSIVENESS;
+  const classAccel = car.vehicleClass === 'truck' ? 0.5 : car.vehicleClass === 'motorcycle' ? 1.5 : 1;
+  return {
+    desiredSpeedMps: car.speedKmh / 3.6,
+    timeHeadwayS: 1.8 - 0.9 * alpha,
+    maxAccelMps2: classAccel * (0.8 + 1.2 * alpha),
+    comfortDecelMps2: 1.5 + 1.5 * alpha,
+    politeness: 0.6 - 0.5 * alpha,
+  };
+};
+
+export interface Leader {
+  gapM: number; // Front bumper to the leader's rear bumper
+  speedMps: number;
+}
+
+/**
+ * Intelligent Driver Model:
+ * a = a_max · [1 − (v / v0)^δ − (s* / s)²],  s* = s0 + max(0, v·T + v·Δv / (2·√(a_max·b)))
+ * with gap s to the leader and approach rate Δv = v − v_leader. Without a leader only
+ * the free-road term acts.
+ */
+export const calculateIdmAcceleration = (speedMps: number, driver: DriverParams, leader: Leader | null): number => {
+  const free = 1 - Math.pow(speedMps / Math.max(driver.desiredSpeedMps, 0.1), IDM_EXPONENT);
+  let interaction = 0;
+  if (leader) {
+    const approachMps = speedMps - leader.speedMps;
+    const brakingTerm = (speedMps * approachMps) / (2 * Math.sqrt(driver.maxAccelMps2 * driver.comfortDecelMps2));
+    const desiredGapM = JAM_GAP_M + Math.max(0, speedMps * driver.timeHeadwayS + brakingTerm);
+    interaction = Math.pow(desiredGapM / Math.max(leader.gapM, 0.1), 2);
+  }
+  return Math.max(driver.maxAccelMps2 * (free - interaction), -MAX_BRAKING_MPS2);
+};
+
+export interface TrafficVehicle {
+  car: Car;
+  xM: number; // Left edge along the road (the rear for +x traffic, the front for −x)
+  speedMps: number;
+}
+
+interface Neighbour {
+  vehicle: TrafficVehicle;
+  gapM: number;
+}
+
+export const vehicleLengthM = (car: Car): number => VEHICLE_SPECS[car.vehicleClass].lengthM;
+
+// Front bumper, measured along the direction of travel
+const frontPositionM = (vehicle: TrafficVehicle): number =>
+  vehicle.car.direction === 1 ? vehicle.xM + vehicleLengthM(vehicle.car) : -vehicle.xM;
+
+/**
+ * Nearest vehicles ahead and behind in a lane, as seen from where the vehicle is now
+ * (the lane can be a neighbouring one, for a lane-change check). On a closed loop the
+ * road wraps, so whichever way round is shorter decides ahead or behind.
+ */
+const findNeighbours = (
+  vehicle: TrafficVehicle,
+  lane: number,
+  vehicles: TrafficVehicle[],
+  loopLengthM: number | null
+): { leader: Neighbour | null; follower: Neighbour | null } => {
+  const front = frontPositionM(vehicle);
+  let leader: Neighbour | null = null;
+  let follower: Neighbour | null = null;
+  for (const other of vehicles) {
+    if (other === vehicle || other.car.lane !== lane || other.car.direction !== vehicle.car.direction) continue;
+    let offsetM = frontPositionM(other) - front;
+    if (loopLengthM !== null) offsetM = offsetM - loopLengthM * Math.round(offsetM / loopLengthM);
+    if (offsetM > 0) {
+      const gapM = offsetM - vehicleLengthM(other.car);
+      if (!leader || gapM < leader.gapM) leader = { vehicle: other, gapM };
+    } else {
+      const gapM = -offsetM - vehicleLengthM(vehicle.car);
+      if (!follower || gapM < follower.gapM) follower = { vehicle: other, gapM };
+    }
+  }
+  return { leader, follower };
+};
+
+const asLeader = (neighbour: Neighbour | null): Leader | null =>
+  neighbour ? { gapM: neighbour.gapM, speedMps: neighbour.vehicle.speedMps } : null;
+
+const accelerate = (vehicle: TrafficVehicle, leader: Leader | null) =>
+  calculateIdmAcceleration(vehicle.speedMps, getDriverParams(vehicle.car), leader);
+
+/**
+ * IDM acceleration of every vehicle behind its current leader.
+ */
+export const calculateTrafficAccelerations = (vehicles: TrafficVehicle[], loopLengthM: number | null): number[] =>
+  vehicles.map(vehicle => accelerate(vehicle, asLeader(findNeighbours(vehicle, vehicle.car.lane, vehicles, loopLengthM).leader)));
+
+/**
+ * MOBIL lane change. Moving to lane l' is safe if the new follower n would brake no
+ * harder than b_safe, and worth it if
+ * ã_c − a_c + p · [(ã_n − a_n) + (ã_o − a_o)] > Δa_th
+ * (c: the driver, o: the old follower, ~: after the change). Only lanes running the same
+ * way are considered. Returns the chosen lane, or null to stay.
+ */
+export const chooseLaneChange = (
+  vehicle: TrafficVehicle,
+  vehicles: TrafficVehicle[],
+  laneDirections: TravelDirection[],
+  loopLengthM: number | null
+): number | null => {
+  const lengthM = vehicleLengthM(vehicle.car);
+  const current = findNeighbours(vehicle, vehicle.car.lane, vehicles, loopLengthM);
+  const accelNow = accelerate(vehicle, asLeader(current.leader));
+  const politeness = getDriverParams(vehicle.car).politeness;
+
+  // The old follower closes up to our leader once we leave
+  const oldFollower = current.follower;
+  const oldFollowerGain = oldFollower
+    ? accelerate(oldFollower.vehicle, current.leader ? { gapM: oldFollower.gapM + lengthM + current.leader.gapM, speedMps: current.leader.vehicle.speedMps } : null)
+      - accelerate(oldFollower.vehicle, { gapM: oldFollower.gapM, speedMps: vehicle.speedMps })
+    : 0;
+
+  let bestLane: number | null = null;
+  let bestGain = LANE_CHANGE_THRESHOLD_MPS2;
+  [vehicle.car.lane - 1, vehicle.car.lane + 1].forEach(lane => {
+    if (lane < 0 || lane >= NUM_LANES || laneDirections[lane] !== vehicle.car.direction) return;
+    const target = findNeighbours(vehicle, lane, vehicles, loopLengthM);
+    if ((target.leader && target.leader.gapM <= 0) || (target.follower && target.follower.gapM <= 0)) return;
+
+    let newFollowerGain = 0;
+    if (target.follower) {
+      const newFollowerAccel = accelerate(target.follower.vehicle, { gapM: target.follower.gapM, speedMps: vehicle.speedMps });
+      if (newFollowerAccel < -SAFE_DECELERATION_MPS2) return;
+      const gapToTargetLeader = target.leader ? { gapM: target.follower.gapM + lengthM + target.leader.gapM, speedMps: target.leader.vehicle.speedMps } : null;
+      newFollowerGain = newFollowerAccel - accelerate(target.follower.vehicle, gapToTargetLeader);
+    }
+    const ownGain = accelerate(vehicle, asLeader(target.leader)) - accelNow;
+    const gain = ownGain + politeness * (newFollowerGain + oldFollowerGain);
+    if (gain > bestGain) {
+      bestLane = lane;
+      bestGain = gain;
+    }
+  });
+  return bestLane;
+};
+
+/**
+ * Whether a vehicle entering at the road end has room: its gap to the nearest vehicle
+ * ahead must cover the jam distance plus one time headway at the entry speed.
+ */
+export const hasEntryGap = (entering: TrafficVehicle, vehicles: TrafficVehicle[]): boolean => {
+  const { leader, follower } = findNeighbours(entering, entering.car.lane, vehicles, null);
+  if (follower && follower.gapM < 0) return false;
+  if (!leader) return true;
+  return leader.gapM >= JAM_GAP_M + entering.speedMps * getDriverParams(entering.car).timeHeadwayS;
+};
+
+/**
+ * Typical desired speed of a class in traffic with the given mean: trucks are capped.
+ */
+export const getTypicalDesiredKmh = (vehicleClass: VehicleClass, meanDesiredSpeedKmh: number): number =>
+  vehicleClass === 'truck' ? Math.min(meanDesiredSpeedKmh, TRUCK_MAX_DESIRED_KMH) : meanDesiredSpeedKmh;
+
+/**
+ * A new driver for the given lane: class from the traffic mix, desired speed within
+ * ±15 % of the mean (trucks capped), random aggressiveness. x is filled in by the caller.
+ */
+export const createSpawnedCar = (
+  id: number,
+  lane: number,
+  direction: TravelDirection,
+  config: TrafficConfig,
+  random: () => number
+): Car => {
+  let pick = random();
+  const classes = Object.keys(SPAWN_CLASS_WEIGHTS) as VehicleClass[];
+  const vehicleClass = classes.find(c => (pick -= SPAWN_CLASS_WEIGHTS[c]) < 0) ?? 'car';
+  const desiredKmh = config.meanDesiredSpeedKmh * (0.85 + 0.3 * random());
+  return {
+    id,
+    x: 0,
+    lane,
+    color: VEHICLE_COLORS[id % VEHICLE_COLORS.length],
+    speedKmh: Math.round(vehicleClass === 'truck' ? Math.min(desiredKmh, TRUCK_MAX_DESIRED_KMH) : desiredKmh),
+    direction,
+    vehicleClass,
+    rcsM2: VEHICLE_SPECS[vehicleClass].rcsM2,
+    aggressiveness: Math.round(random() * 100) / 100,
+  };
+};
@@ -0,0 +1,19 @@
+import { VehicleClass } from '../types';
+
+export interface VehicleSpec {
+  label: string;
+  lengthM: number;
+  widthM: number;
+  rcsM2: number; // Typical K-band radar cross-section, rear/front aspect
+}
+
+export const VEHICLE_SPECS: Record<VehicleClass, VehicleSpec> = {
+  motorcycle: { label: 'Motorcycle', lengthM: 2.2, widthM: 0.8, rcsM2: 1 },
+  car: { label: 'Car', lengthM: 4.5, widthM: 1.8, rcsM2: 10 },
+  van: { label: 'Van', lengthM: 5.5, widthM: 2.0, rcsM2: 30 },
+  truck: { label: 'Truck', lengthM: 16.5, widthM: 2.5, rcsM2: 100 },
+};
+
+export const VEHICLE_CLASSES = Object.keys(VEHICLE_SPECS) as VehicleClass[];
+
+export const VEHICLE_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308', '#a855f7', '#ec4899', '#06b6d4'];
@@ -0,0 +1,143 @@
+import { Car, Detection, EnforcementConfig, RadarParams, ViolationEvent, ViolationOutcome } from '../types';
+import { SCENE_WRAP_THRESHOLD_PX } from './geometry';
+import { csvCell } from './download';
+import { getEnforcementThresholdKmh, getSpeedLimitKmh } from './enforcement';
+
+export const VIOLATION_OUTCOME_LABELS: Record<ViolationOutcome, string> = {
+  confirmed: 'Confirmed',
+  falsePositive: 'False Positive',
+  missed: 'Missed',
+};
+
+// Returns not matched to a car have no pass to debounce on; hold off this long instead
+const UNMATCHED_REARM_MS = 2000;
+
+// Debounce bookkeeping: one event per car per pass through the scene
+export interface ViolationLogState {
+  passByCar: Map<number, number>; // Passes completed so far
+  loggedPasses: Set<string>; // `${carId}:${pass}` already holding an event
+  lastUnmatchedMs: number;
+}
+
+export const createViolationLogState = (): ViolationLogState => ({
+  passByCar: new Map(),
+  loggedPasses: new Set(),
+  lastUnmatchedMs: -Infinity,
+});
+
+const passKey = (state: ViolationLogState, carId: number) => `${carId}:${state.passByCar.get(carId) ?? 0}`;
+
+type NewViolation = Omit<ViolationEvent, 'id'>;
+
+// Limit and trigger threshold for a car's lane and class; a return matched to no car gets the road limit
+const limitsFor = (enforcement: EnforcementConfig, car?: Car) => {
+  const speedLimitKmh = getSpeedLimitKmh(enforcement, car?.lane, car?.vehicleClass);
+  return { speedLimitKmh, thresholdKmh: getEnforcementThresholdKmh(enforcement, speedLimitKmh) };
+};
+
+/**
+ * Logs the measured target if it reads over the threshold for its lane and class and its car
+ * has not already triggered during this pass. The outcome is scored against the car's true speed.
+ */
+export const detectViolation = (
+  state: ViolationLogState,
+  detection: Detection | null,
+  cars: Car[],
+  radar: RadarParams,
+  binResolutionKmh: number,
+  enforcement: EnforcementConfig,
+  timeMs: number
+): NewViolation | null => {
+  if (!detection) return null;
+  const measuredSpeedKmh = Math.abs(detection.speed);
+  const car = cars.find(c => c.id === detection.carId);
+  const { speedLimitKmh, thresholdKmh } = limitsFor(enforcement, car);
+  if (measuredSpeedKmh <= thresholdKmh) return null;
+
+  if (car) {
+    const key = passKey(state, car.id);
+    if (state.loggedPasses.has(key)) return null;
+    state.loggedPasses.add(key);
+  } else {
+    if (timeMs - state.lastUnmatchedMs < UNMATCHED_REARM_MS) return null;
+    state.lastUnmatchedMs = timeMs;
+  }
+
+  return {
+    timestampMs: timeMs,
+    outcome: car && car.speedKmh > thresholdKmh ? 'confirmed' : 'falsePositive',
+    carId: car?.id,
+    vehicleClass: car?.vehicleClass,
+    measuredSpeedKmh,
+    trueSpeedKmh: car?.speedKmh,
+    errorKmh: car ? measuredSpeedKmh - car.speedKmh : undefined,
+    speedLimitKmh,
+    thresholdKmh,
+    binResolutionKmh,
+    radar,
+  };
+};
+
+/**
+ * Ends the pass of every car that wrapped round the scene or left the road since the previous snapshot.
+ * A car over its threshold whose pass ends without an event is logged as a missed violation.
+ */
+export const closeFinishedPasses = (
+  state: ViolationLogState,
+  previousCars: Car[],
+  cars: Car[],
+  radar: RadarParams,
+  binResolutionKmh: number,
+  enforcement: EnforcementConfig,
+  timeMs: number
+): NewViolation[] => {
+  const missed: NewViolation[] = [];
+  const endPass = (car: Car) => {
+    const { speedLimitKmh, thresholdKmh } = limitsFor(enforcement, car);
+    if (car.speedKmh > thresholdKmh && !state.loggedPasses.has(passKey(state, car.id))) {
+      missed.push({
+        timestampMs: timeMs,
+        outcome: 'missed',
+        carId: car.id,
+        vehicleClass: car.vehicleClass,
+        trueSpeedKmh: car.speedKmh,
+        speedLimitKmh,
+        thresholdKmh,
+        binResolutionKmh,
+        radar,
+      });
+    }
+    state.loggedPasses.delete(passKey(state, car.id));
+  };
+  cars.forEach(car => {
+    const previous = previousCars.find(c => c.id === car.id);
+    if (!previous || Math.abs(car.x - previous.x) <= SCENE_WRAP_THRESHOLD_PX) return;
+    endPass(car);
+    state.passByCar.set(car.id, (state.passByCar.get(car.id) ?? 0) + 1);
+  });
+  // Vehicles removed from the road (open-road flow, scenario events) end their pass as last seen
+  previousCars.forEach(previous => {
+    if (cars.some(c => c.id === previous.id)) return;
+    endPass(previous);
+    state.passByCar.delete(previous.id);
+  });
+  return missed;
+};
+
+/**
+ * One row per event; the radar configuration is flattened into radar.* columns.
+ */
+export const violationsToCsv = (events: ViolationEvent[]): string => {
+  const radarKeys = events.length > 0 ? Object.keys(events[0].radar) as (keyof RadarParams)[] : [];
+  const header = [
+    'id', 'timestamp', 'outcome', 'carId', 'vehicleClass', 'measuredSpeedKmh', 'trueSpeedKmh',
+    'errorKmh', 'speedLimitKmh', 'thresholdKmh', 'binResolutionKmh', ...radarKeys.map(key => `radar.${key}`),
+  ];
+  const rows = events.map(e => [
+    e.id, new Date(e.timestampMs).toISOString(), e.outcome, e.carId, e.vehicleClass, e.measuredSpeedKmh,
+    e.trueSpeedKmh, e.errorKmh, e.speedLimitKmh, e.thresholdKmh, e.binResolutionKmh, ...radarKeys.map(key => e.radar[key]),
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+};
+
+export const violationsToJson = (events: ViolationEvent[]): string => JSON.stringify(events, null, 2);
@@ -0,0 +1,155 @@
+import { WavSampleFormat } from '../types';
+
+export const WAV_SAMPLE_FORMAT_LABELS: Record<WavSampleFormat, string> = {
+  pcm16: '16-bit PCM',
+  float32: '32-bit Float',
+};
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const PCM16_FULL_SCALE = 32767;
+
+const writeTag = (view: DataView, offset: number, tag: string) => {
+  for (let k = 0; k < tag.length; k++) view.setUint8(offset + k, tag.charCodeAt(k));
+};
+
+/**
+ * RIFF/WAVE file from one buffer per channel (interleaved on write), full scale = ±1.
+ * 16-bit PCM rounds and clips to ±32767; 32-bit float keeps the samples as they are
+ * and carries the 'fact' chunk non-PCM formats require.
+ */
+export const encodeWav = (channels: Float32Array[], sampleRateHz: number, format: WavSampleFormat): ArrayBuffer => {
+  const numChannels = channels.length;
+  const numFrames = channels[0]?.length ?? 0;
+  const bytesPerSample = format === 'pcm16' ? 2 : 4;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataBytes = numFrames * blockAlign;
+  const fmtBytes = format === 'pcm16' ? 16 : 18;
+  const factBytes = format === 'pcm16' ? 0 : 12;
+  const headerBytes = 12 + 8 + fmtBytes + factBytes + 8;
+
+  const buffer = new ArrayBuffer(headerBytes + dataBytes);
+  const view = new DataView(buffer);
+  writeTag(view, 0, 'RIFF');
+  view.setUint32(4, headerBytes - 8 + dataBytes, true);
+  writeTag(view, 8, 'WAVE');
+
+  writeTag(view, 12, 'fmt ');
+  view.setUint32(16, fmtBytes, true);
+  view.setUint16(20, format === 'pcm16' ? WAVE_FORMAT_PCM : WAVE_FORMAT_IEEE_FLOAT, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRateHz, true);
+  view.setUint32(28, sampleRateHz * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  let offset = 36;
+  if (format === 'float32') {
+    view.setUint16(offset, 0, true); // cbSize: no extension
+    offset += 2;
+    writeTag(view, offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, numFrames, true);
+    offset += 12;
+  }
+
+  writeTag(view, offset, 'data');
+  view.setUint32(offset + 4, dataBytes, true);
+  offset += 8;
+  for (let n = 0; n < numFrames; n++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const sample = channels[ch][n];
+      if (format === 'pcm16') {
+        view.setInt16(offset, Math.round(Math.max(-1, Math.min(1, sample)) * PCM16_FULL_SCALE), true);
+      } else {
+        view.setFloat32(offset, sample, true);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return buffer;
+};
+
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export interface WavData {
+  sampleRateHz: number;
+  channels: Float32Array[]; // One buffer per channel, full scale = ±1
+  description: string; // e.g. "2 ch, 24-bit PCM"
+}
+
+export interface WavDecodeResult {
+  wav: WavData | null; // Null when the file cannot be read
+  error: string | null;
+}
+
+const readTag = (view: DataView, offset: number): string =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// Reads one sample and scales it to ±1 (8-bit PCM is unsigned, offset by 128)
+const sampleReader = (formatTag: number, bits: number): ((view: DataView, offset: number) => number) | null => {
+  if (formatTag === WAVE_FORMAT_PCM) {
+    if (bits === 8) return (view, offset) => (view.getUint8(offset) - 128) / 128;
+    if (bits === 16) return (view, offset) => view.getInt16(offset, true) / 32768;
+    if (bits === 24) return (view, offset) => ((view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16))) / 8388608;
+    if (bits === 32) return (view, offset) => view.getInt32(offset, true) / 2147483648;
+  }
+  if (formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bits === 32) return (view, offset) => view.getFloat32(offset, true);
+    if (bits === 64) return (view, offset) => view.getFloat64(offset, true);
+  }
+  return null;
+};
+
+/**
+ * Reads a RIFF/WAVE file: PCM 8/16/24/32-bit or IEEE float 32/64-bit, any number of
+ * channels, plain or WAVE_FORMAT_EXTENSIBLE headers. Unknown chunks are skipped.
+ */
+export const decodeWav = (buffer: ArrayBuffer): WavDecodeResult => {
+  const fail = (error: string): WavDecodeResult => ({ wav: null, error });
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    return fail('Not a RIFF/WAVE file');
+  }
+
+  let fmt: { formatTag: number; numChannels: number; sampleRateHz: number; blockAlign: number; bits: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (tag === 'fmt ') {
+      if (size < 16) return fail('fmt chunk too short');
+      let formatTag = view.getUint16(body, true);
+      // Extensible header: the real format is the first two bytes of the sub-format GUID
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && size >= 40) formatTag = view.getUint16(body + 24, true);
+      fmt = {
+        formatTag,
+        numChannels: view.getUint16(body + 2, true),
+        sampleRateHz: view.getUint32(body + 4, true),
+        blockAlign: view.getUint16(body + 12, true),
+        bits: view.getUint16(body + 14, true),
+      };
+    } else if (tag === 'data') {
+      if (!fmt) return fail('data chunk before fmt chunk');
+      const read = sampleReader(fmt.formatTag, fmt.bits);
+      if (!read) return fail(`Unsupported encoding: format ${fmt.formatTag}, ${fmt.bits}-bit`);
+      if (fmt.numChannels < 1 || fmt.sampleRateHz <= 0) return fail('Invalid channel count or sample rate');
+      const bytesPerSample = fmt.bits / 8;
+      if (fmt.blockAlign !== fmt.numChannels * bytesPerSample) {
+        return fail(`Invalid block align ${fmt.blockAlign} (expected ${fmt.numChannels * bytesPerSample} for ${fmt.numChannels} ch of ${fmt.bits}-bit)`);
+      }
+      const dataBytes = Math.min(size, buffer.byteLength - body); // Tolerate truncated recordings
+      const numFrames = Math.floor(dataBytes / fmt.blockAlign);
+      const channels = Array.from({ length: fmt.numChannels }, () => new Float32Array(numFrames));
+      for (let n = 0; n < numFrames; n++) {
+        for (let ch = 0; ch < fmt.numChannels; ch++) {
+          channels[ch][n] = read(view, body + n * fmt.blockAlign + ch * bytesPerSample);
+        }
+      }
+      const encoding = fmt.formatTag === WAVE_FORMAT_IEEE_FLOAT ? `${fmt.bits}-bit float` : `${fmt.bits}-bit PCM`;
+      return { wav: { sampleRateHz: fmt.sampleRateHz, channels, description: `${fmt.numChannels} ch, ${encoding}` }, error: null };
+    }
+    offset = body + size + (size % 2); // Chunks are padded to an even length
+  }
+  return fail('No data chunk');
+};